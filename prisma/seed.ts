@@ -979,6 +979,30 @@ async function main(total: number) {
           displayName: "View System Logs",
           group: "system",
         },
+        {
+          resource: "apiKey",
+          action: "list",
+          displayName: "List API Keys",
+          group: "system",
+        },
+        {
+          resource: "apiKey",
+          action: "create",
+          displayName: "Create API Keys",
+          group: "system",
+        },
+        {
+          resource: "apiKey",
+          action: "update",
+          displayName: "Update API Keys",
+          group: "system",
+        },
+        {
+          resource: "apiKey",
+          action: "revoke",
+          displayName: "Revoke API Keys",
+          group: "system",
+        },
 
         // Feedback
         {
@@ -1005,6 +1029,38 @@ async function main(total: number) {
           displayName: "Delete Feedback",
           group: "feedback",
         },
+
+        // Communication
+        {
+          resource: "email",
+          action: "send",
+          displayName: "Send Emails",
+          group: "communication",
+        },
+        {
+          resource: "email",
+          action: "list",
+          displayName: "List Campaigns",
+          group: "communication",
+        },
+        {
+          resource: "email",
+          action: "view",
+          displayName: "View Campaigns",
+          group: "communication",
+        },
+        {
+          resource: "notification",
+          action: "send",
+          displayName: "Send Notifications",
+          group: "communication",
+        },
+        {
+          resource: "notification",
+          action: "list",
+          displayName: "List Notifications",
+          group: "communication",
+        },
       ];
 
       // Create permissions
@@ -1032,12 +1088,16 @@ async function main(total: number) {
           name: "super",
           description: "Full access to all features including system settings",
           isSystem: true,
+          rank: 100,
+          parent: "admin",
           permissions: permissionsData.map((p) => `${p.resource}:${p.action}`), // All permissions
         },
         {
           name: "admin",
           description: "Full access to user and content management",
           isSystem: true,
+          rank: 80,
+          parent: "moderator",
           permissions: permissionsData
             .filter((p) => p.resource !== "system" || p.action !== "settings")
             .filter(
@@ -1049,6 +1109,8 @@ async function main(total: number) {
           name: "moderator",
           description: "Content moderation and user management",
           isSystem: true,
+          rank: 50,
+          parent: "user",
           permissions: [
             "user:list",
             "user:view",
@@ -1067,9 +1129,11 @@ async function main(total: number) {
         },
         {
           name: "user",
-          description: "Basic access to dashboard",
+          description: "Customer account without admin access",
           isSystem: true,
-          permissions: ["system:dashboard"],
+          rank: 0,
+          parent: null,
+          permissions: [],
         },
       ];
 
@@ -1077,11 +1141,12 @@ async function main(total: number) {
       for (const roleData of rolesData) {
         const role = await tx.role.upsert({
           where: { name: roleData.name },
-          update: { description: roleData.description },
+          update: { description: roleData.description, rank: roleData.rank },
           create: {
             name: roleData.name,
             description: roleData.description,
             isSystem: roleData.isSystem,
+            rank: roleData.rank,
           },
         });
 
@@ -1108,6 +1173,17 @@ async function main(total: number) {
         }
       }
 
+      // Link parents once every role exists
+      for (const roleData of rolesData) {
+        const parent = roleData.parent
+          ? await tx.role.findUnique({ where: { name: roleData.parent } })
+          : null;
+        await tx.role.update({
+          where: { name: roleData.name },
+          data: { parentId: parent?.id ?? null },
+        });
+      }
+
       console.log("✅ Roles seeded successfully!");
     },
     {
@@ -0,0 +1,262 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import type { apiKey } from "@prisma/client";
+import { auth, getRequestRole, requirePermission } from "@/lib/auth.js";
+import { prisma } from "@/lib/prisma.js";
+import { validateInput } from "@/lib/validateInput.js";
+import { recordAudit } from "@/lib/audit.js";
+import { generateApiKey } from "@/lib/apiKeys.js";
+import { getAllPermissions } from "@/lib/permissions.js";
+import { getRolePermissions, isKnownRole, outranks } from "@/lib/permissions-service.js";
+import { apiKeyCreateSchema, apiKeyUpdateSchema } from "@/schema/apiKeySchema.js";
+
+const app = new Hono<{
+  Variables: {
+    user: typeof auth.$Infer.Session.user | null;
+    session: typeof auth.$Infer.Session.session | null;
+  };
+}>();
+
+// Key as returned and audited (the hash never leaves the database)
+const toResponse = ({ keyHash, ...key }: apiKey) => ({
+  ...key,
+  status: key.revokedAt
+    ? "revoked"
+    : key.expiresAt && key.expiresAt <= new Date()
+      ? "expired"
+      : "active",
+});
+
+/**
+ * Check the scope a signed-in admin gives a key: a role ranked below their own,
+ * or known permissions they hold themselves
+ */
+const checkScope = async (
+  c: Context,
+  scope: { role?: string | null; permissions?: string[] }
+): Promise<{ error: string; status: 400 | 403 } | null> => {
+  const user = c.get("user");
+  if (!user) {
+    return { error: "API keys can only be managed by a signed-in admin", status: 403 };
+  }
+
+  if (scope.role) {
+    if (!(await isKnownRole(scope.role))) {
+      return { error: `Unknown role: ${scope.role}`, status: 400 };
+    }
+    if (!(await outranks(user.role, scope.role))) {
+      return { error: "You can only grant roles ranked below your own", status: 403 };
+    }
+  }
+
+  if (scope.permissions?.length) {
+    const known = new Set(getAllPermissions().map((p) => `${p.resource}:${p.action}`));
+    const unknown = scope.permissions.filter((perm) => !known.has(perm));
+    if (unknown.length) {
+      return { error: `Unknown permissions: ${unknown.join(", ")}`, status: 400 };
+    }
+
+    if (user.role !== "super") {
+      const granted = await getRolePermissions(user.role ?? "user");
+      const missing = scope.permissions.filter((perm) => !granted.has(perm));
+      if (missing.length) {
+        return {
+          error: `You cannot grant permissions you do not have: ${missing.join(", ")}`,
+          status: 403,
+        };
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Keys can be changed by their creator or by callers ranked above the creator
+ * (same rule as managing the creator's account, see requireHigherRank)
+ */
+const canManageKey = async (c: Context, key: apiKey) => {
+  if (!key.createdById || key.createdById === c.get("user")?.id) return true;
+
+  const creator = await prisma.user.findUnique({
+    where: { id: key.createdById },
+    select: { role: true },
+  });
+  return !creator || (await outranks(getRequestRole(c), creator.role));
+};
+
+/**
+ * @route GET /api/admin/api-keys
+ * @desc List API keys (prefix, scope, limits and last use; never the key itself)
+ * @query status - active | revoked | expired
+ * @access Admin only (apiKey:list permission)
+ */
+app.get("/", requirePermission("apiKey", "list"), async (c) => {
+  const keys = await prisma.apiKey.findMany({ orderBy: { createdAt: "desc" } });
+  const status = c.req.query("status");
+
+  const apiKeys = keys.map(toResponse).filter((key) => !status || key.status === status);
+  return c.json({ apiKeys });
+});
+
+/**
+ * @route GET /api/admin/api-keys/:keyId
+ * @desc Get an API key
+ * @access Admin only (apiKey:list permission)
+ */
+app.get("/:keyId", requirePermission("apiKey", "list"), async (c) => {
+  const key = await prisma.apiKey.findUnique({ where: { id: c.req.param("keyId") } });
+
+  if (!key) {
+    return c.json({ error: "API key not found" }, 404);
+  }
+
+  return c.json(toResponse(key));
+});
+
+/**
+ * @route POST /api/admin/api-keys
+ * @desc Create an API key scoped to a role or to explicit permissions.
+ *       The key is only returned in this response; send it as "Authorization: Bearer <key>"
+ * @access Admin only (apiKey:create permission, signed in)
+ */
+app.post("/", requirePermission("apiKey", "create"), async (c) => {
+  const validated = await validateInput({
+    type: "form",
+    schema: apiKeyCreateSchema,
+    data: await c.req.json(),
+  });
+
+  const scopeError = await checkScope(c, validated);
+  if (scopeError) {
+    return c.json({ error: scopeError.error }, scopeError.status);
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  const created = await prisma.apiKey.create({
+    data: {
+      name: validated.name,
+      prefix,
+      keyHash,
+      role: validated.role || null,
+      permissions: validated.role ? [] : validated.permissions,
+      ipAllowlist: validated.ipAllowlist,
+      rateLimit: validated.rateLimit,
+      expiresAt: validated.expiresAt,
+      createdById: c.get("user")!.id,
+    },
+  });
+
+  await recordAudit(c, {
+    action: "apiKey.create",
+    targetType: "apiKey",
+    targetId: created.id,
+    after: toResponse(created),
+  });
+
+  return c.json({ key, apiKey: toResponse(created) }, 201);
+});
+
+/**
+ * @route PUT /api/admin/api-keys/:keyId
+ * @desc Update an API key's name, scope, IP allowlist, rate limit or expiry
+ *       (setting a role clears the permission list and vice versa)
+ * @access Admin only (apiKey:update permission, signed in; own keys or keys of lower-ranked creators)
+ */
+app.put("/:keyId", requirePermission("apiKey", "update"), async (c) => {
+  const keyId = c.req.param("keyId");
+
+  const validated = await validateInput({
+    type: "form",
+    schema: apiKeyUpdateSchema,
+    data: await c.req.json(),
+  });
+
+  const key = await prisma.apiKey.findUnique({ where: { id: keyId } });
+  if (!key) {
+    return c.json({ error: "API key not found" }, 404);
+  }
+  if (!(await canManageKey(c, key))) {
+    return c.json(
+      { error: "You can only manage your own keys or keys created by users ranked below you" },
+      403
+    );
+  }
+  if (key.revokedAt) {
+    return c.json({ error: "Revoked API keys cannot be updated" }, 400);
+  }
+
+  // The resulting scope is checked, so a key cannot keep a role the editor may not grant
+  const role = validated.permissions?.length ? null : validated.role ?? key.role;
+  const permissions = role ? [] : validated.permissions ?? key.permissions;
+  if (!role && !permissions.length) {
+    return c.json({ error: "Provide either a role or a permission list" }, 400);
+  }
+
+  const scopeError = await checkScope(c, { role, permissions });
+  if (scopeError) {
+    return c.json({ error: scopeError.error }, scopeError.status);
+  }
+
+  const updated = await prisma.apiKey.update({
+    where: { id: keyId },
+    data: {
+      name: validated.name,
+      role,
+      permissions,
+      ipAllowlist: validated.ipAllowlist,
+      rateLimit: validated.rateLimit,
+      expiresAt: validated.expiresAt,
+    },
+  });
+
+  await recordAudit(c, {
+    action: "apiKey.update",
+    targetType: "apiKey",
+    targetId: keyId,
+    before: toResponse(key),
+    after: toResponse(updated),
+  });
+
+  return c.json(toResponse(updated));
+});
+
+/**
+ * @route POST /api/admin/api-keys/:keyId/revoke
+ * @desc Revoke an API key (immediately rejected, kept for the audit trail)
+ * @access Admin only (apiKey:revoke permission; own keys or keys of lower-ranked creators)
+ */
+app.post("/:keyId/revoke", requirePermission("apiKey", "revoke"), async (c) => {
+  const keyId = c.req.param("keyId");
+
+  const key = await prisma.apiKey.findUnique({ where: { id: keyId } });
+  if (!key) {
+    return c.json({ error: "API key not found" }, 404);
+  }
+  if (!(await canManageKey(c, key))) {
+    return c.json(
+      { error: "You can only manage your own keys or keys created by users ranked below you" },
+      403
+    );
+  }
+  if (key.revokedAt) {
+    return c.json({ error: "API key is already revoked" }, 400);
+  }
+
+  const revoked = await prisma.apiKey.update({
+    where: { id: keyId },
+    data: { revokedAt: new Date() },
+  });
+
+  await recordAudit(c, {
+    action: "apiKey.revoke",
+    targetType: "apiKey",
+    targetId: keyId,
+    before: toResponse(key),
+    after: toResponse(revoked),
+  });
+
+  return c.json({ success: true, message: "API key revoked", apiKey: toResponse(revoked) });
+});
+
+export default app;
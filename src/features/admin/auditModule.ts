@@ -0,0 +1,153 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import type { Prisma } from "@prisma/client";
+import { requirePermission } from "@/lib/auth.js";
+import { prisma } from "@/lib/prisma.js";
+import { validateInput } from "@/lib/validateInput.js";
+import { dateRangeQuerySchema } from "@/schema/dateRangeSchema.js";
+
+const app = new Hono();
+
+const EXPORT_MAX_ROWS = 10000;
+
+// Filters shared by the list and export endpoints (malformed dates are a 400)
+const buildWhere = async (c: Context): Promise<Prisma.auditLogWhereInput> => {
+  const where: Prisma.auditLogWhereInput = {};
+
+  const { startDate, endDate } = await validateInput({
+    type: "query",
+    schema: dateRangeQuerySchema,
+    data: c.req.query(),
+  });
+  if (startDate || endDate) {
+    where.createdAt = {
+      ...(startDate && { gte: startDate }),
+      ...(endDate && { lte: endDate }),
+    };
+  }
+
+  if (c.req.query("actorId")) where.actorId = c.req.query("actorId");
+  if (c.req.query("actorEmail"))
+    where.actorEmail = { contains: c.req.query("actorEmail")!, mode: "insensitive" };
+  if (c.req.query("impersonatedBy")) where.impersonatedBy = c.req.query("impersonatedBy");
+  if (c.req.query("apiKeyId")) where.apiKeyId = c.req.query("apiKeyId");
+  // "user.ban" matches exactly, "user." every user action
+  const action = c.req.query("action");
+  if (action) where.action = action.endsWith(".") ? { startsWith: action } : action;
+  if (c.req.query("targetType")) where.targetType = c.req.query("targetType");
+  if (c.req.query("targetId")) where.targetId = c.req.query("targetId");
+  if (c.req.query("requestId")) where.requestId = c.req.query("requestId");
+
+  return where;
+};
+
+/**
+ * @route GET /api/admin/audit
+ * @desc List audit log entries, newest first
+ * @query page, limit, startDate, endDate, actorId, actorEmail, impersonatedBy, apiKeyId, action, targetType,
+ *        targetId, requestId, format=csv (exports every matching entry instead, see /export)
+ * @access Admin only (system:logs permission)
+ */
+app.get("/", requirePermission("system", "logs"), async (c) => {
+  if (c.req.query("format") === "csv") return exportCsv(c);
+
+  const page = Math.max(parseInt(c.req.query("page") || "1") || 1, 1);
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "50") || 50, 1), 200);
+  const where = await buildWhere(c);
+
+  const [entries, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      skip: (page - 1) * limit,
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  return c.json({
+    entries,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+});
+
+/**
+ * @route GET /api/admin/audit/export
+ * @desc Export audit log entries as CSV (same filters as the list, at most 10k rows)
+ * @access Admin only (system:logs permission)
+ */
+app.get("/export", requirePermission("system", "logs"), (c) => exportCsv(c));
+
+async function exportCsv(c: Context) {
+  const entries = await prisma.auditLog.findMany({
+    where: await buildWhere(c),
+    orderBy: { createdAt: "desc" },
+    take: EXPORT_MAX_ROWS,
+  });
+
+  const headers = [
+    "Timestamp",
+    "Actor ID",
+    "Actor Email",
+    "Impersonated By",
+    "API Key ID",
+    "Action",
+    "Target Type",
+    "Target ID",
+    "Changes",
+    "Metadata",
+    "IP",
+    "User Agent",
+    "Request ID",
+  ];
+
+  const rows = entries.map((entry) => [
+    entry.createdAt.toISOString(),
+    entry.actorId || "",
+    entry.actorEmail || "",
+    entry.impersonatedBy || "",
+    entry.apiKeyId || "",
+    entry.action,
+    entry.targetType,
+    entry.targetId || "",
+    entry.diff ? JSON.stringify(entry.diff) : "",
+    entry.metadata ? JSON.stringify(entry.metadata) : "",
+    entry.ip || "",
+    entry.userAgent || "",
+    entry.requestId || "",
+  ]);
+
+  // Quotes are doubled: diff and metadata cells hold JSON
+  const csv = [headers, ...rows]
+    .map((row) => row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(","))
+    .join("\n");
+
+  return c.text(csv, 200, {
+    "Content-Type": "text/csv",
+    "Content-Disposition": `attachment; filename="audit-log-${new Date().toISOString().split("T")[0]}.csv"`,
+  });
+}
+
+/**
+ * @route GET /api/admin/audit/:auditId
+ * @desc Get an audit log entry with its before/after snapshots
+ * @access Admin only (system:logs permission)
+ */
+app.get("/:auditId", requirePermission("system", "logs"), async (c) => {
+  const entry = await prisma.auditLog.findUnique({
+    where: { id: c.req.param("auditId") },
+  });
+
+  if (!entry) {
+    return c.json({ error: "Audit entry not found" }, 404);
+  }
+
+  return c.json(entry);
+});
+
+export default app;
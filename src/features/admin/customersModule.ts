@@ -1,15 +1,16 @@
 import { Hono } from "hono";
-import { requireAdmin } from "@/lib/auth.js";
+import { requireHigherRank, requirePermission } from "@/lib/auth.js";
 import { prisma } from "@/lib/prisma.js";
+import { recordAudit } from "@/lib/audit.js";
 
 const app = new Hono();
 
 /**
  * @route GET /api/admin/customers
  * @desc List all customers (users with role="user") with pagination
- * @access Admin only
+ * @access Admin only (user:list permission)
  */
-app.get("/", requireAdmin, async (c) => {
+app.get("/", requirePermission("user", "list"), async (c) => {
     const limit = parseInt(c.req.query("limit") || "20");
     const offset = parseInt(c.req.query("offset") || "0");
     const searchValue = c.req.query("searchValue") || "";
@@ -62,10 +63,10 @@ app.get("/", requireAdmin, async (c) => {
 /**
  * @route GET /api/admin/customers/stats/overview
  * @desc Get customer statistics overview
- * @access Admin only
+ * @access Admin only (user:list permission)
  * NOTE: This route MUST be defined before /:customerId to avoid route conflicts
  */
-app.get("/stats/overview", requireAdmin, async (c) => {
+app.get("/stats/overview", requirePermission("user", "list"), async (c) => {
     const [
         totalCustomers,
         verifiedCustomers,
@@ -102,9 +103,9 @@ app.get("/stats/overview", requireAdmin, async (c) => {
 /**
  * @route GET /api/admin/customers/:customerId
  * @desc Get a single customer by ID
- * @access Admin only
+ * @access Admin only (user:view permission)
  */
-app.get("/:customerId", requireAdmin, async (c) => {
+app.get("/:customerId", requirePermission("user", "view"), async (c) => {
     const customerId = c.req.param("customerId");
 
     const customer = await prisma.user.findFirst({
@@ -139,9 +140,9 @@ app.get("/:customerId", requireAdmin, async (c) => {
 /**
  * @route PUT /api/admin/customers/:customerId/preferences
  * @desc Update customer communication preferences (admin override)
- * @access Admin only
+ * @access Admin only (user:update permission)
  */
-app.put("/:customerId/preferences", requireAdmin, async (c) => {
+app.put("/:customerId/preferences", requirePermission("user", "update"), async (c) => {
     const customerId = c.req.param("customerId");
     const { wantsNotifications, wantsNewsletter } = await c.req.json();
 
@@ -171,15 +172,29 @@ app.put("/:customerId/preferences", requireAdmin, async (c) => {
         },
     });
 
+    await recordAudit(c, {
+        action: "customer.update-preferences",
+        targetType: "user",
+        targetId: customerId,
+        before: {
+            wantsNotifications: existingCustomer.wantsNotifications,
+            wantsNewsletter: existingCustomer.wantsNewsletter,
+        },
+        after: {
+            wantsNotifications: customer.wantsNotifications,
+            wantsNewsletter: customer.wantsNewsletter,
+        },
+    });
+
     return c.json({ success: true, customer });
 });
 
 /**
  * @route POST /api/admin/customers/:customerId/ban
  * @desc Ban a customer
- * @access Admin only
+ * @access Admin only (user:ban permission)
  */
-app.post("/:customerId/ban", requireAdmin, async (c) => {
+app.post("/:customerId/ban", requirePermission("user", "ban"), requireHigherRank("customerId"), async (c) => {
     const customerId = c.req.param("customerId");
     const { banReason, banExpiresIn } = await c.req.json();
 
@@ -210,15 +225,27 @@ app.post("/:customerId/ban", requireAdmin, async (c) => {
         where: { userId: customerId },
     });
 
+    await recordAudit(c, {
+        action: "customer.ban",
+        targetType: "user",
+        targetId: customerId,
+        before: {
+            banned: existingCustomer.banned,
+            banReason: existingCustomer.banReason,
+            banExpires: existingCustomer.banExpires,
+        },
+        after: { banned: customer.banned, banReason: customer.banReason, banExpires: customer.banExpires },
+    });
+
     return c.json({ success: true, customer: { id: customer.id, banned: customer.banned } });
 });
 
 /**
  * @route POST /api/admin/customers/:customerId/unban
  * @desc Unban a customer
- * @access Admin only
+ * @access Admin only (user:unban permission)
  */
-app.post("/:customerId/unban", requireAdmin, async (c) => {
+app.post("/:customerId/unban", requirePermission("user", "unban"), requireHigherRank("customerId"), async (c) => {
     const customerId = c.req.param("customerId");
 
     // Verify customer exists and is a customer (role = "user")
@@ -239,15 +266,27 @@ app.post("/:customerId/unban", requireAdmin, async (c) => {
         },
     });
 
+    await recordAudit(c, {
+        action: "customer.unban",
+        targetType: "user",
+        targetId: customerId,
+        before: {
+            banned: existingCustomer.banned,
+            banReason: existingCustomer.banReason,
+            banExpires: existingCustomer.banExpires,
+        },
+        after: { banned: customer.banned, banReason: customer.banReason, banExpires: customer.banExpires },
+    });
+
     return c.json({ success: true, customer: { id: customer.id, banned: customer.banned } });
 });
 
 /**
  * @route DELETE /api/admin/customers/:customerId
  * @desc Delete a customer
- * @access Admin only
+ * @access Admin only (user:delete permission)
  */
-app.delete("/:customerId", requireAdmin, async (c) => {
+app.delete("/:customerId", requirePermission("user", "delete"), requireHigherRank("customerId"), async (c) => {
     const customerId = c.req.param("customerId");
 
     // Verify customer exists and is a customer (role = "user")
@@ -264,6 +303,13 @@ app.delete("/:customerId", requireAdmin, async (c) => {
         where: { id: customerId },
     });
 
+    await recordAudit(c, {
+        action: "customer.delete",
+        targetType: "user",
+        targetId: customerId,
+        before: existingCustomer,
+    });
+
     return c.json({ success: true });
 });
 
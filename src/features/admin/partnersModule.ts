@@ -0,0 +1,182 @@
+import { Hono } from "hono";
+import { subDays } from "date-fns";
+import { Prisma } from "@prisma/client";
+import { requirePermission } from "@/lib/auth.js";
+import { prisma } from "@/lib/prisma.js";
+import { validateInput } from "@/lib/validateInput.js";
+import { recordAudit } from "@/lib/audit.js";
+import { partnerCreateSchema, partnerUpdateSchema } from "@/schema/partnerSchema.js";
+
+const app = new Hono();
+
+/**
+ * @route GET /api/admin/partners
+ * @desc List booking partners
+ * @access Staff only (analytics:view permission)
+ */
+app.get("/", requirePermission("analytics", "view"), async (c) => {
+  const partners = await prisma.partner.findMany({ orderBy: { name: "asc" } });
+  return c.json({ partners });
+});
+
+/**
+ * @route GET /api/admin/partners/stats
+ * @desc Verified click-outs (GET /go/:token) and CPC earnings per partner
+ * @query days - look-back window (default 30, max 365)
+ * @access Staff only (analytics:view permission)
+ */
+app.get("/stats", requirePermission("analytics", "view"), async (c) => {
+  const days = Math.min(Math.max(parseInt(c.req.query("days") || "30") || 30, 1), 365);
+  const since = subDays(new Date(), days);
+
+  const [partners, grouped] = await Promise.all([
+    prisma.partner.findMany({ orderBy: { name: "asc" } }),
+    prisma.clickOutEvent.groupBy({
+      by: ["partner"],
+      where: { verified: true, createdAt: { gte: since } },
+      _count: { _all: true },
+      _sum: { commission: true },
+    }),
+  ]);
+
+  const stats = partners.map((partner) => {
+    const row = grouped.find((g) => g.partner === partner.code);
+    return {
+      code: partner.code,
+      name: partner.name,
+      commissionModel: partner.commissionModel,
+      clickouts: row?._count._all ?? 0,
+      commission: row?._sum.commission ?? 0,
+      commissionCurrency: partner.commissionCurrency,
+    };
+  });
+
+  return c.json({ days, since, stats });
+});
+
+/**
+ * @route GET /api/admin/partners/:partnerId
+ * @desc Get a partner
+ * @access Staff only (analytics:view permission)
+ */
+app.get("/:partnerId", requirePermission("analytics", "view"), async (c) => {
+  const partner = await prisma.partner.findUnique({
+    where: { id: c.req.param("partnerId") },
+  });
+
+  if (!partner) {
+    return c.json({ error: "Partner not found" }, 404);
+  }
+
+  return c.json(partner);
+});
+
+/**
+ * @route POST /api/admin/partners
+ * @desc Register a partner (URL template placeholders: {origin}, {destination}, {departureDate},
+ *       {returnDate}, {tripType}, {adults}, {children}, {infants}, {cabin}, {carrier},
+ *       {flightNumbers}, {price}, {currency}, {clickId})
+ * @access Admin only (system:settings permission)
+ */
+app.post("/", requirePermission("system", "settings"), async (c) => {
+  const validated = await validateInput({
+    type: "form",
+    schema: partnerCreateSchema,
+    data: await c.req.json(),
+  });
+
+  const existing = await prisma.partner.findUnique({ where: { code: validated.code } });
+  if (existing) {
+    return c.json({ error: "Partner code already exists" }, 409);
+  }
+
+  const partner = await prisma.partner.create({
+    data: {
+      ...validated,
+      affiliateParams: validated.affiliateParams ?? Prisma.DbNull,
+    },
+  });
+
+  await recordAudit(c, {
+    action: "partner.create",
+    targetType: "partner",
+    targetId: partner.id,
+    after: partner,
+  });
+
+  return c.json(partner, 201);
+});
+
+/**
+ * @route PUT /api/admin/partners/:partnerId
+ * @desc Update a partner (the code cannot change, click-outs reference it)
+ * @access Admin only (system:settings permission)
+ */
+app.put("/:partnerId", requirePermission("system", "settings"), async (c) => {
+  const partnerId = c.req.param("partnerId");
+
+  const validated = await validateInput({
+    type: "form",
+    schema: partnerUpdateSchema,
+    data: await c.req.json(),
+  });
+
+  const partner = await prisma.partner.findUnique({ where: { id: partnerId } });
+  if (!partner) {
+    return c.json({ error: "Partner not found" }, 404);
+  }
+
+  const commissionModel = validated.commissionModel ?? partner.commissionModel;
+  const commissionValue = validated.commissionValue ?? partner.commissionValue;
+  if (commissionModel === "revenue-share" && commissionValue > 100) {
+    return c.json({ error: "Revenue share cannot exceed 100%" }, 400);
+  }
+
+  const { affiliateParams, ...fields } = validated;
+  const updated = await prisma.partner.update({
+    where: { id: partnerId },
+    data: {
+      ...fields,
+      ...(affiliateParams !== undefined && {
+        affiliateParams: affiliateParams ?? Prisma.DbNull,
+      }),
+    },
+  });
+
+  await recordAudit(c, {
+    action: "partner.update",
+    targetType: "partner",
+    targetId: partnerId,
+    before: partner,
+    after: updated,
+  });
+
+  return c.json(updated);
+});
+
+/**
+ * @route DELETE /api/admin/partners/:partnerId
+ * @desc Delete a partner (past click-outs keep its code; deactivate to keep it listed)
+ * @access Admin only (system:settings permission)
+ */
+app.delete("/:partnerId", requirePermission("system", "settings"), async (c) => {
+  const partnerId = c.req.param("partnerId");
+
+  const partner = await prisma.partner.findUnique({ where: { id: partnerId } });
+  if (!partner) {
+    return c.json({ error: "Partner not found" }, 404);
+  }
+
+  await prisma.partner.delete({ where: { id: partnerId } });
+
+  await recordAudit(c, {
+    action: "partner.delete",
+    targetType: "partner",
+    targetId: partnerId,
+    before: partner,
+  });
+
+  return c.json({ success: true, message: "Partner deleted" });
+});
+
+export default app;
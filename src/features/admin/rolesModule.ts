@@ -1,5 +1,5 @@
 import { Hono } from "hono";
-import { requireAdmin, requirePermission, getSession } from "@/lib/auth.js";
+import { auth, requirePermission, getRequestRole, getSession } from "@/lib/auth.js";
 import { prisma } from "@/lib/prisma.js";
 import {
   roleMetadata,
@@ -7,26 +7,132 @@ import {
   getAllPermissions,
 } from "@/lib/permissions.js";
 import * as permissionService from "@/lib/permissions-service.js";
+import { recordAudit } from "@/lib/audit.js";
+import { createLogger } from "@/lib/logger.js";
+
+const log = createLogger("Roles");
+
+const app = new Hono<{
+  Variables: {
+    user: typeof auth.$Infer.Session.user | null;
+    session: typeof auth.$Infer.Session.session | null;
+  };
+}>();
+
+// Role state as recorded in the audit log
+const roleAuditState = (
+  role: Awaited<ReturnType<typeof permissionService.getRoleWithPermissions>>
+) =>
+  role && {
+    description: role.description,
+    rank: role.rank,
+    parentId: role.parentId,
+    permissions: role.rolePermissions
+      .map((rp) => `${rp.permission.resource}:${rp.permission.action}`)
+      .sort(),
+  };
 
-const app = new Hono();
+/**
+ * Rank and parent for a new or updated role, limited to what the acting user may delegate:
+ * ranks below their own, parents ranked at or below the role, no inheritance cycles
+ */
+const resolveHierarchy = async (
+  actorRole: string | null | undefined,
+  input: { rank?: unknown; parentId?: unknown },
+  current?: { id: string; rank: number; parentId: string | null }
+): Promise<
+  | { error: string; status: 400 | 403 }
+  | { rank: number; parentId: string | null }
+> => {
+  const rank = input.rank === undefined ? current?.rank ?? 0 : input.rank;
+  if (typeof rank !== "number" || !Number.isInteger(rank) || rank < 0) {
+    return { error: "rank must be a non-negative integer", status: 400 };
+  }
+  if (rank >= (await permissionService.getRoleRank(actorRole))) {
+    return { error: "Role rank must be below your own role's rank", status: 403 };
+  }
+
+  let parentId = current?.parentId ?? null;
+  if (input.parentId !== undefined) {
+    parentId = null;
+    if (input.parentId) {
+      const parent = await prisma.role.findFirst({
+        where: {
+          OR: [{ id: String(input.parentId) }, { name: String(input.parentId) }],
+        },
+      });
+      if (!parent) {
+        return { error: "Parent role not found", status: 400 };
+      }
+      parentId = parent.id;
+    }
+  }
+
+  if (parentId) {
+    const parent = await prisma.role.findUnique({ where: { id: parentId } });
+    if (parent && parent.rank > rank) {
+      return { error: "A role can only inherit from roles ranked at or below it", status: 400 };
+    }
+    if (
+      current &&
+      (parentId === current.id ||
+        (await permissionService.wouldCreateCycle(current.id, parentId)))
+    ) {
+      return { error: "A role cannot inherit from itself or its descendants", status: 400 };
+    }
+  }
+
+  return { rank, parentId };
+};
+
+/**
+ * Permissions a role would gain (its own permission ids and its parent's effective permissions)
+ * that the acting user does not hold, so roles cannot be used to escalate privileges
+ */
+const ungrantablePermissions = async (
+  actorRole: string | null | undefined,
+  input: { permissionIds?: string[]; parentId?: string | null }
+): Promise<string[]> => {
+  if (actorRole === "super") return [];
+
+  const granting = new Set<string>();
+  if (input.permissionIds?.length) {
+    const permissions = await prisma.permission.findMany({
+      where: { id: { in: input.permissionIds } },
+    });
+    permissions.forEach((p) => granting.add(`${p.resource}:${p.action}`));
+  }
+  if (input.parentId) {
+    const parent = await prisma.role.findUnique({ where: { id: input.parentId } });
+    if (parent) {
+      (await permissionService.getRolePermissions(parent.name)).forEach((perm) =>
+        granting.add(perm)
+      );
+    }
+  }
+
+  const held = await permissionService.getRolePermissions(actorRole || "user");
+  return [...granting].filter((perm) => !held.has(perm)).sort();
+};
 
 /**
  * @route GET /api/admin/roles
  * @desc Get all available roles with their permissions
  * @access Admin only (role:list permission)
  */
-app.get("/", requireAdmin, async (c) => {
+app.get("/", requirePermission("role", "list"), async (c) => {
   try {
     // Get roles from database
     const dbRoles = await prisma.role.findMany({
       include: {
+        parent: { select: { id: true, name: true } },
         rolePermissions: {
           include: {
             permission: true,
           },
         },
       },
-      orderBy: { name: "asc" },
+      orderBy: [{ rank: "desc" }, { name: "asc" }],
     });
 
     // Merge with metadata
@@ -35,6 +141,8 @@ app.get("/", requireAdmin, async (c) => {
       name: role.name,
       description: role.description,
       isSystem: role.isSystem,
+      rank: role.rank,
+      parent: role.parent,
       color:
         roleMetadata[role.name as keyof typeof roleMetadata]?.color ||
         "#6B7280",
@@ -54,7 +162,7 @@ app.get("/", requireAdmin, async (c) => {
 
     return c.json({ roles });
   } catch (error) {
-    console.error("Error fetching roles:", error);
+    log.error("Error fetching roles", error);
 
     // Fallback to static roles if database not seeded
     const staticRoles = Object.entries(roleMetadata).map(([key, meta]) => ({
@@ -62,6 +170,8 @@ app.get("/", requireAdmin, async (c) => {
       name: key,
       description: meta.description,
       isSystem: meta.isSystem,
+      rank: meta.rank,
+      parent: null,
       color: meta.color,
       displayName: meta.name,
       permissions: [],
@@ -75,9 +185,9 @@ app.get("/", requireAdmin, async (c) => {
 /**
  * @route GET /api/admin/roles/:roleId
  * @desc Get a specific role with permissions
- * @access Admin only
+ * @access Admin only (role:view permission)
  */
-app.get("/:roleId", requireAdmin, async (c) => {
+app.get("/:roleId", requirePermission("role", "view"), async (c) => {
   const roleId = c.req.param("roleId");
 
   try {
@@ -86,6 +196,7 @@ app.get("/:roleId", requireAdmin, async (c) => {
         OR: [{ id: roleId }, { name: roleId }],
       },
       include: {
+        parent: { select: { id: true, name: true } },
         rolePermissions: {
           include: {
             permission: true,
@@ -108,11 +219,15 @@ app.get("/:roleId", requireAdmin, async (c) => {
       return c.json({ error: "Role not found" }, 404);
     }
 
+    const effectivePermissions = await permissionService.getRolePermissions(role.name);
+
     return c.json({
       id: role.id,
       name: role.name,
       description: role.description,
       isSystem: role.isSystem,
+      rank: role.rank,
+      parent: role.parent,
       color:
         roleMetadata[role.name as keyof typeof roleMetadata]?.color ||
         "#6B7280",
@@ -125,22 +240,25 @@ app.get("/:roleId", requireAdmin, async (c) => {
         displayName: rp.permission.displayName,
         group: rp.permission.group,
       })),
+      // Own and inherited, as "resource:action"
+      effectivePermissions: [...effectivePermissions].sort(),
     });
   } catch (error) {
-    console.error("Error fetching role:", error);
+    log.error("Error fetching role", { roleId, error });
     return c.json({ error: "Failed to fetch role" }, 500);
   }
 });
 
 /**
  * @route POST /api/admin/roles
- * @desc Create a new role
+ * @desc Create a new role (rank below the creator's own, optional parent to inherit permissions from,
+ *       only permissions the creator holds)
  * @access Admin only (role:create permission)
  */
-app.post("/", requireAdmin, async (c) => {
+app.post("/", requirePermission("role", "create"), async (c) => {
   try {
     const body = await c.req.json();
-    const { name, description, permissionIds = [] } = body;
+    const { name, description, permissionIds = [], rank, parentId } = body;
 
     if (!name) {
       return c.json({ error: "Role name is required" }, 400);
@@ -155,30 +273,55 @@ app.post("/", requireAdmin, async (c) => {
       return c.json({ error: "Role already exists" }, 400);
     }
 
+    const hierarchy = await resolveHierarchy(getRequestRole(c), { rank, parentId });
+    if ("error" in hierarchy) {
+      return c.json({ error: hierarchy.error }, hierarchy.status);
+    }
+
+    const missing = await ungrantablePermissions(getRequestRole(c), {
+      permissionIds,
+      parentId: hierarchy.parentId,
+    });
+    if (missing.length) {
+      return c.json(
+        { error: `You cannot grant permissions you do not have: ${missing.join(", ")}` },
+        403
+      );
+    }
+
     const role = await permissionService.createRole({
       name,
       description,
       permissionIds,
+      ...hierarchy,
+    });
+
+    await recordAudit(c, {
+      action: "role.create",
+      targetType: "role",
+      targetId: name,
+      after: roleAuditState(await permissionService.getRoleWithPermissions(name)),
     });
 
     return c.json({ role, message: "Role created successfully" }, 201);
   } catch (error) {
-    console.error("Error creating role:", error);
+    log.error("Error creating role", error);
     return c.json({ error: "Failed to create role" }, 500);
   }
 });
 
 /**
  * @route PUT /api/admin/roles/:roleId
- * @desc Update role permissions
+ * @desc Update role description, permissions, rank and parent (roles ranked below the caller only,
+ *       only permissions the caller holds)
  * @access Admin only (role:update permission)
  */
-app.put("/:roleId", requireAdmin, async (c) => {
+app.put("/:roleId", requirePermission("role", "update"), async (c) => {
   const roleId = c.req.param("roleId");
 
   try {
     const body = await c.req.json();
-    const { description, permissionIds } = body;
+    const { description, permissionIds, rank, parentId } = body;
 
     const role = await prisma.role.findFirst({
       where: {
@@ -194,6 +337,34 @@ app.put("/:roleId", requireAdmin, async (c) => {
       return c.json({ error: "Cannot modify system role" }, 403);
     }
 
+    const actorRole = getRequestRole(c);
+    if (!(await permissionService.outranks(actorRole, role.name))) {
+      return c.json({ error: "You can only modify roles ranked below your own" }, 403);
+    }
+
+    const hierarchy =
+      rank !== undefined || parentId !== undefined
+        ? await resolveHierarchy(actorRole, { rank, parentId }, role)
+        : null;
+    if (hierarchy && "error" in hierarchy) {
+      return c.json({ error: hierarchy.error }, hierarchy.status);
+    }
+
+    const missing = await ungrantablePermissions(actorRole, {
+      permissionIds,
+      parentId: hierarchy?.parentId,
+    });
+    if (missing.length) {
+      return c.json(
+        { error: `You cannot grant permissions you do not have: ${missing.join(", ")}` },
+        403
+      );
+    }
+
+    const before = roleAuditState(
+      await permissionService.getRoleWithPermissions(role.name)
+    );
+
     // Update description if provided
     if (description !== undefined) {
       await prisma.role.update({
@@ -207,23 +378,35 @@ app.put("/:roleId", requireAdmin, async (c) => {
       await permissionService.updateRolePermissions(role.name, permissionIds);
     }
 
+    if (hierarchy) {
+      await permissionService.updateRoleHierarchy(role.name, hierarchy);
+    }
+
     const updatedRole = await permissionService.getRoleWithPermissions(
       role.name
     );
 
+    await recordAudit(c, {
+      action: "role.update",
+      targetType: "role",
+      targetId: role.name,
+      before,
+      after: roleAuditState(updatedRole),
+    });
+
     return c.json({ role: updatedRole, message: "Role updated successfully" });
   } catch (error: any) {
-    console.error("Error updating role:", error);
+    log.error("Error updating role", { roleId, error });
     return c.json({ error: error.message || "Failed to update role" }, 500);
   }
 });
 
 /**
  * @route DELETE /api/admin/roles/:roleId
- * @desc Delete a role
+ * @desc Delete a role (roles ranked below the caller only; child roles stop inheriting from it)
  * @access Admin only (role:delete permission)
  */
-app.delete("/:roleId", requireAdmin, async (c) => {
+app.delete("/:roleId", requirePermission("role", "delete"), async (c) => {
   const roleId = c.req.param("roleId");
 
   try {
@@ -237,11 +420,26 @@ app.delete("/:roleId", requireAdmin, async (c) => {
       return c.json({ error: "Role not found" }, 404);
     }
 
+    if (!(await permissionService.outranks(getRequestRole(c), role.name))) {
+      return c.json({ error: "You can only delete roles ranked below your own" }, 403);
+    }
+
+    const before = roleAuditState(
+      await permissionService.getRoleWithPermissions(role.name)
+    );
+
     await permissionService.deleteRole(role.name);
 
+    await recordAudit(c, {
+      action: "role.delete",
+      targetType: "role",
+      targetId: role.name,
+      before,
+    });
+
     return c.json({ message: "Role deleted successfully" });
   } catch (error: any) {
-    console.error("Error deleting role:", error);
+    log.error("Error deleting role", { roleId, error });
     return c.json({ error: error.message || "Failed to delete role" }, 500);
   }
 });
@@ -249,9 +447,9 @@ app.delete("/:roleId", requireAdmin, async (c) => {
 /**
  * @route GET /api/admin/roles/permissions/all
  * @desc Get all available permissions grouped by category
- * @access Admin only
+ * @access Admin only (permission:list permission)
  */
-app.get("/permissions/all", requireAdmin, async (c) => {
+app.get("/permissions/all", requirePermission("permission", "list"), async (c) => {
   try {
     // Try to get from database first
     const dbPermissions = await prisma.permission.findMany({
@@ -284,7 +482,7 @@ app.get("/permissions/all", requireAdmin, async (c) => {
     // Fallback to static permissions
     return c.json({ permissions: permissionCategories });
   } catch (error) {
-    console.error("Error fetching permissions:", error);
+    log.error("Error fetching permissions", error);
     return c.json({ permissions: permissionCategories });
   }
 });
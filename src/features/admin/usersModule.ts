@@ -1,15 +1,22 @@
 import { Hono } from "hono";
-import { auth, requireAdmin, getSession } from "@/lib/auth.js";
+import { auth, requireHigherRank, requirePermission, getRequestRole, getSession } from "@/lib/auth.js";
+import { auditAction, recordAudit } from "@/lib/audit.js";
 import { prisma } from "@/lib/prisma.js";
+import { isKnownRole, outranks } from "@/lib/permissions-service.js";
 
-const app = new Hono();
+const app = new Hono<{
+  Variables: {
+    user: typeof auth.$Infer.Session.user | null;
+    session: typeof auth.$Infer.Session.session | null;
+  };
+}>();
 
 /**
  * @route GET /api/admin/users
  * @desc List all users with pagination
- * @access Admin only
+ * @access Admin only (user:list permission)
  */
-app.get("/", requireAdmin, async (c) => {
+app.get("/", requirePermission("user", "list"), async (c) => {
   const limit = parseInt(c.req.query("limit") || "20");
   const offset = parseInt(c.req.query("offset") || "0");
   const searchValue = c.req.query("searchValue") || "";
@@ -65,9 +72,9 @@ app.get("/", requireAdmin, async (c) => {
 /**
  * @route GET /api/admin/users/:userId
  * @desc Get a single user by ID
- * @access Admin only
+ * @access Admin only (user:view permission)
  */
-app.get("/:userId", requireAdmin, async (c) => {
+app.get("/:userId", requirePermission("user", "view"), async (c) => {
   const userId = c.req.param("userId");
 
   const user = await prisma.user.findUnique({
@@ -96,44 +103,70 @@ app.get("/:userId", requireAdmin, async (c) => {
 
 /**
  * @route POST /api/admin/users/:userId/set-role
- * @desc Set user role
- * @access Admin only
+ * @desc Set user role (target user and new role must both rank below the caller)
+ * @access Admin only (user:set-role permission)
  */
-app.post("/:userId/set-role", requireAdmin, async (c) => {
-  const userId = c.req.param("userId");
-  const { role } = await c.req.json();
+app.post(
+  "/:userId/set-role",
+  requirePermission("user", "set-role"),
+  requireHigherRank(),
+  async (c) => {
+    const userId = c.req.param("userId");
+    const { role } = await c.req.json();
+
+    if (!role) {
+      return c.json({ error: "Role is required" }, 400);
+    }
 
-  if (!role) {
-    return c.json({ error: "Role is required" }, 400);
-  }
+    // Prevent assigning super admin role entirely
+    if (role === "super") {
+      return c.json({ 
+        error: "Super admin role cannot be assigned. This role is reserved for system initialization only." 
+      }, 403);
+    }
 
-  // Prevent assigning super admin role entirely
-  if (role === "super") {
-    return c.json({ 
-      error: "Super admin role cannot be assigned. This role is reserved for system initialization only." 
-    }, 403);
-  }
+    if (!(await isKnownRole(role))) {
+      return c.json({ error: "Role not found" }, 400);
+    }
 
-  const user = await prisma.user.update({
-    where: { id: userId },
-    data: { role },
-    select: {
-      id: true,
-      name: true,
-      email: true,
-      role: true,
-    },
-  });
+    if (!(await outranks(getRequestRole(c), role))) {
+      return c.json({ error: "You can only assign roles ranked below your own" }, 403);
+    }
 
-  return c.json({ success: true, user });
-});
+    const before = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { role },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+      },
+    });
+
+    await recordAudit(c, {
+      action: "user.set-role",
+      targetType: "user",
+      targetId: userId,
+      before,
+      after: { role: user.role },
+    });
+
+    return c.json({ success: true, user });
+  }
+);
 
 /**
  * @route POST /api/admin/users/:userId/ban
- * @desc Ban a user
- * @access Admin only
+ * @desc Ban a user (ranked below the caller)
+ * @access Admin only (user:ban permission)
  */
-app.post("/:userId/ban", requireAdmin, async (c) => {
+app.post("/:userId/ban", requirePermission("user", "ban"), requireHigherRank(), async (c) => {
   const userId = c.req.param("userId");
   const { banReason, banExpiresIn } = await c.req.json();
 
@@ -141,6 +174,11 @@ app.post("/:userId/ban", requireAdmin, async (c) => {
     ? Math.floor(Date.now() / 1000) + banExpiresIn
     : null;
 
+  const before = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { banned: true, banReason: true, banExpires: true },
+  });
+
   const user = await prisma.user.update({
     where: { id: userId },
     data: {
@@ -155,17 +193,30 @@ app.post("/:userId/ban", requireAdmin, async (c) => {
     where: { userId },
   });
 
+  await recordAudit(c, {
+    action: "user.ban",
+    targetType: "user",
+    targetId: userId,
+    before,
+    after: { banned: user.banned, banReason: user.banReason, banExpires: user.banExpires },
+  });
+
   return c.json({ success: true, user: { id: user.id, banned: user.banned } });
 });
 
 /**
  * @route POST /api/admin/users/:userId/unban
- * @desc Unban a user
- * @access Admin only
+ * @desc Unban a user (ranked below the caller)
+ * @access Admin only (user:unban permission)
  */
-app.post("/:userId/unban", requireAdmin, async (c) => {
+app.post("/:userId/unban", requirePermission("user", "unban"), requireHigherRank(), async (c) => {
   const userId = c.req.param("userId");
 
+  const before = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { banned: true, banReason: true, banExpires: true },
+  });
+
   const user = await prisma.user.update({
     where: { id: userId },
     data: {
@@ -175,15 +226,23 @@ app.post("/:userId/unban", requireAdmin, async (c) => {
     },
   });
 
+  await recordAudit(c, {
+    action: "user.unban",
+    targetType: "user",
+    targetId: userId,
+    before,
+    after: { banned: user.banned, banReason: user.banReason, banExpires: user.banExpires },
+  });
+
   return c.json({ success: true, user: { id: user.id, banned: user.banned } });
 });
 
 /**
  * @route GET /api/admin/users/:userId/sessions
  * @desc Get user sessions
- * @access Admin only
+ * @access Admin only (session:list permission)
  */
-app.get("/:userId/sessions", requireAdmin, async (c) => {
+app.get("/:userId/sessions", requirePermission("session", "list"), async (c) => {
   const userId = c.req.param("userId");
 
   const sessions = await prisma.session.findMany({
@@ -196,47 +255,72 @@ app.get("/:userId/sessions", requireAdmin, async (c) => {
 
 /**
  * @route DELETE /api/admin/users/:userId/sessions/:sessionId
- * @desc Revoke a specific session
- * @access Admin only
+ * @desc Revoke a specific session (of a user ranked below the caller)
+ * @access Admin only (session:revoke permission)
  */
-app.delete("/:userId/sessions/:sessionId", requireAdmin, async (c) => {
-  const sessionId = c.req.param("sessionId");
-
-  await prisma.session.delete({
-    where: { id: sessionId },
-  });
+app.delete(
+  "/:userId/sessions/:sessionId",
+  requirePermission("session", "revoke"),
+  requireHigherRank(),
+  auditAction("session.revoke", "session", "sessionId"),
+  async (c) => {
+    const userId = c.req.param("userId");
+    const sessionId = c.req.param("sessionId");
+
+    // Scoped to the user whose rank was checked
+    const { count } = await prisma.session.deleteMany({
+      where: { id: sessionId, userId },
+    });
+
+    if (count === 0) {
+      return c.json({ error: "Session not found" }, 404);
+    }
 
-  return c.json({ success: true });
-});
+    return c.json({ success: true });
+  }
+);
 
 /**
  * @route DELETE /api/admin/users/:userId/sessions
- * @desc Revoke all sessions for a user
- * @access Admin only
+ * @desc Revoke all sessions for a user (ranked below the caller)
+ * @access Admin only (session:revoke-all permission)
  */
-app.delete("/:userId/sessions", requireAdmin, async (c) => {
-  const userId = c.req.param("userId");
-
-  await prisma.session.deleteMany({
-    where: { userId },
-  });
-
-  return c.json({ success: true });
-});
+app.delete(
+  "/:userId/sessions",
+  requirePermission("session", "revoke-all"),
+  requireHigherRank(),
+  auditAction("session.revoke-all", "user", "userId"),
+  async (c) => {
+    const userId = c.req.param("userId");
+
+    await prisma.session.deleteMany({
+      where: { userId },
+    });
+
+    return c.json({ success: true });
+  }
+);
 
 /**
  * @route DELETE /api/admin/users/:userId
- * @desc Delete a user
- * @access Admin only
+ * @desc Delete a user (ranked below the caller)
+ * @access Admin only (user:delete permission)
  */
-app.delete("/:userId", requireAdmin, async (c) => {
+app.delete("/:userId", requirePermission("user", "delete"), requireHigherRank(), async (c) => {
   const userId = c.req.param("userId");
 
   // Delete user (sessions and accounts will cascade)
-  await prisma.user.delete({
+  const deleted = await prisma.user.delete({
     where: { id: userId },
   });
 
+  await recordAudit(c, {
+    action: "user.delete",
+    targetType: "user",
+    targetId: userId,
+    before: deleted,
+  });
+
   return c.json({ success: true });
 });
 
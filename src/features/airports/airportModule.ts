@@ -1,30 +1,11 @@
 import { Hono } from "hono";
 import { prisma } from "@/lib/prisma.js";
+import { haversineDistance } from "@/lib/geo.js";
+import { createLogger } from "@/lib/logger.js";
 
-const app = new Hono();
+const log = createLogger("Airports");
 
-/**
- * Calculate distance between two coordinates using Haversine formula
- * Returns distance in kilometers
- */
-function haversineDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLon = ((lon2 - lon1) * Math.PI) / 180;
-    const a =
-        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos((lat1 * Math.PI) / 180) *
-        Math.cos((lat2 * Math.PI) / 180) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-}
+const app = new Hono();
 
 /**
  * @route   GET /api/airports/nearest
@@ -115,7 +96,7 @@ app.get("/nearest", async (c) => {
             },
         });
     } catch (error) {
-        console.error("Error finding nearest airport:", error);
+        log.error("Error finding nearest airport", error);
         return c.json({ message: "Failed to find nearest airport" }, 500);
     }
 });
@@ -176,7 +157,7 @@ app.get("/search", async (c) => {
             })),
         });
     } catch (error) {
-        console.error("Error searching airports:", error);
+        log.error("Error searching airports", error);
         return c.json({ message: "Failed to search airports" }, 500);
     }
 });
@@ -6,25 +6,18 @@ import {
 } from "@/schema/analyticsSchema.js";
 import { prisma } from "@/lib/prisma.js";
 import { parseUserAgent } from "@/lib/deviceParser.js";
+import { getClientIp, maskIp } from "@/lib/ip.js";
+import { rateLimit } from "@/lib/rateLimit.js";
+import { requireTrustedIngest } from "@/lib/ingestGuard.js";
 
 const app = new Hono();
 
-// Helper to mask IPv4/IPv6 rudimentarily
-const maskIp = (ip?: string | null) => {
-  if (!ip) return undefined;
-  // Remove IPv6 prefix if present
-  const cleaned = ip.replace("::ffff:", "");
-  if (cleaned.includes(".")) {
-    const parts = cleaned.split(".");
-    if (parts.length === 4) return `${parts[0]}.${parts[1]}.0.0`;
-  }
-  // Basic IPv6 mask
-  if (cleaned.includes(":")) {
-    const segs = cleaned.split(":");
-    return `${segs.slice(0, 2).join(":")}::`;
-  }
-  return undefined;
-};
+// Ingestion is public: limit per client and accept only our front-end or signed requests
+app.use(
+  "*",
+  rateLimit({ windowMs: 60 * 1000, max: 60 }),
+  requireTrustedIngest
+);
 
 // Extract simple cookie value by name from Cookie header
 const getCookie = (cookieHeader: string | undefined, name: string) => {
@@ -90,7 +83,7 @@ const lookupGeo = async (ip?: string | null) => {
 
 /*
   @route   POST /search
-  @access  public (to be protected later)
+  @access  public (rate limited; allowed origin or x-fa-signature)
   @desc    Ingest a search event
 */
 app.post("/search", async (c) => {
@@ -101,9 +94,7 @@ app.post("/search", async (c) => {
   });
 
   const ua = c.req.header("user-agent") ?? undefined;
-  const ip =
-    c.req.header("x-forwarded-for")?.split(",")[0] ||
-    (c.req.raw as any).socket?.remoteAddress;
+  const ip = getClientIp(c);
 
   // Context enrichment
   const cookieHeader = c.req.header("cookie");
@@ -158,7 +149,7 @@ app.post("/search", async (c) => {
 
 /*
   @route   POST /clickout
-  @access  public (to be protected later)
+  @access  public (rate limited; allowed origin or x-fa-signature)
   @desc    Ingest a click-out event
 */
 app.post("/clickout", async (c) => {
@@ -169,9 +160,7 @@ app.post("/clickout", async (c) => {
   });
 
   const ua = c.req.header("user-agent") ?? undefined;
-  const ip =
-    c.req.header("x-forwarded-for")?.split(",")[0] ||
-    (c.req.raw as any).socket?.remoteAddress;
+  const ip = getClientIp(c);
 
   // Context enrichment
   const cookieHeader = c.req.header("cookie");
@@ -197,8 +186,11 @@ app.post("/clickout", async (c) => {
       utmCampaign: (validated as any).utmCampaign,
       utmContent: (validated as any).utmContent,
       utmTerm: (validated as any).utmTerm,
-      price: (validated as any).price ?? undefined,
-      currency: (validated as any).currency ?? undefined,
+      price:
+        validated.price ?? validated.confirmedPrice ?? validated.searchedPrice,
+      searchedPrice: validated.searchedPrice,
+      confirmedPrice: validated.confirmedPrice,
+      currency: validated.currency,
       deepLink: (validated as any).deepLink ?? undefined,
     },
   });
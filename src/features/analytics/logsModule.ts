@@ -1,4 +1,5 @@
 import { Hono } from "hono";
+import { requirePermission } from "@/lib/auth.js";
 import { prisma } from "@/lib/prisma.js";
 
 const app = new Hono();
@@ -8,7 +9,7 @@ const app = new Hono();
   @desc   Get paginated search logs with filters
   @query  page, limit, startDate, endDate, tripType, origin, destination, os, browser, deviceType, country
 */
-app.get("/search-logs", async (c) => {
+app.get("/search-logs", requirePermission("analytics", "view"), async (c) => {
   const page = parseInt(c.req.query("page") || "1");
   const limit = parseInt(c.req.query("limit") || "50");
   const skip = (page - 1) * limit;
@@ -86,7 +87,7 @@ app.get("/search-logs", async (c) => {
   @route  GET /filter-options
   @desc   Get available filter options (unique values for dropdowns)
 */
-app.get("/filter-options", async (c) => {
+app.get("/filter-options", requirePermission("analytics", "view"), async (c) => {
   // Get unique values for each filterable field
   const [origins, destinations, tripTypes, browsers, oses, deviceTypes, countries, travelClasses] =
     await Promise.all([
@@ -147,7 +148,7 @@ app.get("/filter-options", async (c) => {
   @route  GET /search-logs/export
   @desc   Export search logs as CSV with filters
 */
-app.get("/search-logs/export", async (c) => {
+app.get("/search-logs/export", requirePermission("analytics", "export"), async (c) => {
   // Build same filters as search-logs endpoint
   const where: any = {};
 
@@ -1,4 +1,5 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { requirePermission } from "@/lib/auth.js";
 import { prisma } from "@/lib/prisma.js";
 import { validateInput } from "@/lib/validateInput.js";
 import { reportsQuerySchema } from "@/schema/analyticsSchema.js";
@@ -9,6 +10,12 @@ const now = () => new Date();
 const subHours = (d: Date, h: number) =>
   new Date(d.getTime() - h * 60 * 60 * 1000);
 
+// CSV downloads also need analytics:export
+const requireCsvExport = async (c: Context, next: () => Promise<void>) => {
+  if (c.req.query("format") !== "csv") return next();
+  return requirePermission("analytics", "export")(c, next);
+};
+
 const buildCsv = (rows: Record<string, any>[]) => {
   if (!rows.length) return "";
   const headers = Object.keys(rows[0]);
@@ -23,7 +30,7 @@ const buildCsv = (rows: Record<string, any>[]) => {
   @route  GET /metrics
   @desc   Returns total searches, total clickouts, clickout rate, and top5 routes for last24h and prev24h
 */
-app.get("/metrics", async (c) => {
+app.get("/metrics", requirePermission("analytics", "view"), async (c) => {
   // We compute both ranges
   const end = now();
   const startLast24 = subHours(end, 24);
@@ -80,7 +87,7 @@ app.get("/metrics", async (c) => {
   @desc   Time-series for searches and clickouts
   @query  range=24h|7d|30d (default 24h), or startDate/endDate
 */
-app.get("/metrics/timeseries", async (c) => {
+app.get("/metrics/timeseries", requirePermission("analytics", "view"), async (c) => {
   const qs = c.req.query();
   const range = (qs.range || "24h") as "24h" | "7d" | "30d";
   const end = qs.endDate ? new Date(qs.endDate) : now();
@@ -162,7 +169,7 @@ app.get("/metrics/timeseries", async (c) => {
   @desc   Breakdown by device/browser/os/geo/travelClass
   @query  type=device|browser|os|geo|travelClass, startDate, endDate
 */
-app.get("/metrics/breakdown", async (c) => {
+app.get("/metrics/breakdown", requirePermission("analytics", "view"), async (c) => {
   const qs = c.req.query();
   const type = (qs.type || "device") as
     | "device"
@@ -203,7 +210,7 @@ app.get("/metrics/breakdown", async (c) => {
   @route  GET /top-routes
   @desc   Returns top routes by searches for a given range with optional CSV
 */
-app.get("/top-routes", async (c) => {
+app.get("/top-routes", requirePermission("analytics", "view"), requireCsvExport, async (c) => {
   const q = await validateInput({
     type: "query",
     schema: reportsQuerySchema,
@@ -287,7 +294,7 @@ app.get("/top-routes", async (c) => {
   @route  GET /clickout-rate
   @desc   Returns clickout rate for last24h or prev24h
 */
-app.get("/clickout-rate", async (c) => {
+app.get("/clickout-rate", requirePermission("analytics", "view"), requireCsvExport, async (c) => {
   const q = await validateInput({
     type: "query",
     schema: reportsQuerySchema,
@@ -325,7 +332,7 @@ app.get("/clickout-rate", async (c) => {
   @route  GET /routes/trending
   @desc   Week-over-week growth by route (searches and clickouts)
 */
-app.get("/routes/trending", async (c) => {
+app.get("/routes/trending", requirePermission("analytics", "view"), async (c) => {
   const limit = parseInt(c.req.query("limit") || "10", 10);
   const end = now();
   const startThis = subHours(end, 24 * 7);
@@ -368,7 +375,7 @@ app.get("/routes/trending", async (c) => {
   @desc   Time series for searches, distinct sessions, clickouts; CTR per bucket
   @query  range=24h|7d|30d
 */
-app.get("/engagement/series", async (c) => {
+app.get("/engagement/series", requirePermission("analytics", "view"), async (c) => {
   const range = (c.req.query("range") || "7d") as "24h" | "7d" | "30d";
   const end = now();
   const start =
@@ -462,7 +469,7 @@ app.get("/engagement/series", async (c) => {
   @route  GET /geo/regions
   @desc   Aggregate searches by user region from country codes
 */
-app.get("/geo/regions", async (c) => {
+app.get("/geo/regions", requirePermission("analytics", "view"), async (c) => {
   const qs = c.req.query();
   const end = qs.endDate ? new Date(qs.endDate as string) : now();
   const start = qs.startDate
@@ -561,7 +568,7 @@ app.get("/geo/regions", async (c) => {
   @route  GET /trends/searches
   @desc   Monthly searches and clickouts for last N months (default 12)
 */
-app.get("/trends/searches", async (c) => {
+app.get("/trends/searches", requirePermission("analytics", "view"), async (c) => {
   const months = Math.max(
     1,
     Math.min(24, parseInt(c.req.query("months") || "12", 10))
@@ -610,7 +617,7 @@ app.get("/trends/searches", async (c) => {
   @route  GET /trends/prices
   @desc   Monthly avg/min/max price from clickouts for last N months (default 12)
 */
-app.get("/trends/prices", async (c) => {
+app.get("/trends/prices", requirePermission("analytics", "view"), async (c) => {
   const months = Math.max(
     1,
     Math.min(24, parseInt(c.req.query("months") || "12", 10))
@@ -656,7 +663,7 @@ app.get("/trends/prices", async (c) => {
   @route  POST /refresh
   @desc   Placeholder to invalidate caches if we add caching later
 */
-app.post("/refresh", async (c) => {
+app.post("/refresh", requirePermission("analytics", "view"), async (c) => {
   // No server-side cache yet; respond OK for now.
   return c.json({ ok: true });
 });
@@ -666,7 +673,7 @@ app.post("/refresh", async (c) => {
   @desc   Totals for current range and previous period deltas; includes CTR
   @query  range=24h|7d|30d
 */
-app.get("/engagement/summary", async (c) => {
+app.get("/engagement/summary", requirePermission("analytics", "view"), async (c) => {
   const range = (c.req.query("range") || "7d") as "24h" | "7d" | "30d";
   const end = now();
   const start =
@@ -0,0 +1,135 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { HTTPException } from "hono/http-exception";
+import type { partner } from "@prisma/client";
+
+// Click-out links are valid long after the stored search results expire
+export const CLICKOUT_TOKEN_TTL_MS = 2 * 60 * 60 * 1000; // 2 hours
+
+// Dedicated key, or one derived from the auth secret so click-out signatures
+// never use the key that signs sessions
+const getSigningSecret = () => {
+  if (process.env.CLICKOUT_SIGNING_SECRET) {
+    return process.env.CLICKOUT_SIGNING_SECRET;
+  }
+  if (!process.env.BETTER_AUTH_SECRET) {
+    throw new HTTPException(500, { message: "Click-out signing secret is not configured" });
+  }
+  return createHmac("sha256", process.env.BETTER_AUTH_SECRET)
+    .update("clickout-token-signing")
+    .digest();
+};
+
+// Offer and attribution context carried by a click-out token
+export interface ClickoutContext {
+  partner: string;
+  searchId: string;
+  offerId: string;
+  tripType: string;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate?: string;
+  adults: number;
+  children: number;
+  infants: number;
+  cabin?: string;
+  carrier?: string;
+  flightNumbers: string[];
+  price: number;
+  currency: string;
+  sessionId?: string;
+  utm?: {
+    utmSource?: string;
+    utmMedium?: string;
+    utmCampaign?: string;
+    utmContent?: string;
+    utmTerm?: string;
+  };
+}
+
+const sign = (payload: string) =>
+  createHmac("sha256", getSigningSecret()).update(payload).digest("base64url");
+
+// base64url(JSON).signature
+export function signClickoutToken(context: ClickoutContext) {
+  const expiresAt = Date.now() + CLICKOUT_TOKEN_TTL_MS;
+  const payload = Buffer.from(JSON.stringify({ ...context, exp: expiresAt })).toString(
+    "base64url"
+  );
+  return { token: `${payload}.${sign(payload)}`, expiresAt: new Date(expiresAt) };
+}
+
+export function verifyClickoutToken(token: string): ClickoutContext {
+  const [payload, signature, ...rest] = token.split(".");
+  const expected = payload ? Buffer.from(sign(payload)) : null;
+  const given = Buffer.from(signature ?? "");
+
+  if (
+    !expected ||
+    rest.length > 0 ||
+    expected.length !== given.length ||
+    !timingSafeEqual(expected, given)
+  ) {
+    throw new HTTPException(400, { message: "Invalid click-out link" });
+  }
+
+  const { exp, ...context } = JSON.parse(Buffer.from(payload, "base64url").toString());
+  if (typeof exp !== "number" || exp <= Date.now()) {
+    throw new HTTPException(410, {
+      message: "This link has expired, please search again",
+    });
+  }
+  return context as ClickoutContext;
+}
+
+// Values available to partner URL templates as {name}
+const templateValues = (context: ClickoutContext, clickId: string): Record<string, string> => ({
+  origin: context.origin,
+  destination: context.destination,
+  departureDate: context.departureDate,
+  returnDate: context.returnDate ?? "",
+  tripType: context.tripType,
+  adults: String(context.adults),
+  children: String(context.children),
+  infants: String(context.infants),
+  cabin: context.cabin ?? "",
+  carrier: context.carrier ?? "",
+  flightNumbers: context.flightNumbers.join(","),
+  price: context.price.toFixed(2),
+  currency: context.currency,
+  clickId,
+});
+
+const fillTemplate = (
+  template: string,
+  values: Record<string, string>,
+  encode: (value: string) => string = encodeURIComponent
+) => template.replace(/\{(\w+)\}/g, (_match, name: string) => encode(values[name] ?? ""));
+
+// Partner deep link: URL template plus affiliate parameters
+export function renderPartnerUrl(
+  partner: Pick<partner, "urlTemplate" | "affiliateParams">,
+  context: ClickoutContext,
+  clickId: string
+) {
+  const values = templateValues(context, clickId);
+  let url: URL;
+  try {
+    url = new URL(fillTemplate(partner.urlTemplate, values));
+  } catch {
+    // Templates are validated on save; this only catches ones stored before that
+    throw new HTTPException(502, { message: "Partner link is misconfigured" });
+  }
+
+  const params = (partner.affiliateParams ?? {}) as Record<string, string>;
+  for (const [key, value] of Object.entries(params)) {
+    // searchParams does the encoding
+    url.searchParams.set(key, fillTemplate(String(value), values, (v) => v));
+  }
+  return url.toString();
+}
+
+// Earnings known at click time (other models depend on the booking)
+export const clickCommission = (
+  partner: Pick<partner, "commissionModel" | "commissionValue">
+) => (partner.commissionModel === "cpc" ? partner.commissionValue : null);
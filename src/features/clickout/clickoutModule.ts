@@ -0,0 +1,70 @@
+import { createHash } from "crypto";
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { prisma } from "@/lib/prisma.js";
+import { getClientIp, maskIp } from "@/lib/ip.js";
+import { getAnonymousSessionId } from "@/features/saved-searches/savedSearchService.js";
+import { recordShareClick } from "@/features/flight-offers/sharedItinerary.js";
+import { clickCommission, renderPartnerUrl, verifyClickoutToken } from "./clickout.js";
+
+const app = new Hono();
+
+/*
+  @route    GET: /go/:token
+  @access   public
+  @desc     Record a click-out from a signed deep link (POST /flight-offers/deeplink, once per link) and redirect to the partner
+  @desc     Links from POST /flight-offers/share/:id/deeplink also count as a click on the share
+*/
+app.get("/:token", async (c) => {
+  const context = verifyClickoutToken(c.req.param("token"));
+
+  const partner = await prisma.partner.findUnique({ where: { code: context.partner } });
+  if (!partner?.active) {
+    throw new HTTPException(404, { message: "Partner not available" });
+  }
+
+  // Replays, link unfurlers and prefetchers reuse the token: only the first hit is recorded
+  const tokenHash = createHash("sha256").update(c.req.param("token")).digest("hex");
+  const { count } = await prisma.clickOutEvent.createMany({
+    data: {
+      tokenHash,
+      origin: context.origin,
+      destination: context.destination,
+      tripType: context.tripType,
+      partner: partner.code,
+      userAgent: c.req.header("user-agent"),
+      ipMasked: maskIp(getClientIp(c)),
+      // affiliate context
+      sessionId: context.sessionId ?? getAnonymousSessionId(c.req.raw.headers),
+      referrer: c.req.header("referer"),
+      ...context.utm,
+      // commercial context from the signed offer
+      price: context.price,
+      searchedPrice: context.price,
+      currency: context.currency,
+      searchId: context.searchId,
+      offerId: context.offerId,
+      carrier: context.carrier,
+      commission: clickCommission(partner),
+      verified: true,
+    },
+    skipDuplicates: true,
+  });
+  if (count) {
+    await recordShareClick(context.utm);
+  }
+  const click = await prisma.clickOutEvent.findUniqueOrThrow({ where: { tokenHash } });
+
+  // The click id lets partners report bookings back against this click-out
+  const deepLink = click.deepLink ?? renderPartnerUrl(partner, context, click.id);
+  if (!click.deepLink) {
+    await prisma.clickOutEvent.update({
+      where: { id: click.id },
+      data: { deepLink },
+    });
+  }
+
+  return c.redirect(deepLink, 302);
+});
+
+export default app;
@@ -1,7 +1,11 @@
 import { Hono } from "hono";
 import type { Context } from "hono";
 import { prisma } from "@/lib/prisma.js";
-import { requireAdmin } from "@/lib/auth.js";
+import { hasRequestPermission, requirePermission } from "@/lib/auth.js";
+import { recordAudit } from "@/lib/audit.js";
+import { createLogger } from "@/lib/logger.js";
+
+const log = createLogger("CMS");
 
 const app = new Hono();
 
@@ -33,7 +37,7 @@ app.get("/public/:slug", async (c: Context) => {
 // ============================================
 
 // List all CMS pages (slugs and titles)
-app.get("/pages", requireAdmin, async (c: Context) => {
+app.get("/pages", requirePermission("cms", "list"), async (c: Context) => {
   const pages = await prisma.cmsPage.findMany({
     select: {
       id: true,
@@ -48,7 +52,7 @@ app.get("/pages", requireAdmin, async (c: Context) => {
 });
 
 // Get single page by slug
-app.get("/:slug", requireAdmin, async (c: Context) => {
+app.get("/:slug", requirePermission("cms", "view"), async (c: Context) => {
   const slug = c.req.param("slug");
   const page = await prisma.cmsPage.findUnique({ where: { slug } });
   if (!page) return c.json({ message: "Not found" }, 404);
@@ -56,7 +60,7 @@ app.get("/:slug", requireAdmin, async (c: Context) => {
 });
 
 // Get paginated airports with search
-app.get("/airport_info/airports/paginated", requireAdmin, async (c: Context) => {
+app.get("/airport_info/airports/paginated", requirePermission("cms", "list"), async (c: Context) => {
   const page = parseInt(c.req.query("page") || "0");
   const limit = parseInt(c.req.query("limit") || "10");
   const search = c.req.query("search") || "";
@@ -97,7 +101,7 @@ app.get("/airport_info/airports/paginated", requireAdmin, async (c: Context) =>
 });
 
 // Upsert page by slug
-app.put("/:slug", requireAdmin, async (c: Context) => {
+app.put("/:slug", requirePermission("cms", "update"), async (c: Context) => {
   const slug = c.req.param("slug");
   const body = await c.req.json();
   const { title, content, status = "published", updatedBy } = body as {
@@ -111,12 +115,20 @@ app.put("/:slug", requireAdmin, async (c: Context) => {
     return c.json({ message: "title is required" }, 400);
   }
   
-  // Get current user for audit trail
+  // Publishing also needs cms:publish
+  if (status === "published" && !(await hasRequestPermission(c, "cms:publish"))) {
+    return c.json({ message: "Missing permission: cms:publish" }, 403);
+  }
+
+  // Current user (or API key) for audit trail
   const user = c.get("user");
-  const actualUpdatedBy = updatedBy || user?.email || "system";
+  const apiKey = c.get("apiKey");
+  const actualUpdatedBy =
+    updatedBy || user?.email || (apiKey ? `api-key:${apiKey.prefix}` : "system");
   
   // content can be any JSON serializable structure
   try {
+    const previous = await prisma.cmsPage.findUnique({ where: { slug } });
     const saved = await prisma.cmsPage.upsert({
       where: { slug },
       update: { 
@@ -133,9 +145,22 @@ app.put("/:slug", requireAdmin, async (c: Context) => {
         updatedBy: actualUpdatedBy 
       },
     });
+
+    // Page content can be large: record title/status and whether content changed
+    await recordAudit(c, {
+      action: previous ? "cms.update" : "cms.create",
+      targetType: "cmsPage",
+      targetId: slug,
+      before: previous && { title: previous.title, status: previous.status },
+      after: { title: saved.title, status: saved.status },
+      metadata: {
+        contentChanged: JSON.stringify(previous?.content) !== JSON.stringify(saved.content),
+      },
+    });
+
     return c.json(saved);
   } catch (error) {
-    console.error("CMS upsert error:", error);
+    log.error(`Failed to save page ${slug}`, error);
     return c.json({ 
       message: "Failed to save page", 
       error: error instanceof Error ? error.message : "Unknown error" 
@@ -144,7 +169,7 @@ app.put("/:slug", requireAdmin, async (c: Context) => {
 });
 
 // Seed default pages if missing
-app.post("/seed-defaults", requireAdmin, async (c: Context) => {
+app.post("/seed-defaults", requirePermission("cms", "create"), async (c: Context) => {
   const defaults: Array<{ slug: string; title: string; content: Record<string, any> }> = [
     { slug: "about_us", title: "About Us", content: { sections: [] } },
     { slug: "faq", title: "FAQ", content: { items: [] } },
@@ -199,6 +224,11 @@ app.post("/seed-defaults", requireAdmin, async (c: Context) => {
       create: { slug: d.slug, title: d.title, content: d.content },
     });
   }
+  await recordAudit(c, {
+    action: "cms.seed-defaults",
+    targetType: "cmsPage",
+    metadata: { slugs: defaults.map((d) => d.slug) },
+  });
   return c.json({ ok: true });
 });
 
@@ -1,6 +1,9 @@
 
 import { Hono } from "hono";
 import { sendEmail } from "@/lib/mailer.js";
+import { createLogger } from "@/lib/logger.js";
+
+const log = createLogger("Contact");
 
 const app = new Hono();
 
@@ -68,7 +71,7 @@ app.post("/", async (c) => {
 
         // Final fallback if everything fails, to prevent crash
         if (!isEmail(recipientEmail)) {
-            console.warn("Could not determine recipient email from env. Defaulting to noreply@flyarzan.com. Set CONTACT_EMAIL in .env to fix.");
+            log.warn("Could not determine recipient email from env. Defaulting to noreply@flyarzan.com. Set CONTACT_EMAIL in .env to fix.");
             recipientEmail = "noreply@flyarzan.com";
         }
 
@@ -83,14 +86,14 @@ app.post("/", async (c) => {
         });
 
         if (!result.success) {
-            console.error("Failed to send contact email:", result.error);
+            log.error("Failed to send contact email", result.error);
             return c.json({ error: `Failed to send message: ${result.error}` }, 500);
         }
 
         return c.json({ success: true, message: "Message sent successfully" });
 
     } catch (error) {
-        console.error("Error in contact form submission:", error);
+        log.error("Error in contact form submission", error);
         return c.json({ error: "Internal server error" }, 500);
     }
 });
@@ -1,15 +1,25 @@
 import { Hono } from "hono";
+import type { Context } from "hono";
 import { prisma } from "@/lib/prisma.js";
-import { requireAdmin, auth } from "@/lib/auth.js";
+import { requirePermission, auth } from "@/lib/auth.js";
 import { sendEmail, sendBulkEmails } from "@/lib/mailer.js";
+import { recordAudit } from "@/lib/audit.js";
+import type { ApiKeyPrincipal } from "@/lib/apiKeys.js";
 
 // Define app with proper types
-const app = new Hono<{
+type Env = {
   Variables: {
     user: typeof auth.$Infer.Session.user | null;
     session: typeof auth.$Infer.Session.session | null;
+    apiKey: ApiKeyPrincipal | null;
   };
-}>();
+};
+
+const app = new Hono<Env>();
+
+// Campaigns sent with an API key are attributed to the admin who created the key
+const getSenderId = (c: Context<Env>) =>
+  c.get("user")?.id ?? c.get("apiKey")?.createdById ?? null;
 
 // ============================================
 // ADMIN EMAIL CAMPAIGN ENDPOINTS
@@ -18,10 +28,14 @@ const app = new Hono<{
 /**
  * @route POST /api/email/send
  * @desc Send email to a single user (respects preferences)
- * @access Admin only
+ * @access Admin only (email:send permission)
  */
-app.post("/send", requireAdmin, async (c) => {
-  const admin = c.get("user");
+app.post("/send", requirePermission("email", "send"), async (c) => {
+  const senderId = getSenderId(c);
+  if (!senderId) {
+    return c.json({ error: "API key has no creating admin to send campaigns as" }, 403);
+  }
+
   const { userId, subject, content } = await c.req.json();
 
   if (!userId || !subject || !content) {
@@ -57,7 +71,7 @@ app.post("/send", requireAdmin, async (c) => {
     data: {
       subject,
       content,
-      sentById: admin!.id,
+      sentById: senderId,
       recipientCount: 1,
       status: "sent",
       recipients: {
@@ -85,6 +99,13 @@ app.post("/send", requireAdmin, async (c) => {
     });
   }
 
+  await recordAudit(c, {
+    action: "email.send",
+    targetType: "emailCampaign",
+    targetId: campaign.id,
+    metadata: { subject, userId: targetUser.id, sent: emailResult.success },
+  });
+
   return c.json({
     success: emailResult.success,
     campaign,
@@ -101,10 +122,14 @@ app.post("/send", requireAdmin, async (c) => {
 /**
  * @route POST /api/email/send-bulk
  * @desc Send email to multiple users (respects preferences)
- * @access Admin only
+ * @access Admin only (email:send permission)
  */
-app.post("/send-bulk", requireAdmin, async (c) => {
-  const admin = c.get("user");
+app.post("/send-bulk", requirePermission("email", "send"), async (c) => {
+  const senderId = getSenderId(c);
+  if (!senderId) {
+    return c.json({ error: "API key has no creating admin to send campaigns as" }, 403);
+  }
+
   const { userIds, subject, content } = await c.req.json();
 
   if (!userIds || !Array.isArray(userIds) || userIds.length === 0) {
@@ -141,7 +166,7 @@ app.post("/send-bulk", requireAdmin, async (c) => {
     data: {
       subject,
       content,
-      sentById: admin!.id,
+      sentById: senderId,
       recipientCount: eligibleUsers.length,
       status: "sent",
       recipients: {
@@ -177,6 +202,19 @@ app.post("/send-bulk", requireAdmin, async (c) => {
     }
   }
 
+  await recordAudit(c, {
+    action: "email.send-bulk",
+    targetType: "emailCampaign",
+    targetId: campaign.id,
+    metadata: {
+      subject,
+      recipients: eligibleUsers.length,
+      blocked: userIds.length - eligibleUsers.length,
+      sent: emailResults.sent,
+      failed: emailResults.failed,
+    },
+  });
+
   return c.json({
     success: true,
     campaign: {
@@ -194,10 +232,14 @@ app.post("/send-bulk", requireAdmin, async (c) => {
 /**
  * @route POST /api/email/send-to-all-subscribers
  * @desc Send email to all newsletter subscribers
- * @access Admin only
+ * @access Admin only (email:send permission)
  */
-app.post("/send-to-all-subscribers", requireAdmin, async (c) => {
-  const admin = c.get("user");
+app.post("/send-to-all-subscribers", requirePermission("email", "send"), async (c) => {
+  const senderId = getSenderId(c);
+  if (!senderId) {
+    return c.json({ error: "API key has no creating admin to send campaigns as" }, 403);
+  }
+
   const { subject, content } = await c.req.json();
 
   if (!subject || !content) {
@@ -226,7 +268,7 @@ app.post("/send-to-all-subscribers", requireAdmin, async (c) => {
     data: {
       subject,
       content,
-      sentById: admin!.id,
+      sentById: senderId,
       recipientCount: subscribers.length,
       status: "sent",
       recipients: {
@@ -259,6 +301,18 @@ app.post("/send-to-all-subscribers", requireAdmin, async (c) => {
     }
   }
 
+  await recordAudit(c, {
+    action: "email.send-to-all-subscribers",
+    targetType: "emailCampaign",
+    targetId: campaign.id,
+    metadata: {
+      subject,
+      recipients: subscribers.length,
+      sent: emailResults.sent,
+      failed: emailResults.failed,
+    },
+  });
+
   return c.json({
     success: true,
     campaign: {
@@ -274,9 +328,9 @@ app.post("/send-to-all-subscribers", requireAdmin, async (c) => {
 /**
  * @route GET /api/email/campaigns
  * @desc Get all email campaigns with pagination
- * @access Admin only
+ * @access Admin only (email:list permission)
  */
-app.get("/campaigns", requireAdmin, async (c) => {
+app.get("/campaigns", requirePermission("email", "list"), async (c) => {
   const limit = parseInt(c.req.query("limit") || "20");
   const offset = parseInt(c.req.query("offset") || "0");
 
@@ -330,9 +384,9 @@ app.get("/campaigns", requireAdmin, async (c) => {
 /**
  * @route GET /api/email/campaigns/:id
  * @desc Get a single email campaign with recipients
- * @access Admin only
+ * @access Admin only (email:view permission)
  */
-app.get("/campaigns/:id", requireAdmin, async (c) => {
+app.get("/campaigns/:id", requirePermission("email", "view"), async (c) => {
   const campaignId = c.req.param("id");
 
   const campaign = await prisma.emailCampaign.findUnique({
@@ -354,9 +408,9 @@ app.get("/campaigns/:id", requireAdmin, async (c) => {
 /**
  * @route GET /api/email/stats
  * @desc Get email campaign statistics
- * @access Admin only
+ * @access Admin only (email:list permission)
  */
-app.get("/stats", requireAdmin, async (c) => {
+app.get("/stats", requirePermission("email", "list"), async (c) => {
   const [totalCampaigns, totalRecipients, subscriberCount, totalCustomers] =
     await Promise.all([
       prisma.emailCampaign.count(),
@@ -379,9 +433,9 @@ app.get("/stats", requireAdmin, async (c) => {
 /**
  * @route GET /api/email/check-eligibility/:userId
  * @desc Check if a user can receive emails
- * @access Admin only
+ * @access Admin only (email:view permission)
  */
-app.get("/check-eligibility/:userId", requireAdmin, async (c) => {
+app.get("/check-eligibility/:userId", requirePermission("email", "view"), async (c) => {
   const userId = c.req.param("userId");
 
   const user = await prisma.user.findUnique({
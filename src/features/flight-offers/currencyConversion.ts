@@ -0,0 +1,103 @@
+import { HTTPException } from "hono/http-exception";
+import { getConversionRate } from "@/lib/exchangeRates.js";
+import type { NormalizedFlightOffer } from "./offerTypes.js";
+
+// Server-side conversion for the currency param, used when the supplier answers in another currency
+export interface PriceConversion {
+  currency: string;
+  originalCurrency: string;
+  rate: number; // originalCurrency -> currency
+  ratesTimestamp: string;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Conversion from a supplier currency to the requested one.
+ * Null when no conversion is needed; 503 when no rate is available.
+ */
+export async function getPriceConversion(
+  from: string,
+  to: string | undefined
+): Promise<PriceConversion | null> {
+  if (!to || from.toUpperCase() === to.toUpperCase()) return null;
+
+  const conversion = await getConversionRate(from, to);
+  if (!conversion) {
+    throw new HTTPException(503, {
+      message: `Exchange rate from ${from} to ${to} is unavailable`,
+    });
+  }
+
+  return {
+    currency: to.toUpperCase(),
+    originalCurrency: from.toUpperCase(),
+    ...conversion,
+  };
+}
+
+export const convertAmount = (amount: number, conversion: PriceConversion) =>
+  roundAmount(amount * conversion.rate);
+
+function convertOffer(
+  offer: NormalizedFlightOffer,
+  conversion: PriceConversion
+): NormalizedFlightOffer {
+  const { price } = offer;
+  // An already converted offer keeps its supplier amounts
+  const original = price.conversion ?? {
+    originalCurrency: price.currency,
+    originalTotal: price.total,
+    originalBase: price.base,
+    rate: 1,
+  };
+
+  return {
+    ...offer,
+    price: {
+      currency: conversion.currency,
+      total: convertAmount(price.total, conversion),
+      base: convertAmount(price.base, conversion),
+      travelers: price.travelers.map((fare) => ({
+        ...fare,
+        total: convertAmount(fare.total, conversion),
+        base: convertAmount(fare.base, conversion),
+      })),
+      conversion: {
+        originalCurrency: original.originalCurrency,
+        originalTotal: original.originalTotal,
+        originalBase: original.originalBase,
+        rate: original.rate * conversion.rate,
+        ratesTimestamp: conversion.ratesTimestamp,
+      },
+    },
+    ...(offer.selfTransfer && {
+      selfTransfer: {
+        ...offer.selfTransfer,
+        tickets: offer.selfTransfer.tickets.map((ticket) => ({
+          ...ticket,
+          total: convertAmount(ticket.total, conversion),
+        })),
+      },
+    }),
+  };
+}
+
+/**
+ * Prices of offers in the requested currency (offers already in it are unchanged)
+ */
+export async function convertOffers(offers: NormalizedFlightOffer[], currency: string) {
+  const conversions = new Map<string, PriceConversion | null>();
+  const converted: NormalizedFlightOffer[] = [];
+
+  for (const offer of offers) {
+    const from = offer.price.currency;
+    if (!conversions.has(from)) {
+      conversions.set(from, await getPriceConversion(from, currency));
+    }
+    const conversion = conversions.get(from);
+    converted.push(conversion ? convertOffer(offer, conversion) : offer);
+  }
+
+  return converted;
+}
@@ -0,0 +1,104 @@
+import { addDays, format, isBefore, parseISO, startOfDay } from "date-fns";
+import { createLogger } from "@/lib/logger.js";
+
+const log = createLogger("FlexibleDates");
+
+// Flexible-date fallback limits
+// Each date pair is one flight-offers search, so the window is kept small
+export const FLEXIBLE_MAX_WINDOW_DAYS = 3;
+export const FLEXIBLE_DEFAULT_WINDOW_DAYS = 3;
+export const FLEXIBLE_MAX_SEARCHES = 25;
+const FLEXIBLE_CONCURRENCY = 2;
+const FLEXIBLE_MIN_INTERVAL_MS = 250; // Between search starts (Amadeus test: 10 TPS)
+
+export interface FlexibleDatePair {
+  departureDate: string; // YYYY-MM-DD
+  returnDate?: string; // YYYY-MM-DD (round-trip only)
+}
+
+// Key used for a date pair in flexible price data
+export const flexibleDateKey = (pair: FlexibleDatePair) =>
+  pair.returnDate ? `${pair.departureDate}_${pair.returnDate}` : pair.departureDate;
+
+/**
+ * Date pairs within ±windowDays of the requested dates, closest first.
+ * Past dates and returns before departure are skipped; at most FLEXIBLE_MAX_SEARCHES pairs.
+ */
+export function buildFlexibleDatePairs(
+  departureDate: string,
+  returnDate: string | undefined,
+  windowDays: number
+): FlexibleDatePair[] {
+  const today = startOfDay(new Date());
+  const departure = parseISO(departureDate);
+  const ret = returnDate ? parseISO(returnDate) : null;
+  const offsets: number[] = [];
+  for (let offset = -windowDays; offset <= windowDays; offset++) offsets.push(offset);
+
+  const candidates: { pair: FlexibleDatePair; distance: number }[] = [];
+
+  for (const depOffset of offsets) {
+    const dep = addDays(departure, depOffset);
+    if (isBefore(dep, today)) continue;
+
+    if (!ret) {
+      candidates.push({
+        pair: { departureDate: format(dep, "yyyy-MM-dd") },
+        distance: Math.abs(depOffset),
+      });
+      continue;
+    }
+
+    for (const retOffset of offsets) {
+      const back = addDays(ret, retOffset);
+      if (isBefore(back, dep)) continue;
+      candidates.push({
+        pair: {
+          departureDate: format(dep, "yyyy-MM-dd"),
+          returnDate: format(back, "yyyy-MM-dd"),
+        },
+        distance: Math.abs(depOffset) + Math.abs(retOffset),
+      });
+    }
+  }
+
+  return candidates
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, FLEXIBLE_MAX_SEARCHES)
+    .map((c) => c.pair);
+}
+
+/**
+ * Run a task per item with bounded concurrency and a minimum gap between starts.
+ * Failed tasks resolve to null so one bad date does not fail the whole window.
+ */
+export async function mapRateLimited<T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>
+): Promise<(R | null)[]> {
+  const results: (R | null)[] = new Array(items.length).fill(null);
+  let next = 0;
+  let lastStart = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+
+      const wait = lastStart + FLEXIBLE_MIN_INTERVAL_MS - Date.now();
+      lastStart = Math.max(Date.now(), lastStart + FLEXIBLE_MIN_INTERVAL_MS);
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+
+      try {
+        results[index] = await task(items[index]);
+      } catch (error) {
+        log.error("Rate-limited search failed", error);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(FLEXIBLE_CONCURRENCY, items.length) }, worker)
+  );
+
+  return results;
+}
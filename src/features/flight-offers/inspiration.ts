@@ -0,0 +1,96 @@
+import { subDays } from "date-fns";
+import { prisma } from "@/lib/prisma.js";
+import type { SupplierFlightDestinationsResponse } from "./suppliers/index.js";
+
+// Popular-route fallback: most searched destinations from an origin
+const POPULAR_ROUTES_LOOKBACK_DAYS = 90;
+export const POPULAR_ROUTES_LIMIT = 8;
+
+export interface DestinationMetadata {
+  airportName: string | null;
+  cityName: string | null;
+  countryName: string | null;
+  countryCode: string | null;
+}
+
+// Prefer bigger airports when several rows share an IATA code
+const AIRPORT_TYPE_RANK: Record<string, number> = {
+  large_airport: 0,
+  medium_airport: 1,
+  small_airport: 2,
+};
+
+/**
+ * Destinations most searched from an origin (searchEvent data)
+ */
+export async function getPopularDestinations(origin: string) {
+  const rows = await prisma.searchEvent.groupBy({
+    by: ["destination"],
+    _count: { id: true },
+    where: {
+      origin,
+      destination: { not: origin },
+      createdAt: { gte: subDays(new Date(), POPULAR_ROUTES_LOOKBACK_DAYS) },
+    },
+    orderBy: { _count: { id: "desc" } },
+    take: POPULAR_ROUTES_LIMIT,
+  });
+
+  return rows.map((row) => ({
+    destination: row.destination.toUpperCase(),
+    searches: row._count.id,
+  }));
+}
+
+/**
+ * City/country metadata for destination codes from the airport/city/country tables.
+ * Codes we don't know as airports (e.g. city codes) fall back to supplier location names.
+ */
+export async function getDestinationMetadata(
+  codes: string[],
+  locations: NonNullable<SupplierFlightDestinationsResponse["dictionaries"]>["locations"] = {}
+) {
+  const airports = await prisma.airport.findMany({
+    where: { iataCode: { in: codes } },
+    select: {
+      iataCode: true,
+      name: true,
+      type: true,
+      city: {
+        select: {
+          name: true,
+          country: { select: { name: true, iso: true } },
+        },
+      },
+    },
+  });
+
+  airports.sort(
+    (a, b) => (AIRPORT_TYPE_RANK[a.type] ?? 9) - (AIRPORT_TYPE_RANK[b.type] ?? 9)
+  );
+
+  const metadata = new Map<string, DestinationMetadata>();
+
+  for (const code of codes) {
+    const airport = airports.find((a) => a.iataCode === code);
+    if (airport) {
+      metadata.set(code, {
+        airportName: airport.name,
+        cityName: airport.city?.name ?? null,
+        countryName: airport.city?.country?.name ?? null,
+        countryCode: airport.city?.country?.iso ?? null,
+      });
+      continue;
+    }
+
+    const location = locations[code];
+    metadata.set(code, {
+      airportName: location?.subType === "AIRPORT" ? location.detailedName : null,
+      cityName: location?.subType === "CITY" ? location.detailedName : null,
+      countryName: null,
+      countryCode: null,
+    });
+  }
+
+  return metadata;
+}
@@ -0,0 +1,167 @@
+import { AppValidationError } from "@/lib/errorHandler.js";
+import { haversineDistance } from "@/lib/geo.js";
+import type { FlightMulticityRequestType } from "@/schema/flightMulticitySchema.js";
+import { getAirportCoordinates } from "./nearbyAirports.js";
+import type { NormalizedFlightOffer } from "./offerTypes.js";
+import type { SupplierMultiCityRequest } from "./suppliers/index.js";
+
+type MultiCityLeg = FlightMulticityRequestType["originDestinations"][number];
+
+/**
+ * Open-jaw: every gap between a leg's destination and the next leg's origin
+ * must be within maxSurfaceGapKm. Returns the surface segments found.
+ */
+export async function validateSurfaceGaps(request: FlightMulticityRequestType) {
+  const legs = request.originDestinations;
+  const gaps = legs.slice(0, -1).flatMap((leg, i) =>
+    leg.destinationLocationCode !== legs[i + 1].originLocationCode
+      ? [{ index: i + 1, from: leg.destinationLocationCode, to: legs[i + 1].originLocationCode }]
+      : []
+  );
+  if (gaps.length === 0) return [];
+
+  const coordinates = await getAirportCoordinates(gaps.flatMap((g) => [g.from, g.to]));
+
+  return gaps.map((gap) => {
+    const path = `originDestinations[${gap.index}].originLocationCode`;
+    const from = coordinates.get(gap.from);
+    const to = coordinates.get(gap.to);
+    if (!from || !to) {
+      throw new AppValidationError(
+        "form",
+        `Cannot check surface gap between ${gap.from} and ${gap.to}: unknown airport`,
+        path
+      );
+    }
+
+    const distanceKm = Math.round(haversineDistance(from.lat, from.lon, to.lat, to.lon));
+    if (distanceKm > request.maxSurfaceGapKm) {
+      throw new AppValidationError(
+        "form",
+        `Surface gap between ${gap.from} and ${gap.to} is ${distanceKm} km (max ${request.maxSurfaceGapKm} km)`,
+        path
+      );
+    }
+
+    return { from: gap.from, to: gap.to, distanceKm };
+  });
+}
+
+/**
+ * Map a validated multi-city request to the supplier request.
+ * Per-leg cabins become leg-scoped cabin restrictions; per-leg connection limits
+ * are sent as the loosest limit and enforced per leg by filterMultiCityOffers.
+ */
+export function toSupplierMultiCityRequest(
+  request: FlightMulticityRequestType
+): SupplierMultiCityRequest {
+  const legs = request.originDestinations;
+  const legCabinIds = new Set(legs.filter((leg) => leg.cabin).map((leg) => leg.id));
+
+  // Request-wide restrictions no longer cover legs with their own cabin
+  const cabinRestrictions = (request.searchCriteria?.flightFilters?.cabinRestrictions ?? [])
+    .map((restriction) => ({
+      cabin: restriction.cabin,
+      coverage: restriction.coverage,
+      originDestinationIds: restriction.originDestinationIds.filter(
+        (id): id is string => !!id && !legCabinIds.has(id)
+      ),
+    }))
+    .filter((restriction) => restriction.originDestinationIds.length > 0);
+
+  legs.forEach((leg) => {
+    if (leg.cabin) {
+      cabinRestrictions.push({
+        cabin: leg.cabin,
+        coverage: "MOST_SEGMENTS",
+        originDestinationIds: [leg.id],
+      });
+    }
+  });
+
+  const connectionLimits = legs.map((leg) => leg.maxConnections);
+  const maxNumberOfConnections = connectionLimits.every((limit) => limit !== undefined)
+    ? Math.max(...(connectionLimits as number[]))
+    : undefined;
+
+  return {
+    currencyCode: request.currency ?? request.currencyCode,
+    originDestinations: legs.map((leg) => ({
+      id: leg.id,
+      originLocationCode: leg.originLocationCode,
+      destinationLocationCode: leg.destinationLocationCode,
+      departureDateTimeRange: {
+        date: leg.departureDateTimeRange.date,
+        ...(leg.departureDateTimeRange.time && {
+          time:
+            leg.departureDateTimeRange.time.length === 5
+              ? `${leg.departureDateTimeRange.time}:00`
+              : leg.departureDateTimeRange.time,
+        }),
+        ...(leg.departureDateTimeRange.timeWindow && {
+          timeWindow: leg.departureDateTimeRange.timeWindow,
+        }),
+      },
+    })),
+    travelers: request.travelers.map((traveler) => ({
+      id: traveler.id,
+      // Set from saved profiles by resolveMultiCityTravelers
+      travelerType: traveler.travelerType!,
+      ...(traveler.associatedAdultId && { associatedAdultId: traveler.associatedAdultId }),
+    })),
+    ...(request.sources && {
+      sources: request.sources.filter((source): source is string => !!source),
+    }),
+    searchCriteria: {
+      maxFlightOffers: request.searchCriteria?.maxFlightOffers,
+      flightFilters: {
+        ...(cabinRestrictions.length > 0 && { cabinRestrictions }),
+        ...(maxNumberOfConnections !== undefined && {
+          connectionRestriction: { maxNumberOfConnections },
+        }),
+      },
+    },
+  };
+}
+
+// Minutes since midnight for HH:mm or a local date-time
+const minutesOfDay = (value: string) => {
+  const [hours, minutes] = (value.includes("T") ? value.split("T")[1] : value)
+    .split(":")
+    .map(Number);
+  return hours * 60 + minutes;
+};
+
+// Departure within time ± window on the leg (a time without a window is only a preference)
+const withinTimeWindow = (leg: MultiCityLeg, departureAt: string) => {
+  const { time, timeWindow } = leg.departureDateTimeRange;
+  if (!time || !timeWindow) return true;
+
+  const departure = minutesOfDay(departureAt);
+  const preferred = minutesOfDay(time);
+  const window = parseInt(timeWindow, 10) * 60;
+  return Math.abs(departure - preferred) <= window;
+};
+
+/**
+ * Drop offers that break per-leg connection limits or departure time windows
+ * (suppliers only support request-wide connection limits)
+ */
+export function filterMultiCityOffers(
+  offers: NormalizedFlightOffer[],
+  request: FlightMulticityRequestType
+) {
+  const legs = request.originDestinations;
+
+  return offers.filter((offer) =>
+    legs.every((leg, i) => {
+      const itinerary = offer.itineraries[i];
+      if (!itinerary) return false;
+      const connections = itinerary.segments.length - 1;
+      if (leg.maxConnections !== undefined && connections > leg.maxConnections) {
+        return false;
+      }
+      return withinTimeWindow(leg, itinerary.departureAt);
+    })
+  );
+}
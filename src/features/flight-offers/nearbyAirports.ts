@@ -0,0 +1,151 @@
+import { prisma } from "@/lib/prisma.js";
+import { haversineDistance } from "@/lib/geo.js";
+
+// Nearby-airport expansion limits
+export const NEARBY_MAX_RADIUS_KM = 300;
+const NEARBY_MAX_AIRPORTS = 2; // Extra airports per side, besides the requested one
+const NEARBY_AIRPORT_TYPES = ["large_airport", "medium_airport"];
+const NEARBY_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+const KM_PER_DEGREE_LAT = 111.32;
+
+export interface NearbyAirport {
+  iataCode: string;
+  name: string;
+  cityName: string | null;
+  distanceKm: number; // From the requested airport (0 for the airport itself)
+}
+
+/**
+ * Coordinates for IATA codes (bigger airports win when codes are shared)
+ */
+export async function getAirportCoordinates(codes: string[]) {
+  const airports = await prisma.airport.findMany({
+    where: {
+      iataCode: { in: codes.map((code) => code.toUpperCase()) },
+      type: { in: [...NEARBY_AIRPORT_TYPES, "small_airport"] },
+      latitudeDeg: { not: null },
+      longitudeDeg: { not: null },
+    },
+    select: { iataCode: true, type: true, latitudeDeg: true, longitudeDeg: true },
+    orderBy: { type: "desc" }, // Later (bigger) rows overwrite smaller ones below
+  });
+
+  const coordinates = new Map<string, { lat: number; lon: number }>();
+  for (const airport of airports) {
+    if (!airport.iataCode || airport.latitudeDeg === null || airport.longitudeDeg === null) {
+      continue;
+    }
+    coordinates.set(airport.iataCode, {
+      lat: airport.latitudeDeg,
+      lon: airport.longitudeDeg,
+    });
+  }
+
+  return coordinates;
+}
+
+const nearbyCache = new Map<string, { data: NearbyAirport[]; timestamp: number }>();
+
+/**
+ * The requested airport followed by the closest large/medium airports within radiusKm.
+ * Unknown codes (e.g. city codes) come back on their own.
+ */
+export async function findNearbyAirports(
+  iataCode: string,
+  radiusKm: number
+): Promise<NearbyAirport[]> {
+  const code = iataCode.toUpperCase();
+  const cacheKey = `${code}:${radiusKm}`;
+  const cached = nearbyCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < NEARBY_CACHE_DURATION) {
+    return cached.data;
+  }
+
+  const self: NearbyAirport = { iataCode: code, name: code, cityName: null, distanceKm: 0 };
+
+  const origin = await prisma.airport.findFirst({
+    where: {
+      iataCode: code,
+      type: { in: [...NEARBY_AIRPORT_TYPES, "small_airport"] },
+      latitudeDeg: { not: null },
+      longitudeDeg: { not: null },
+    },
+    select: {
+      name: true,
+      latitudeDeg: true,
+      longitudeDeg: true,
+      city: { select: { name: true } },
+    },
+    orderBy: { type: "asc" }, // large_airport < medium_airport < small_airport
+  });
+
+  if (!origin || origin.latitudeDeg === null || origin.longitudeDeg === null) {
+    return [self];
+  }
+
+  self.name = origin.name;
+  self.cityName = origin.city?.name ?? null;
+
+  // Bounding box first, exact distance after
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  const lonDelta =
+    radiusKm /
+    (KM_PER_DEGREE_LAT * Math.max(Math.cos((origin.latitudeDeg * Math.PI) / 180), 0.01));
+
+  const candidates = await prisma.airport.findMany({
+    where: {
+      iataCode: { not: null },
+      type: { in: NEARBY_AIRPORT_TYPES },
+      scheduledService: true,
+      latitudeDeg: {
+        gte: origin.latitudeDeg - latDelta,
+        lte: origin.latitudeDeg + latDelta,
+      },
+      longitudeDeg: {
+        gte: origin.longitudeDeg - lonDelta,
+        lte: origin.longitudeDeg + lonDelta,
+      },
+    },
+    select: {
+      iataCode: true,
+      name: true,
+      latitudeDeg: true,
+      longitudeDeg: true,
+      city: { select: { name: true } },
+    },
+  });
+
+  const nearby = new Map<string, NearbyAirport>();
+  for (const airport of candidates) {
+    if (!airport.iataCode || airport.iataCode === code) continue;
+    if (airport.latitudeDeg === null || airport.longitudeDeg === null) continue;
+
+    const distance = haversineDistance(
+      origin.latitudeDeg,
+      origin.longitudeDeg,
+      airport.latitudeDeg,
+      airport.longitudeDeg
+    );
+    if (distance > radiusKm) continue;
+
+    const existing = nearby.get(airport.iataCode);
+    if (!existing || distance < existing.distanceKm) {
+      nearby.set(airport.iataCode, {
+        iataCode: airport.iataCode,
+        name: airport.name,
+        cityName: airport.city?.name ?? null,
+        distanceKm: Math.round(distance),
+      });
+    }
+  }
+
+  const data = [
+    self,
+    ...[...nearby.values()]
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, NEARBY_MAX_AIRPORTS),
+  ];
+
+  nearbyCache.set(cacheKey, { data, timestamp: Date.now() });
+  return data;
+}
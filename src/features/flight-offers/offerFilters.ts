@@ -0,0 +1,146 @@
+import type { FlightOfferFilterQueryType } from "@/schema/flightFilterSchema.js";
+import type { NormalizedFlightOffer } from "./offerTypes.js";
+
+// Weights for the "best" sort (lower score is better)
+const BEST_PRICE_WEIGHT = 0.6;
+const BEST_DURATION_WEIGHT = 0.3;
+const BEST_STOP_PENALTY = 0.1;
+
+// "2025-12-01T14:35:00" -> 875 (minutes since midnight, local to the airport)
+const minutesOfDay = (localDateTime: string) => {
+  const [hours, minutes] = localDateTime.slice(11, 16).split(":");
+  return parseInt(hours) * 60 + parseInt(minutes);
+};
+
+// "14:35" -> 875
+const parseTimeOfDay = (time: string) => {
+  const [hours, minutes] = time.split(":");
+  return parseInt(hours) * 60 + parseInt(minutes);
+};
+
+// Supports windows wrapping midnight (e.g. 22:00 - 02:00)
+const isWithinWindow = (localDateTime: string, from?: string, to?: string) => {
+  if (!from && !to) return true;
+  const value = minutesOfDay(localDateTime);
+  const start = from ? parseTimeOfDay(from) : 0;
+  const end = to ? parseTimeOfDay(to) : 24 * 60 - 1;
+  return start <= end
+    ? value >= start && value <= end
+    : value >= start || value <= end;
+};
+
+// All marketing and operating carriers on an offer
+const offerCarrierCodes = (offer: NormalizedFlightOffer) => {
+  const codes = new Set<string>();
+  for (const itinerary of offer.itineraries) {
+    for (const segment of itinerary.segments) {
+      codes.add(segment.carrier.code);
+      if (segment.operatingCarrier) codes.add(segment.operatingCarrier.code);
+    }
+  }
+  return codes;
+};
+
+/**
+ * Apply search filters to normalized offers.
+ * Stop and duration limits apply to every itinerary; time windows apply to
+ * the outbound itinerary only.
+ */
+export function filterOffers(
+  offers: NormalizedFlightOffer[],
+  filters: FlightOfferFilterQueryType
+) {
+  return offers.filter((offer) => {
+    if (
+      filters.maxStops !== undefined &&
+      offer.itineraries.some((it) => it.stops > filters.maxStops!)
+    ) {
+      return false;
+    }
+
+    if (filters.maxPrice !== undefined && offer.price.total > filters.maxPrice) {
+      return false;
+    }
+
+    if (
+      filters.maxDuration !== undefined &&
+      offer.itineraries.some((it) => it.durationMinutes > filters.maxDuration!)
+    ) {
+      return false;
+    }
+
+    if (filters.includeAirlines?.length || filters.excludeAirlines?.length) {
+      const carriers = offerCarrierCodes(offer);
+      if (
+        filters.includeAirlines?.length &&
+        ![...carriers].every((code) => filters.includeAirlines!.includes(code))
+      ) {
+        return false;
+      }
+      if (filters.excludeAirlines?.some((code) => carriers.has(code))) {
+        return false;
+      }
+    }
+
+    const outbound = offer.itineraries[0];
+    if (outbound) {
+      if (
+        !isWithinWindow(
+          outbound.departureAt,
+          filters.departureTimeFrom,
+          filters.departureTimeTo
+        )
+      ) {
+        return false;
+      }
+      if (
+        !isWithinWindow(
+          outbound.arrivalAt,
+          filters.arrivalTimeFrom,
+          filters.arrivalTimeTo
+        )
+      ) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Sort offers by price, total duration, or a blended "best" score
+ */
+export function sortOffers(
+  offers: NormalizedFlightOffer[],
+  sortBy: FlightOfferFilterQueryType["sortBy"]
+) {
+  const sorted = [...offers];
+
+  if (sortBy === "price") {
+    return sorted.sort(
+      (a, b) =>
+        a.price.total - b.price.total ||
+        a.totalDurationMinutes - b.totalDurationMinutes
+    );
+  }
+
+  if (sortBy === "duration") {
+    return sorted.sort(
+      (a, b) =>
+        a.totalDurationMinutes - b.totalDurationMinutes ||
+        a.price.total - b.price.total
+    );
+  }
+
+  // Best: price and duration relative to the cheapest/fastest, plus a stop penalty
+  const minPrice = Math.min(...offers.map((o) => o.price.total)) || 1;
+  const minDuration =
+    Math.min(...offers.map((o) => o.totalDurationMinutes)) || 1;
+  const score = (offer: NormalizedFlightOffer) =>
+    BEST_PRICE_WEIGHT * (offer.price.total / minPrice) +
+    BEST_DURATION_WEIGHT * (offer.totalDurationMinutes / minDuration) +
+    BEST_STOP_PENALTY * offer.stops;
+
+  return sorted.sort((a, b) => score(a) - score(b));
+}
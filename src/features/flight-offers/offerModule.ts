@@ -1,15 +1,72 @@
-import { Hono } from "hono";
+import { Hono, type Context, type MiddlewareHandler } from "hono";
 import { flightOfferService } from "./offerService.js";
 import { validateInput } from "@/lib/validateInput.js";
-import { flightOfferSearchSchema } from "@/schema/flightSearchSchema.js";
+import {
+  flightOfferSearchSchema,
+  type FlightOfferSearchQueryType,
+} from "@/schema/flightSearchSchema.js";
 import { flightMulticitySchema } from "@/schema/flightMulticitySchema.js";
+import { flightOfferFilterSchema } from "@/schema/flightFilterSchema.js";
+import { flightOfferPriceSchema } from "@/schema/flightPriceSchema.js";
+import { flightInspirationSchema } from "@/schema/flightInspirationSchema.js";
+import { flightOfferShareSchema, flightShareDeepLinkSchema } from "@/schema/flightShareSchema.js";
+import { flightOfferDeepLinkSchema } from "@/schema/flightDeepLinkSchema.js";
+import { isSupportedCurrency } from "@/lib/exchangeRates.js";
+import { rateLimit } from "@/lib/rateLimit.js";
+import type { auth } from "@/lib/auth.js";
+import {
+  getAnonymousSessionId,
+  savedSearchService,
+  type SearchInput,
+} from "@/features/saved-searches/savedSearchService.js";
+import { travelerService } from "@/features/travelers/travelerService.js";
+import { createLogger } from "@/lib/logger.js";
 
-const app = new Hono();
+const log = createLogger("FlightOffers");
+
+// Optional ?currency= for routes validated by hand
+const parseCurrency = async (value: string | undefined) => {
+  if (!value) return { currency: undefined };
+  const currency = value.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency) || !(await isSupportedCurrency(currency))) {
+    return { currency, error: "Unsupported currency" };
+  }
+  return { currency };
+};
+
+const app = new Hono<{
+  Variables: {
+    user: typeof auth.$Infer.Session.user | null;
+    session: typeof auth.$Infer.Session.session | null;
+  };
+}>();
+
+// Add a search to the recent history of the signed-in user, or of the anonymous session (fa_sid)
+const recordRecentSearch = (c: Context, input: SearchInput) => {
+  const user = c.get("user");
+  const sessionId = getAnonymousSessionId(c.req.raw.headers);
+  const owner = user ? { userId: user.id } : sessionId ? { sessionId } : null;
+  if (!owner) return;
+
+  savedSearchService.recordSearch(owner, input).catch((error) => {
+    log.error("Failed to record search history", error);
+  });
+};
 
 /*
   @route    GET: /flight-offers
   @access   public
   @desc     Get flight offers (One Way & Round Way)
+  @query    maxStops, maxPrice, includeAirlines, excludeAirlines (comma-separated)
+  @query    departureTimeFrom/To, arrivalTimeFrom/To (HH:mm, outbound), maxDuration (minutes)
+  @query    sortBy - price | duration | best (default best)
+  @query    limit, cursor - page size and cursor from previous page's pagination.nextCursor
+  @query    includeNearby - also search large/medium airports within this many km (optional, max 300)
+  @query    includeSelfTransfer - add self-transfer offers via hubs (one-way only, flagged with selfTransfer)
+  @query    minConnectionMinutes - minimum self-transfer connection (optional, default 180)
+  @query    currency - ISO currency for prices (optional, converted server-side when the supplier can't quote it)
+  @query    infants - held infants (under 2, one per adult)
+  @query    travelerIds - saved traveler ids (comma-separated, signed-in users); replaces adults/children/infants
 */
 app.get("/", async (c) => {
   // Validate Query
@@ -19,7 +76,25 @@ app.get("/", async (c) => {
     data: c.req.query(),
   });
 
-  const result = await flightOfferService.getFlightOffers(validatedQuery);
+  // Validate Filters
+  const filters = await validateInput({
+    type: "query",
+    schema: flightOfferFilterSchema,
+    data: c.req.query(),
+  });
+
+  const queries = await travelerService.applyToSearch(
+    c.get("user")?.id,
+    validatedQuery
+  );
+
+  const result = await flightOfferService.searchFlightOffers(queries, filters);
+
+  // Later pages are not new searches
+  if (!filters.cursor) {
+    recordRecentSearch(c, { searchType: "flight-offers", query: c.req.query() });
+  }
+
   return c.json(result);
 });
 
@@ -27,21 +102,151 @@ app.get("/", async (c) => {
   @route    POST: /flight-offers
   @access   public
   @desc     Get multi-city flight offers
+  @body     mode - consecutive (default) or open-jaw; maxSurfaceGapKm - max gap between legs (open-jaw)
+  @body     originDestinations[].cabin, maxConnections, departureDateTimeRange.time/timeWindow - per-leg limits
+  @body     currency - ISO currency for prices (optional, same as currencyCode)
+  @body     travelers[].profileId - saved traveler (signed-in users); travelerType is derived from age
+  @body     travelers[].associatedAdultId - adult holding a HELD_INFANT (optional, assigned in order)
 */
 app.post("/", async (c) => {
   // Validate Request Body
+  const body = await c.req.json();
   const validatedBody = await validateInput({
     type: "form",
     schema: flightMulticitySchema,
-    data: await c.req.json(),
+    data: body,
   });
 
-  const result = await flightOfferService.getMultiCityFlightOffers(
+  const request = await travelerService.applyToMultiCity(
+    c.get("user")?.id,
     validatedBody
   );
+
+  const result = await flightOfferService.getMultiCityFlightOffers(request);
+
+  recordRecentSearch(c, { searchType: "multi-city", body });
+
   return c.json(result);
 });
 
+// Every price confirmation calls the supplier, limit it per client
+const repriceRateLimit = rateLimit({ windowMs: 60 * 1000, max: 10 });
+
+/*
+  @route    POST: /flight-offers/price
+  @access   public
+  @desc     Confirm price and availability of an offer before click-out (rate limited)
+  @desc     503 with code QUOTA_EXCEEDED once the supplier quota is used up
+  @body     searchId - searchId returned by GET/POST /flight-offers
+  @body     offerId - id of the offer within that search
+  @body     currency - ISO currency for both prices (optional, default the searched currency)
+*/
+app.post("/price", repriceRateLimit, async (c) => {
+  // Validate Request Body
+  const validatedBody = await validateInput({
+    type: "form",
+    schema: flightOfferPriceSchema,
+    data: await c.req.json(),
+  });
+
+  const result = await flightOfferService.priceFlightOffer(validatedBody);
+  return c.json(result);
+});
+
+/*
+  @route    POST: /flight-offers/deeplink
+  @access   public
+  @desc     Signed click-out link (GET /go/:token) to book an offer with a partner
+  @body     searchId, offerId - offer from a previous GET/POST /flight-offers
+  @body     partner - partner code
+  @body     utmSource, utmMedium, utmCampaign, utmContent, utmTerm - visit attribution (optional)
+*/
+app.post("/deeplink", async (c) => {
+  // Validate Request Body
+  const validatedBody = await validateInput({
+    type: "form",
+    schema: flightOfferDeepLinkSchema,
+    data: await c.req.json(),
+  });
+
+  const result = await flightOfferService.createPartnerDeepLink(
+    validatedBody,
+    getAnonymousSessionId(c.req.raw.headers)
+  );
+  return c.json(result, 201);
+});
+
+/*
+  @route    POST: /flight-offers/share
+  @access   public
+  @desc     Create a shareable link for an offer (snapshot of the offer and its search)
+  @body     searchId, offerId - offer from a previous GET/POST /flight-offers
+  @body     searchParams - query or multi-city body of that search (optional, lets the recipient search again)
+  @body     expiresInDays - link lifetime (optional, default 30, never past the first departure)
+*/
+app.post("/share", async (c) => {
+  // Validate Request Body
+  const validatedBody = await validateInput({
+    type: "form",
+    schema: flightOfferShareSchema,
+    data: await c.req.json(),
+  });
+
+  const result = await flightOfferService.shareFlightOffer(
+    validatedBody,
+    c.get("user")?.id
+  );
+  return c.json(result, 201);
+});
+
+// Re-pricing a shared itinerary shares the price confirmation limit
+const shareRepriceRateLimit: MiddlewareHandler = (c, next) =>
+  c.req.query("reprice") === "true" ? repriceRateLimit(c, next) : next();
+
+/*
+  @route    GET: /flight-offers/share/:id
+  @access   public
+  @desc     Get a shared itinerary; each call without reprice counts as a view of the link
+  @desc     attribution (utmSource shared-itinerary) is meant for the recipient's /analytics search events
+  @query    reprice - true to confirm current price and availability with the supplier (rate limited)
+  @query    currency - ISO currency for prices (optional, default the shared currency)
+*/
+app.get("/share/:id", shareRepriceRateLimit, async (c) => {
+  const { currency, error } = await parseCurrency(c.req.query("currency"));
+  if (error) {
+    return c.json({ success: false, message: error }, 400);
+  }
+
+  const result = await flightOfferService.getSharedFlightOffer(c.req.param("id"), {
+    reprice: c.req.query("reprice") === "true",
+    currency,
+  });
+  return c.json(result);
+});
+
+/*
+  @route    POST: /flight-offers/share/:id/deeplink
+  @access   public
+  @desc     Signed click-out link (GET /go/:token) to book a shared itinerary with a partner
+  @desc     The click-out is attributed to the share and counted as its click when followed
+  @body     partner - partner code
+*/
+app.post("/share/:id/deeplink", async (c) => {
+  // Validate Request Body
+  const validatedBody = await validateInput({
+    type: "form",
+    schema: flightShareDeepLinkSchema,
+    data: await c.req.json(),
+  });
+
+  const result = await flightOfferService.createSharedDeepLink(
+    c.req.param("id"),
+    validatedBody.partner,
+    getAnonymousSessionId(c.req.raw.headers)
+  );
+  return c.json(result, 201);
+});
+
 /*
   @route    GET: /flight-offers/cheapest-dates
   @access   public
@@ -52,6 +257,7 @@ app.post("/", async (c) => {
   @query    oneWay - One way flight (optional, default false)
   @query    duration - Trip duration in days (optional)
   @query    nonStop - Non-stop flights only (optional)
+  @query    currency - ISO currency for prices (optional)
 */
 app.get("/cheapest-dates", async (c) => {
   const origin = c.req.query("origin");
@@ -61,6 +267,11 @@ app.get("/cheapest-dates", async (c) => {
     return c.json({ message: "origin and destination are required" }, 400);
   }
 
+  const { currency, error } = await parseCurrency(c.req.query("currency"));
+  if (error) {
+    return c.json({ message: error }, 400);
+  }
+
   const params = {
     origin,
     destination,
@@ -71,7 +282,7 @@ app.get("/cheapest-dates", async (c) => {
     viewBy: "DATE" as const,
   };
 
-  const result = await flightOfferService.getCheapestFlightDates(params);
+  const result = await flightOfferService.getCheapestFlightDates(params, currency);
   return c.json(result);
 });
 
@@ -85,6 +296,11 @@ app.get("/cheapest-dates", async (c) => {
   @query    endDate - End date YYYY-MM-DD for range (optional)
   @query    oneWay - Boolean for one-way flights (optional)
   @query    viewBy - DATE, DURATION, or WEEK (optional, default DATE)
+  @query    returnDate - Return date YYYY-MM-DD, used by the search fallback (optional)
+  @query    fallback - Search flight offers ±window days when the route has no cached dates (optional, default true)
+  @query    window - Days either side of departure/return for the fallback (optional, default 3, max 3)
+  @query    adults, travelClass - Passengers and cabin for the fallback searches (optional)
+  @query    currency - ISO currency for prices (optional)
 */
 app.get("/flexible-prices", async (c) => {
   const origin = c.req.query("origin");
@@ -98,16 +314,81 @@ app.get("/flexible-prices", async (c) => {
   const endDate = c.req.query("endDate");
   const oneWay = c.req.query("oneWay") === "true";
   const viewBy = (c.req.query("viewBy") as "DATE" | "DURATION" | "WEEK") || "DATE";
+  const returnDate = c.req.query("returnDate");
+  const fallback = c.req.query("fallback") !== "false";
+  const windowDays = c.req.query("window")
+    ? parseInt(c.req.query("window")!, 10)
+    : undefined;
+  const adults = c.req.query("adults")
+    ? parseInt(c.req.query("adults")!, 10)
+    : undefined;
+  const travelClass = c.req.query("travelClass")?.toUpperCase() as
+    | FlightOfferSearchQueryType["travelClass"]
+    | undefined;
+
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (
+    [departureDate, endDate, returnDate].some((d) => d && !datePattern.test(d))
+  ) {
+    return c.json({ message: "Dates must be in YYYY-MM-DD format" }, 400);
+  }
+  if (windowDays !== undefined && (isNaN(windowDays) || windowDays < 0)) {
+    return c.json({ message: "window must be a non-negative number of days" }, 400);
+  }
+  if (adults !== undefined && (isNaN(adults) || adults < 1 || adults > 9)) {
+    return c.json({ message: "adults must be between 1 and 9" }, 400);
+  }
+  if (
+    travelClass &&
+    !["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"].includes(travelClass)
+  ) {
+    return c.json({ message: "Invalid travelClass" }, 400);
+  }
+  const { currency, error } = await parseCurrency(c.req.query("currency"));
+  if (error) {
+    return c.json({ message: error }, 400);
+  }
 
   const result = await flightOfferService.getFlexibleDatePrices({
     origin,
     destination,
     departureDate,
     endDate,
+    returnDate,
     oneWay,
     viewBy,
+    fallback,
+    windowDays,
+    adults,
+    travelClass,
+    currency,
+  });
+
+  return c.json(result);
+});
+
+/*
+  @route    GET: /flight-offers/inspiration
+  @access   public
+  @desc     Cheapest destinations from an origin within a date range and budget
+  @query    origin - Origin IATA code (required)
+  @query    departureDate, endDate - Date range YYYY-MM-DD (optional, default next 30 days)
+  @query    maxPrice - Budget (optional)
+  @query    oneWay - One way flights (optional, default false)
+  @query    duration - Trip length in days for round trips (optional, default 7)
+  @query    nonStop - Non-stop flights only (optional)
+  @query    limit - Max destinations (optional, default 20)
+  @query    currency - ISO currency for prices and maxPrice (optional)
+*/
+app.get("/inspiration", async (c) => {
+  // Validate Query
+  const validatedQuery = await validateInput({
+    type: "query",
+    schema: flightInspirationSchema,
+    data: c.req.query(),
   });
 
+  const result = await flightOfferService.getInspiration(validatedQuery);
   return c.json(result);
 });
 
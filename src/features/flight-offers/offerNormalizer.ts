@@ -0,0 +1,349 @@
+import { differenceInMinutes, parseISO } from "date-fns";
+import { prisma } from "@/lib/prisma.js";
+import {
+  FLIGHT_OFFER_SCHEMA_VERSION,
+  type NormalizedAirport,
+  type NormalizedBaggage,
+  type NormalizedCarrier,
+  type NormalizedFlightOffer,
+  type NormalizedFlightOffersResponse,
+  type NormalizedItinerary,
+  type NormalizedLayover,
+  type NormalizedSegment,
+} from "./offerTypes.js";
+import type {
+  SupplierDictionaries,
+  SupplierFareDetails,
+  SupplierFlightOffer,
+  SupplierFlightOffersResponse,
+  SupplierItinerary,
+} from "./suppliers/index.js";
+
+// Reference data cache (airports and airlines rarely change)
+const REFERENCE_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+
+type AirportRef = Omit<NormalizedAirport, "iataCode">;
+const airportCache = new Map<string, { data: AirportRef | null; timestamp: number }>();
+const airlineCache = new Map<string, { data: string | null; timestamp: number }>();
+
+// Prefer bigger airports when several rows share an IATA code
+const AIRPORT_TYPE_RANK: Record<string, number> = {
+  large_airport: 0,
+  medium_airport: 1,
+  small_airport: 2,
+};
+
+const isFresh = (entry?: { timestamp: number }) =>
+  !!entry && Date.now() - entry.timestamp < REFERENCE_CACHE_DURATION;
+
+/**
+ * Resolve airport and city names for IATA codes (cached)
+ */
+async function lookupAirports(codes: string[]) {
+  const result = new Map<string, AirportRef | null>();
+  const missing: string[] = [];
+
+  for (const code of codes) {
+    const cached = airportCache.get(code);
+    if (isFresh(cached)) {
+      result.set(code, cached!.data);
+    } else {
+      missing.push(code);
+    }
+  }
+
+  if (missing.length > 0) {
+    const airports = await prisma.airport.findMany({
+      where: { iataCode: { in: missing } },
+      select: {
+        iataCode: true,
+        name: true,
+        type: true,
+        city: { select: { name: true, countryIso: true } },
+      },
+    });
+
+    airports.sort(
+      (a, b) => (AIRPORT_TYPE_RANK[a.type] ?? 9) - (AIRPORT_TYPE_RANK[b.type] ?? 9)
+    );
+
+    for (const code of missing) {
+      const airport = airports.find((a) => a.iataCode === code);
+      const data = airport
+        ? {
+            name: airport.name,
+            cityName: airport.city?.name ?? null,
+            countryCode: airport.city?.countryIso ?? null,
+          }
+        : null;
+      airportCache.set(code, { data, timestamp: Date.now() });
+      result.set(code, data);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolve airline names for IATA carrier codes (cached)
+ */
+async function lookupAirlines(codes: string[]) {
+  const result = new Map<string, string | null>();
+  const missing: string[] = [];
+
+  for (const code of codes) {
+    const cached = airlineCache.get(code);
+    if (isFresh(cached)) {
+      result.set(code, cached!.data);
+    } else {
+      missing.push(code);
+    }
+  }
+
+  if (missing.length > 0) {
+    const airlines = await prisma.airline.findMany({
+      where: { iata: { in: missing } },
+      select: { iata: true, name: true, isUpToDate: true },
+      orderBy: { isUpToDate: "desc" },
+    });
+
+    for (const code of missing) {
+      const name = airlines.find((a) => a.iata === code)?.name ?? null;
+      airlineCache.set(code, { data: name, timestamp: Date.now() });
+      result.set(code, name);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse an ISO 8601 duration (e.g. PT2H30M, P1DT3H) into minutes
+ */
+export function parseIsoDurationMinutes(duration?: string | null): number {
+  if (!duration) return 0;
+  const match = duration.match(
+    /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return 0;
+  const [, days, hours, minutes] = match;
+  return (
+    (parseInt(days || "0") * 24 + parseInt(hours || "0")) * 60 +
+    parseInt(minutes || "0")
+  );
+}
+
+const toAmount = (value?: string) => (value ? parseFloat(value) : 0);
+
+// Lowest allowance wins: an itinerary is only as generous as its worst segment
+function minBaggage(items: NormalizedBaggage[]): NormalizedBaggage {
+  const known = items.filter((b) => b.checkedBags !== null || b.weight !== null);
+  if (known.length === 0) {
+    return { checkedBags: null, weight: null, weightUnit: null };
+  }
+  return known.reduce((min, b) => {
+    const minScore = min.checkedBags ?? (min.weight ? 1 : 0);
+    const score = b.checkedBags ?? (b.weight ? 1 : 0);
+    return score < minScore ? b : min;
+  });
+}
+
+/**
+ * Normalize a raw supplier flight-offers response into the versioned offer model
+ */
+export async function normalizeFlightOffers(
+  raw: SupplierFlightOffersResponse,
+  supplier: string
+): Promise<NormalizedFlightOffersResponse> {
+  const offers = raw.data || [];
+  const dictionaries: SupplierDictionaries = raw.dictionaries || {};
+
+  // Collect codes to resolve in a single round trip each
+  const airportCodes = new Set<string>();
+  const carrierCodes = new Set<string>();
+  for (const offer of offers) {
+    offer.validatingAirlineCodes?.forEach((code) => carrierCodes.add(code));
+    for (const itinerary of offer.itineraries) {
+      for (const segment of itinerary.segments) {
+        airportCodes.add(segment.departure.iataCode);
+        airportCodes.add(segment.arrival.iataCode);
+        carrierCodes.add(segment.carrierCode);
+        if (segment.operating?.carrierCode) {
+          carrierCodes.add(segment.operating.carrierCode);
+        }
+      }
+    }
+  }
+
+  const [airports, airlines] = await Promise.all([
+    lookupAirports([...airportCodes]),
+    lookupAirlines([...carrierCodes]),
+  ]);
+
+  const toAirport = (code: string): NormalizedAirport => {
+    const ref = airports.get(code);
+    return {
+      iataCode: code,
+      name: ref?.name ?? null,
+      cityName: ref?.cityName ?? null,
+      countryCode:
+        ref?.countryCode ?? dictionaries.locations?.[code]?.countryCode ?? null,
+    };
+  };
+
+  const toCarrier = (code: string): NormalizedCarrier => ({
+    code,
+    name: airlines.get(code) ?? dictionaries.carriers?.[code] ?? code,
+  });
+
+  const normalizeItinerary = (
+    itinerary: SupplierItinerary,
+    fareDetails: Map<string, SupplierFareDetails>
+  ): NormalizedItinerary => {
+    const segments: NormalizedSegment[] = itinerary.segments.map((segment) => {
+      const fare = fareDetails.get(segment.id);
+      return {
+        id: segment.id,
+        departure: {
+          airport: toAirport(segment.departure.iataCode),
+          terminal: segment.departure.terminal ?? null,
+          at: segment.departure.at,
+        },
+        arrival: {
+          airport: toAirport(segment.arrival.iataCode),
+          terminal: segment.arrival.terminal ?? null,
+          at: segment.arrival.at,
+        },
+        carrier: toCarrier(segment.carrierCode),
+        operatingCarrier: segment.operating?.carrierCode
+          ? toCarrier(segment.operating.carrierCode)
+          : null,
+        flightNumber: `${segment.carrierCode}${segment.number}`,
+        aircraft: segment.aircraft
+          ? {
+              code: segment.aircraft.code,
+              name: dictionaries.aircraft?.[segment.aircraft.code] ?? null,
+            }
+          : null,
+        durationMinutes: parseIsoDurationMinutes(segment.duration),
+        cabin: fare?.cabin ?? null,
+        bookingClass: fare?.class ?? null,
+        fareBasis: fare?.fareBasis ?? null,
+        brandedFare: fare?.brandedFare ?? null,
+        baggage: {
+          checkedBags: fare?.includedCheckedBags?.quantity ?? null,
+          weight: fare?.includedCheckedBags?.weight ?? null,
+          weightUnit: fare?.includedCheckedBags?.weightUnit ?? null,
+        },
+      };
+    });
+
+    // Layovers: both times are local to the connecting airport
+    const layovers: NormalizedLayover[] = [];
+    for (let i = 0; i < segments.length - 1; i++) {
+      const arrival = segments[i].arrival;
+      const nextDeparture = segments[i + 1].departure;
+      layovers.push({
+        airport: arrival.airport,
+        durationMinutes: differenceInMinutes(
+          parseISO(nextDeparture.at),
+          parseISO(arrival.at)
+        ),
+        changeOfAirport:
+          arrival.airport.iataCode !== nextDeparture.airport.iataCode,
+      });
+    }
+
+    const first = segments[0];
+    const last = segments[segments.length - 1];
+    const durationMinutes =
+      parseIsoDurationMinutes(itinerary.duration) ||
+      segments.reduce((sum, s) => sum + s.durationMinutes, 0) +
+        layovers.reduce((sum, l) => sum + l.durationMinutes, 0);
+
+    return {
+      origin: first.departure.airport,
+      destination: last.arrival.airport,
+      departureAt: first.departure.at,
+      arrivalAt: last.arrival.at,
+      durationMinutes,
+      stops:
+        segments.length -
+        1 +
+        itinerary.segments.reduce((sum, s) => sum + (s.numberOfStops || 0), 0),
+      segments,
+      layovers,
+    };
+  };
+
+  const normalizeOffer = (offer: SupplierFlightOffer): NormalizedFlightOffer => {
+    // Segment fare details are per traveler; use the first traveler's cabin/baggage
+    const fareDetails = new Map<string, SupplierFareDetails>();
+    for (const detail of offer.travelerPricings?.[0]?.fareDetailsBySegment || []) {
+      fareDetails.set(detail.segmentId, detail);
+    }
+
+    const itineraries = offer.itineraries.map((it) =>
+      normalizeItinerary(it, fareDetails)
+    );
+    const validatingCode = offer.validatingAirlineCodes?.[0];
+
+    return {
+      id: `${supplier}-${offer.id}`,
+      supplier,
+      supplierOfferId: offer.id,
+      validatingCarrier: validatingCode ? toCarrier(validatingCode) : null,
+      itineraries,
+      price: {
+        currency: offer.price.currency,
+        total: toAmount(offer.price.grandTotal || offer.price.total),
+        base: toAmount(offer.price.base),
+        travelers: (offer.travelerPricings || []).map((tp) => ({
+          travelerId: tp.travelerId,
+          travelerType: tp.travelerType,
+          total: toAmount(tp.price.total),
+          base: toAmount(tp.price.base),
+        })),
+      },
+      totalDurationMinutes: itineraries.reduce(
+        (sum, it) => sum + it.durationMinutes,
+        0
+      ),
+      stops: itineraries.reduce((sum, it) => sum + it.stops, 0),
+      baggage: minBaggage(
+        itineraries.flatMap((it) => it.segments.map((s) => s.baggage))
+      ),
+      seatsAvailable: offer.numberOfBookableSeats ?? null,
+      lastTicketingDate: offer.lastTicketingDate ?? null,
+    };
+  };
+
+  const normalized = offers.map(normalizeOffer);
+
+  return {
+    version: FLIGHT_OFFER_SCHEMA_VERSION,
+    supplier,
+    count: normalized.length,
+    offers: normalized,
+  };
+}
+
+// Route summary of an offer, in the same terms as searchEvent/clickOutEvent
+export function describeOfferRoute(offer: NormalizedFlightOffer) {
+  const first = offer.itineraries[0];
+  const last = offer.itineraries[offer.itineraries.length - 1];
+
+  const tripType =
+    offer.itineraries.length === 1
+      ? "one-way"
+      : offer.itineraries.length === 2 &&
+          last.destination.iataCode === first.origin.iataCode
+        ? "round-trip"
+        : "multi-city";
+
+  return {
+    tripType,
+    origin: first.origin.iataCode,
+    destination: first.destination.iataCode,
+  };
+}
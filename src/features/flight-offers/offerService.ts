@@ -1,161 +1,902 @@
-import { getAmadeusToken } from "@/lib/amadeus.js";
 import { HTTPException } from "hono/http-exception";
-import { format } from "date-fns";
+import { addDays, format, parseISO } from "date-fns";
 import type { FlightOfferSearchQueryType } from "@/schema/flightSearchSchema.js";
+import type { FlightOfferFilterQueryType } from "@/schema/flightFilterSchema.js";
 import type { FlightMulticityRequestType } from "@/schema/flightMulticitySchema.js";
+import type { FlightOfferPriceRequestType } from "@/schema/flightPriceSchema.js";
+import type { FlightInspirationQueryType } from "@/schema/flightInspirationSchema.js";
+import type { FlightOfferShareRequestType } from "@/schema/flightShareSchema.js";
+import type { FlightOfferDeepLinkRequestType } from "@/schema/flightDeepLinkSchema.js";
+import { signClickoutToken, type ClickoutContext } from "@/features/clickout/clickout.js";
+import {
+  FlightSupplierError,
+  getFlightSupplier,
+  type CheapestDatesParams,
+  type SupplierFlightDatesResponse,
+  type SupplierFlightDestinationsResponse,
+  type SupplierFlightOffer,
+  type SupplierFlightOffersResponse,
+} from "./suppliers/index.js";
+import { describeOfferRoute, normalizeFlightOffers } from "./offerNormalizer.js";
+import {
+  FLIGHT_OFFER_SCHEMA_VERSION,
+  type NormalizedFlightOffer,
+} from "./offerTypes.js";
+import { filterOffers, sortOffers } from "./offerFilters.js";
+import {
+  decodeCursor,
+  encodeCursor,
+  searchResultStore,
+  type SearchResult,
+} from "./searchResultStore.js";
+import {
+  buildSearchCacheKey,
+  searchCache,
+  type SearchCacheStatus,
+} from "./searchCache.js";
+import {
+  FLEXIBLE_DEFAULT_WINDOW_DAYS,
+  FLEXIBLE_MAX_WINDOW_DAYS,
+  buildFlexibleDatePairs,
+  flexibleDateKey,
+  mapRateLimited,
+  type FlexibleDatePair,
+} from "./flexibleDates.js";
+import { findNearbyAirports, type NearbyAirport } from "./nearbyAirports.js";
+import { getDestinationMetadata, getPopularDestinations } from "./inspiration.js";
+import {
+  filterMultiCityOffers,
+  toSupplierMultiCityRequest,
+  validateSurfaceGaps,
+} from "./multiCity.js";
+import {
+  SELF_TRANSFER_DEFAULT_MIN_CONNECTION_MINUTES,
+  SELF_TRANSFER_MAX_OFFERS,
+  buildSelfTransferOffers,
+  findSelfTransferHubs,
+} from "./selfTransfer.js";
+import {
+  convertAmount,
+  convertOffers,
+  getPriceConversion,
+  type PriceConversion,
+} from "./currencyConversion.js";
+import {
+  buildShareUrl,
+  createShareId,
+  shareAttribution,
+  shareExpiry,
+} from "./sharedItinerary.js";
+import { isQuotaExceeded } from "@/lib/quota.js";
+import { prisma } from "@/lib/prisma.js";
+import type { Prisma } from "@prisma/client";
+import { createLogger } from "@/lib/logger.js";
 
-// Flight Offer BASE API
-const FLIGHT_OFFER_API = "https://test.api.amadeus.com/v2/shopping";
-const FLIGHT_DATES_API = "https://test.api.amadeus.com/v1/shopping";
+const log = createLogger("FlightOffers");
 
-export const flightOfferService = {
-  // Get Flight Offers
-  async getFlightOffers(queries: FlightOfferSearchQueryType) {
-    const token = await getAmadeusToken();
+// Normalize a supplier response, keeping raw offers for later re-pricing
+async function toSearchResult(
+  raw: SupplierFlightOffersResponse,
+  supplierName: string
+): Promise<SearchResult> {
+  const response = await normalizeFlightOffers(raw, supplierName);
+  const supplierOffers: SearchResult["supplierOffers"] = {};
 
-    if (!token) {
-      throw new HTTPException(502);
-    }
+  response.offers.forEach((offer) => {
+    const supplierOffer = raw.data.find((o) => o.id === offer.supplierOfferId);
+    if (supplierOffer) supplierOffers[offer.id] = supplierOffer;
+  });
 
-    // Build Query - only include required parameters
-    const searchQueries = new URLSearchParams({
-      originLocationCode: queries.originLocationCode,
-      destinationLocationCode: queries.destinationLocationCode,
-      departureDate: format(queries.departureDate, "yyyy-MM-dd"),
-      adults: queries.adults.toString(),
-      travelClass: queries.travelClass,
-      currencyCode: "USD",
-    });
+  return { response, supplierOffers };
+}
+
+// Fetch and normalize offers through the search cache
+async function loadFlightOffers(queries: FlightOfferSearchQueryType) {
+  const supplier = getFlightSupplier();
+  const key = buildSearchCacheKey(supplier.name, queries);
+
+  return searchCache.getOrLoad(key, async () => {
+    const raw = await supplier.searchFlightOffers(queries);
+    return toSearchResult(raw, supplier.name);
+  });
+}
+
+// Re-price a previously shown offer with its supplier and compare in targetCurrency
+async function repriceOffer(
+  previous: NormalizedFlightOffer,
+  supplierOffer: SupplierFlightOffer,
+  targetCurrency: string
+) {
+  const [searched] = await convertOffers([previous], targetCurrency);
+
+  const supplier = getFlightSupplier(previous.supplier);
+
+  // Out of quota: refuse rather than spend calls on confirmations
+  const quotaExceeded = await isQuotaExceeded(supplier.name).catch((error) => {
+    log.error("Pricing quota check failed", error);
+    return false;
+  });
+  if (quotaExceeded) {
+    throw new FlightSupplierError(
+      supplier.name,
+      "Price confirmation is temporarily unavailable",
+      { code: "QUOTA_EXCEEDED" }
+    );
+  }
+
+  const priced = await supplier.priceFlightOffer(supplierOffer);
+
+  let offer: NormalizedFlightOffer | null = null;
+  if (priced.available && priced.offer) {
+    const normalized = await normalizeFlightOffers(
+      { data: [priced.offer], dictionaries: priced.dictionaries },
+      supplier.name
+    );
+    [offer] = await convertOffers(
+      [{ ...normalized.offers[0], id: previous.id }],
+      targetCurrency
+    );
+  }
+
+  const priceDifference = offer
+    ? Math.round((offer.price.total - searched.price.total) * 100) / 100
+    : null;
+
+  return {
+    available: offer !== null,
+    availabilityChanged: offer === null,
+    priceChanged:
+      offer !== null &&
+      (priceDifference !== 0 || offer.price.currency !== searched.price.currency),
+    searchedPrice: {
+      currency: searched.price.currency,
+      total: searched.price.total,
+    },
+    confirmedPrice: offer
+      ? { currency: offer.price.currency, total: offer.price.total }
+      : null,
+    priceDifference,
+    offer,
+    pricedAt: new Date().toISOString(),
+  };
+}
+
+// Same flights sold through different searches share this signature
+const itinerarySignature = (offer: NormalizedFlightOffer) =>
+  offer.itineraries
+    .flatMap((itinerary) =>
+      itinerary.segments.map(
+        (segment) => `${segment.carrier.code}${segment.flightNumber}@${segment.departure.at}`
+      )
+    )
+    .join("|");
+
+// Search every origin/destination pair within radiusKm in parallel and merge the results
+// Duplicate itineraries keep the cheapest offer; each offer is labelled with the airports searched
+async function loadNearbyFlightOffers(
+  queries: FlightOfferSearchQueryType,
+  radiusKm: number
+): Promise<{ value: SearchResult; status: SearchCacheStatus }> {
+  const [origins, destinations] = await Promise.all([
+    findNearbyAirports(queries.originLocationCode, radiusKm),
+    findNearbyAirports(queries.destinationLocationCode, radiusKm),
+  ]);
+
+  const pairs = origins.flatMap((origin) =>
+    destinations
+      .filter((destination) => destination.iataCode !== origin.iataCode)
+      .map((destination) => ({ origin, destination }))
+  );
+
+  const settled = await Promise.allSettled(
+    pairs.map(({ origin, destination }) =>
+      loadFlightOffers({
+        ...queries,
+        originLocationCode: origin.iataCode,
+        destinationLocationCode: destination.iataCode,
+        includeNearby: undefined,
+      })
+    )
+  );
+
+  // Only fail when every search failed (requested pair's error first)
+  const loaded = settled.flatMap((outcome, index) =>
+    outcome.status === "fulfilled" ? [{ ...outcome.value, ...pairs[index] }] : []
+  );
+  if (loaded.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  const label = (airport: NearbyAirport, requested: string) => ({
+    iataCode: airport.iataCode,
+    requestedIataCode: requested.toUpperCase(),
+    distanceKm: airport.distanceKm,
+  });
+
+  const bySignature = new Map<
+    string,
+    { offer: NormalizedFlightOffer; supplierOffer: SearchResult["supplierOffers"][string] }
+  >();
+
+  for (const { value, origin, destination } of loaded) {
+    for (const offer of value.response.offers) {
+      const supplierOffer = value.supplierOffers[offer.id];
+      if (!supplierOffer) continue;
+
+      const labelled: NormalizedFlightOffer = {
+        ...offer,
+        // Supplier offer ids repeat across searches
+        id: `${offer.id}-${origin.iataCode}-${destination.iataCode}`,
+        searchedAirports: {
+          origin: label(origin, queries.originLocationCode),
+          destination: label(destination, queries.destinationLocationCode),
+        },
+      };
 
-    // Children optional
-    if (queries.children !== undefined && queries.children > 0) {
-      searchQueries.append("children", queries.children.toString());
+      const signature = itinerarySignature(offer);
+      const existing = bySignature.get(signature);
+      if (!existing || labelled.price.total < existing.offer.price.total) {
+        bySignature.set(signature, { offer: labelled, supplierOffer });
+      }
     }
+  }
 
-    // Return date (Only for round-trip)
-    if (queries.returnDate !== undefined && queries.returnDate !== null) {
-      searchQueries.append(
-        "returnDate",
-        format(queries.returnDate, "yyyy-MM-dd")
-      );
+  const offers = [...bySignature.values()].map((entry) => entry.offer);
+  const supplierOffers: SearchResult["supplierOffers"] = {};
+  bySignature.forEach(({ offer, supplierOffer }) => {
+    supplierOffers[offer.id] = supplierOffer;
+  });
+
+  const statuses = loaded.map((item) => item.status);
+  const status: SearchCacheStatus = statuses.includes("miss")
+    ? "miss"
+    : statuses.includes("stale")
+      ? "stale"
+      : "hit";
+
+  return {
+    value: {
+      response: { ...loaded[0].value.response, count: offers.length, offers },
+      supplierOffers,
+      nearbyAirports: { origin: origins, destination: destinations },
+    },
+    status,
+  };
+}
+
+// Add self-transfer offers through candidate hubs to a one-way search result
+// Onward legs are searched on the same and the next day so overnight connections are found
+async function addSelfTransferOffers(
+  queries: FlightOfferSearchQueryType,
+  result: SearchResult
+): Promise<SearchResult> {
+  if (queries.returnDate) return { ...result, selfTransferHubs: [] };
+
+  const origin = queries.originLocationCode.toUpperCase();
+  const destination = queries.destinationLocationCode.toUpperCase();
+  const hubs = await findSelfTransferHubs(origin, destination);
+  if (hubs.length === 0) return { ...result, selfTransferHubs: [] };
+
+  const legQueries = (from: string, to: string, departureDate: Date) => ({
+    ...queries,
+    originLocationCode: from,
+    destinationLocationCode: to,
+    departureDate,
+    includeNearby: undefined,
+    includeSelfTransfer: undefined,
+  });
+
+  const searches = hubs.flatMap((hub) => [
+    { hub, leg: 1, queries: legQueries(origin, hub, queries.departureDate) },
+    { hub, leg: 2, queries: legQueries(hub, destination, queries.departureDate) },
+    { hub, leg: 2, queries: legQueries(hub, destination, addDays(queries.departureDate, 1)) },
+  ]);
+
+  const loaded = await mapRateLimited(searches, (search) =>
+    loadFlightOffers(search.queries)
+  );
+
+  const offersFor = (hub: string, leg: number) =>
+    searches.flatMap((search, index) =>
+      search.hub === hub && search.leg === leg
+        ? (loaded[index]?.value.response.offers ?? [])
+        : []
+    );
+
+  const stitched = hubs
+    .flatMap((hub) =>
+      buildSelfTransferOffers(
+        hub,
+        offersFor(hub, 1),
+        offersFor(hub, 2),
+        queries.minConnectionMinutes ?? SELF_TRANSFER_DEFAULT_MIN_CONNECTION_MINUTES
+      )
+    )
+    .sort((a, b) => a.price.total - b.price.total)
+    .slice(0, SELF_TRANSFER_MAX_OFFERS);
+
+  const offers = [...result.response.offers, ...stitched];
+
+  return {
+    ...result,
+    response: { ...result.response, count: offers.length, offers },
+    selfTransferHubs: hubs,
+  };
+}
+
+// Where a flexible-date price came from
+type FlexiblePriceSource = "live" | "cached";
+
+export interface FlexibleDatePricesParams {
+  origin: string;
+  destination: string;
+  departureDate?: string; // Start date YYYY-MM-DD
+  endDate?: string; // End date YYYY-MM-DD (for range)
+  returnDate?: string; // Return date YYYY-MM-DD (search fallback, round-trip)
+  oneWay?: boolean;
+  viewBy?: "DATE" | "DURATION" | "WEEK";
+  fallback?: boolean; // Fan out flight-offers searches when flight-dates has no data
+  windowDays?: number; // ±days around departure/return for the fallback
+  adults?: number;
+  travelClass?: FlightOfferSearchQueryType["travelClass"];
+  currency?: string; // Convert prices to this currency
+}
+
+// Cheapest price per date pair from flight-offers searches around the requested dates
+// Cached searches are used first; only missing pairs are searched live, rate limited
+async function searchFlexibleDateWindow(
+  params: FlexibleDatePricesParams & { departureDate: string }
+) {
+  const supplier = getFlightSupplier();
+  const windowDays = Math.min(
+    Math.max(params.windowDays ?? FLEXIBLE_DEFAULT_WINDOW_DAYS, 0),
+    FLEXIBLE_MAX_WINDOW_DAYS
+  );
+  const pairs = buildFlexibleDatePairs(
+    params.departureDate,
+    params.oneWay ? undefined : params.returnDate,
+    windowDays
+  );
+
+  const toQueries = (pair: FlexibleDatePair): FlightOfferSearchQueryType => ({
+    originLocationCode: params.origin.toUpperCase(),
+    destinationLocationCode: params.destination.toUpperCase(),
+    departureDate: parseISO(pair.departureDate),
+    returnDate: pair.returnDate ? parseISO(pair.returnDate) : undefined,
+    adults: params.adults ?? 1,
+    children: undefined,
+    travelClass: params.travelClass ?? "ECONOMY",
+    currency: params.currency,
+  });
+
+  const found: { pair: FlexibleDatePair; result: SearchResult; source: FlexiblePriceSource }[] = [];
+  const missing: FlexibleDatePair[] = [];
+
+  for (const pair of pairs) {
+    const cached = await searchCache.peek<SearchResult>(
+      buildSearchCacheKey(supplier.name, toQueries(pair))
+    );
+    if (cached) {
+      found.push({ pair, result: cached.value, source: "cached" });
+    } else {
+      missing.push(pair);
     }
+  }
+
+  // Out of quota: answer from cache only
+  const quotaExceeded =
+    missing.length > 0 &&
+    (await isQuotaExceeded(supplier.name).catch((error) => {
+      log.error("Flexible dates quota check failed", error);
+      return false;
+    }));
+  if (!quotaExceeded) {
+    const loaded = await mapRateLimited(missing, (pair) =>
+      loadFlightOffers(toQueries(pair))
+    );
+    loaded.forEach((item, index) => {
+      if (!item) return;
+      found.push({
+        pair: missing[index],
+        result: item.value,
+        source: item.status === "miss" ? "live" : "cached",
+      });
+    });
+  }
+
+  const dates: SupplierFlightDatesResponse["data"] = [];
+  const sources: Record<string, FlexiblePriceSource> = {};
+  let currency: string | undefined;
 
-    const url = `${FLIGHT_OFFER_API}/flight-offers?${searchQueries.toString()}`;
+  for (const { pair, result, source } of found) {
+    const { offers } = result.response;
+    if (offers.length === 0) continue;
 
-    const response = await fetch(url, {
-      method: "GET",
-      headers: { Authorization: `Bearer ${token}` },
+    currency ??= offers[0].price.currency;
+
+    const cheapest = Math.min(...offers.map((o) => o.price.total));
+    dates.push({
+      type: "flight-date",
+      origin: params.origin,
+      destination: params.destination,
+      departureDate: pair.departureDate,
+      returnDate: pair.returnDate,
+      price: { total: cheapest.toString() },
     });
+    sources[flexibleDateKey(pair)] = source;
+  }
 
-    if (!response.ok) {
-      throw new HTTPException(500, {
-        message: `Failed to search flights: ${response.statusText}`,
-      });
+  dates.sort((a, b) => flexibleDateKey(a).localeCompare(flexibleDateKey(b)));
+
+  return {
+    response: { data: dates, meta: { currency } } as SupplierFlightDatesResponse,
+    sources,
+    windowDays,
+    searched: pairs.length,
+    skipped: quotaExceeded ? missing.length : 0,
+    quotaExceeded,
+  };
+}
+
+interface InspirationDestination {
+  destination: string;
+  departureDate: string;
+  returnDate: string | null;
+  price: number;
+  currency: string;
+  searches?: number; // Popular-route fallback only
+  // Set when the price was converted to the requested currency
+  originalPrice?: number;
+  originalCurrency?: string;
+}
+
+// Inspiration fallback: price the most searched routes from the origin via flight-offers searches
+// Out of quota, only routes already in the search cache are returned
+async function searchPopularRoutes(
+  params: FlightInspirationQueryType,
+  departureDate: string
+): Promise<InspirationDestination[]> {
+  const supplier = getFlightSupplier();
+  const popular = await getPopularDestinations(params.origin);
+  if (popular.length === 0) return [];
+
+  const returnDate = params.oneWay
+    ? undefined
+    : format(addDays(parseISO(departureDate), params.duration), "yyyy-MM-dd");
+
+  const toQueries = (destination: string): FlightOfferSearchQueryType => ({
+    originLocationCode: params.origin,
+    destinationLocationCode: destination,
+    departureDate: parseISO(departureDate),
+    returnDate: returnDate ? parseISO(returnDate) : undefined,
+    adults: 1,
+    children: undefined,
+    travelClass: "ECONOMY",
+    currency: params.currency,
+  });
+
+  const quotaExceeded = await isQuotaExceeded(supplier.name).catch((error) => {
+    log.error("Inspiration quota check failed", error);
+    return false;
+  });
+
+  const results = await mapRateLimited(popular, async ({ destination }) => {
+    const queries = toQueries(destination);
+    if (quotaExceeded) {
+      const cached = await searchCache.peek<SearchResult>(
+        buildSearchCacheKey(supplier.name, queries)
+      );
+      return cached?.value ?? null;
     }
+    return (await loadFlightOffers(queries)).value;
+  });
+
+  return popular.flatMap(({ destination, searches }, index) => {
+    const offers = results[index]?.response.offers ?? [];
+    if (offers.length === 0) return [];
 
-    return await response.json();
+    const cheapest = offers.reduce((best, offer) =>
+      offer.price.total < best.price.total ? offer : best
+    );
+    return [
+      {
+        destination,
+        departureDate,
+        returnDate: returnDate ?? null,
+        price: cheapest.price.total,
+        currency: cheapest.price.currency,
+        searches,
+      },
+    ];
+  });
+}
+
+// Signed GET /go/:token link for an offer; the token carries the offer context,
+// so the click-out is recorded from server data
+async function signPartnerDeepLink(
+  offer: NormalizedFlightOffer,
+  {
+    partnerCode,
+    searchId,
+    offerId,
+    sessionId,
+    utm,
+  }: {
+    partnerCode: string;
+    searchId: string;
+    offerId: string;
+    sessionId?: string;
+    utm?: ClickoutContext["utm"];
+  }
+) {
+  const partner = await prisma.partner.findUnique({ where: { code: partnerCode } });
+  if (!partner?.active) {
+    throw new HTTPException(404, { message: "Partner not found" });
+  }
+
+  const segments = offer.itineraries.flatMap((itinerary) => itinerary.segments);
+  const travelerCount = (...types: string[]) =>
+    offer.price.travelers.filter((t) => types.includes(t.travelerType)).length;
+  const route = describeOfferRoute(offer);
+
+  const { token, expiresAt } = signClickoutToken({
+    partner: partner.code,
+    searchId,
+    offerId,
+    ...route,
+    departureDate: offer.itineraries[0].departureAt.slice(0, 10),
+    returnDate:
+      route.tripType === "round-trip"
+        ? offer.itineraries[1].departureAt.slice(0, 10)
+        : undefined,
+    adults: travelerCount("ADULT"),
+    children: travelerCount("CHILD", "SEATED_INFANT"),
+    infants: travelerCount("HELD_INFANT"),
+    cabin: segments[0]?.cabin ?? undefined,
+    carrier: offer.validatingCarrier?.code ?? segments[0]?.carrier.code,
+    flightNumbers: segments.map((s) => s.flightNumber),
+    price: offer.price.total,
+    currency: offer.price.currency,
+    sessionId,
+    utm,
+  });
+
+  const path = `/api/go/${token}`;
+  return {
+    partner: { code: partner.code, name: partner.name },
+    url: process.env.BETTER_AUTH_URL ? new URL(path, process.env.BETTER_AUTH_URL).toString() : path,
+    expiresAt,
+  };
+}
+
+export const flightOfferService = {
+  // Get Flight Offers (normalized, cached)
+  async getFlightOffers(queries: FlightOfferSearchQueryType) {
+    const { value } = await loadFlightOffers(queries);
+    if (!queries.currency) return value.response;
+
+    const offers = await convertOffers(value.response.offers, queries.currency);
+    return { ...value.response, offers };
   },
 
-  // Get Multi-City Flight Offers
-  async getMultiCityFlightOffers(requestData: FlightMulticityRequestType) {
-    const token = await getAmadeusToken();
+  // Get a filtered, sorted page of flight offers
+  // The first page goes through the search cache; later pages are served from the stored result set
+  async searchFlightOffers(
+    queries: FlightOfferSearchQueryType,
+    filters: FlightOfferFilterQueryType
+  ) {
+    const queryKey = [
+      buildSearchCacheKey(getFlightSupplier().name, queries),
+      queries.includeNearby ? `nearby:${queries.includeNearby}` : null,
+      queries.includeSelfTransfer
+        ? `self-transfer:${queries.minConnectionMinutes ?? SELF_TRANSFER_DEFAULT_MIN_CONNECTION_MINUTES}`
+        : null,
+    ]
+      .filter(Boolean)
+      .join(":");
+    let searchId: string;
+    let offset = 0;
+    let result: SearchResult;
+    let cacheStatus: SearchCacheStatus | "page" = "page";
 
-    if (!token) {
-      throw new HTTPException(502);
+    if (filters.cursor) {
+      const cursor = decodeCursor(filters.cursor);
+      if (!cursor) {
+        throw new HTTPException(400, { message: "Invalid cursor" });
+      }
+
+      const stored = searchResultStore.get(cursor.searchId);
+      if (!stored) {
+        throw new HTTPException(410, {
+          message: "Search results expired, please search again",
+        });
+      }
+      if (stored.queryKey !== queryKey) {
+        throw new HTTPException(400, {
+          message: "Cursor does not match the search parameters",
+        });
+      }
+
+      searchId = cursor.searchId;
+      offset = cursor.offset;
+      result = stored.result;
+    } else {
+      const loaded = queries.includeNearby
+        ? await loadNearbyFlightOffers(queries, queries.includeNearby)
+        : await loadFlightOffers(queries);
+      result = queries.includeSelfTransfer
+        ? await addSelfTransferOffers(queries, loaded.value)
+        : loaded.value;
+      // Stored converted so filters, pages and re-pricing share the requested currency
+      if (queries.currency) {
+        const offers = await convertOffers(result.response.offers, queries.currency);
+        result = { ...result, response: { ...result.response, offers } };
+      }
+      cacheStatus = loaded.status;
+      searchId = searchResultStore.save(queryKey, result);
     }
 
-    const url = `${FLIGHT_OFFER_API}/flight-offers`;
+    const { response } = result;
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json",
+    const matching = sortOffers(
+      filterOffers(response.offers, filters),
+      filters.sortBy
+    );
+    const offers = matching.slice(offset, offset + filters.limit);
+    const nextOffset = offset + offers.length;
+
+    return {
+      version: response.version,
+      supplier: response.supplier,
+      searchId,
+      cacheStatus,
+      ...(queries.currency && { currency: queries.currency }),
+      count: matching.length,
+      totalCount: response.count,
+      ...(result.nearbyAirports && { nearbyAirports: result.nearbyAirports }),
+      ...(result.selfTransferHubs && { selfTransferHubs: result.selfTransferHubs }),
+      offers,
+      pagination: {
+        limit: filters.limit,
+        offset,
+        hasMore: nextOffset < matching.length,
+        nextCursor:
+          nextOffset < matching.length ? encodeCursor(searchId, nextOffset) : null,
       },
-      body: JSON.stringify(requestData),
-    });
+    };
+  },
+
+  // Get Multi-City Flight Offers (normalized)
+  // Open-jaw legs are checked against maxSurfaceGapKm; per-leg limits are enforced on the results
+  async getMultiCityFlightOffers(requestData: FlightMulticityRequestType) {
+    const supplier = getFlightSupplier();
+    const surfaceSegments =
+      requestData.mode === "open-jaw" ? await validateSurfaceGaps(requestData) : [];
+
+    const raw = await supplier.searchMultiCityFlightOffers(
+      toSupplierMultiCityRequest(requestData)
+    );
+    const result = await toSearchResult(raw, supplier.name);
+
+    const offers = await convertOffers(
+      filterMultiCityOffers(result.response.offers, requestData),
+      requestData.currency ?? requestData.currencyCode
+    );
+    result.response = { ...result.response, count: offers.length, offers };
+
+    // Stored so offers can be re-priced by searchId
+    const searchId = searchResultStore.save(
+      `multi-city:${supplier.name}:${JSON.stringify(requestData)}`,
+      result
+    );
+
+    return { ...result.response, searchId, surfaceSegments };
+  },
 
-    if (!response.ok) {
-      throw new HTTPException(500, {
-        message: `Failed to search multi-city flights: ${response.statusText}`,
+  // Re-price an offer from a previous search and report what changed
+  // Prices are compared in the requested currency (default: the one the offer was searched in)
+  async priceFlightOffer({ searchId, offerId, currency }: FlightOfferPriceRequestType) {
+    const stored = searchResultStore.get(searchId);
+    if (!stored) {
+      throw new HTTPException(410, {
+        message: "Search results expired, please search again",
       });
     }
 
-    return await response.json();
+    const previous = stored.result.response.offers.find((o) => o.id === offerId);
+    if (previous?.selfTransfer) {
+      throw new HTTPException(400, {
+        message: "Self-transfer offers are separate tickets and cannot be priced together",
+      });
+    }
+    const supplierOffer = stored.result.supplierOffers[offerId];
+    if (!previous || !supplierOffer) {
+      throw new HTTPException(404, { message: "Offer not found in search results" });
+    }
+
+    const pricing = await repriceOffer(
+      previous,
+      supplierOffer,
+      currency ?? previous.price.currency
+    );
+
+    return {
+      version: FLIGHT_OFFER_SCHEMA_VERSION,
+      searchId,
+      offerId,
+      ...pricing,
+    };
   },
 
-  // Get Cheapest Flight Dates (for flexible dates calendar) - uses cached data, limited routes in test
-  async getCheapestFlightDates(params: {
-    origin: string;
-    destination: string;
-    departureDate?: string;
-    oneWay?: boolean;
-    duration?: string;
-    nonStop?: boolean;
-    viewBy?: "DATE" | "DESTINATION" | "DURATION" | "WEEK";
-  }) {
-    const token = await getAmadeusToken();
-
-    if (!token) {
-      throw new HTTPException(502);
+  // Snapshot an offer from a previous search under a short share id
+  async shareFlightOffer(
+    { searchId, offerId, searchParams, expiresInDays }: FlightOfferShareRequestType,
+    userId?: string
+  ) {
+    const stored = searchResultStore.get(searchId);
+    if (!stored) {
+      throw new HTTPException(410, {
+        message: "Search results expired, please search again",
+      });
     }
 
-    // Build Query
-    const searchQueries = new URLSearchParams({
-      origin: params.origin,
-      destination: params.destination,
-    });
+    const offer = stored.result.response.offers.find((o) => o.id === offerId);
+    if (!offer) {
+      throw new HTTPException(404, { message: "Offer not found in search results" });
+    }
 
-    // Optional parameters
-    if (params.departureDate) {
-      searchQueries.append("departureDate", params.departureDate);
+    const expiresAt = shareExpiry(offer, expiresInDays);
+    if (expiresAt <= new Date()) {
+      throw new HTTPException(400, { message: "This offer has already departed" });
     }
-    if (params.oneWay !== undefined) {
-      searchQueries.append("oneWay", params.oneWay.toString());
+
+    const shared = await prisma.sharedItinerary.create({
+      data: {
+        id: createShareId(),
+        userId,
+        supplier: offer.supplier,
+        offer: offer as unknown as Prisma.InputJsonValue,
+        supplierOffer: offer.selfTransfer
+          ? undefined
+          : (stored.result.supplierOffers[offerId] as unknown as Prisma.InputJsonValue),
+        searchParams: searchParams as Prisma.InputJsonValue | undefined,
+        ...describeOfferRoute(offer),
+        price: offer.price.total,
+        currency: offer.price.currency,
+        expiresAt,
+      },
+    });
+
+    return {
+      id: shared.id,
+      url: buildShareUrl(shared.id),
+      expiresAt: shared.expiresAt,
+      attribution: shareAttribution(shared.id),
+    };
+  },
+
+  // Open a shared itinerary (counts as a view), optionally re-pricing it
+  // Prices are shown in the requested currency (default: the one it was shared in)
+  // Re-pricing refreshes an open view, so it is not counted again
+  async getSharedFlightOffer(
+    shareId: string,
+    { reprice, currency }: { reprice?: boolean; currency?: string } = {}
+  ) {
+    const shared = await prisma.sharedItinerary.findUnique({ where: { id: shareId } });
+    if (!shared) {
+      throw new HTTPException(404, { message: "Shared itinerary not found" });
     }
-    if (params.duration) {
-      searchQueries.append("duration", params.duration);
+    if (shared.expiresAt <= new Date()) {
+      throw new HTTPException(410, { message: "This shared itinerary has expired" });
     }
-    if (params.nonStop !== undefined) {
-      searchQueries.append("nonStop", params.nonStop.toString());
+
+    if (!reprice) {
+      await prisma.sharedItinerary.update({
+        where: { id: shareId },
+        data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+      });
     }
-    if (params.viewBy) {
-      searchQueries.append("viewBy", params.viewBy);
+
+    const snapshot = shared.offer as unknown as NormalizedFlightOffer;
+    const targetCurrency = currency ?? shared.currency;
+    const [offer] = await convertOffers([snapshot], targetCurrency);
+
+    let pricing: Awaited<ReturnType<typeof repriceOffer>> | null = null;
+    if (reprice) {
+      if (!shared.supplierOffer) {
+        throw new HTTPException(400, {
+          message: "Self-transfer offers are separate tickets and cannot be priced together",
+        });
+      }
+      pricing = await repriceOffer(
+        snapshot,
+        shared.supplierOffer as unknown as SupplierFlightOffer,
+        targetCurrency
+      );
     }
 
-    const url = `${FLIGHT_DATES_API}/flight-dates?${searchQueries.toString()}`;
+    return {
+      version: FLIGHT_OFFER_SCHEMA_VERSION,
+      id: shared.id,
+      tripType: shared.tripType,
+      origin: shared.origin,
+      destination: shared.destination,
+      offer,
+      searchParams: shared.searchParams,
+      pricing,
+      sharedAt: shared.createdAt,
+      expiresAt: shared.expiresAt,
+      attribution: shareAttribution(shared.id),
+    };
+  },
+
+  // Signed GET /go/:token link to book a shared itinerary with a partner
+  // Attributed to the share (utmSource shared-itinerary), counted as its click when followed
+  async createSharedDeepLink(shareId: string, partnerCode: string, sessionId?: string) {
+    const shared = await prisma.sharedItinerary.findUnique({ where: { id: shareId } });
+    if (!shared) {
+      throw new HTTPException(404, { message: "Shared itinerary not found" });
+    }
+    if (shared.expiresAt <= new Date()) {
+      throw new HTTPException(410, { message: "This shared itinerary has expired" });
+    }
 
-    const response = await fetch(url, {
-      method: "GET",
-      headers: { Authorization: `Bearer ${token}` },
+    const offer = shared.offer as unknown as NormalizedFlightOffer;
+    return signPartnerDeepLink(offer, {
+      partnerCode,
+      searchId: `share:${shared.id}`,
+      offerId: offer.id,
+      sessionId,
+      utm: shareAttribution(shared.id),
     });
+  },
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Amadeus flight-dates error:", errorText);
-      throw new HTTPException(500, {
-        message: `Failed to get cheapest flight dates: ${response.statusText}`,
+  // Signed GET /go/:token link to book an offer from a previous search with a partner
+  // The token carries the offer context, so the click-out is recorded from server data
+  async createPartnerDeepLink(
+    { searchId, offerId, partner: partnerCode, ...utm }: FlightOfferDeepLinkRequestType,
+    sessionId?: string
+  ) {
+    const stored = searchResultStore.get(searchId);
+    if (!stored) {
+      throw new HTTPException(410, {
+        message: "Search results expired, please search again",
       });
     }
 
-    return await response.json();
+    const offer = stored.result.response.offers.find((o) => o.id === offerId);
+    if (!offer) {
+      throw new HTTPException(404, { message: "Offer not found in search results" });
+    }
+
+    return signPartnerDeepLink(offer, { partnerCode, searchId, offerId, sessionId, utm });
+  },
+
+  // Get Cheapest Flight Dates (for flexible dates calendar) - uses cached data, limited routes in test
+  // With a currency, prices are converted and the supplier totals kept as originalTotal
+  async getCheapestFlightDates(params: CheapestDatesParams, currency?: string) {
+    const response = await getFlightSupplier().getCheapestDates(params);
+    const conversion = await getPriceConversion(response.meta?.currency ?? "USD", currency);
+    if (!conversion) return response;
+
+    return {
+      ...response,
+      data: response.data.map((item) => ({
+        ...item,
+        price: {
+          ...item.price,
+          total: convertAmount(parseFloat(item.price.total), conversion).toFixed(2),
+          originalTotal: item.price.total,
+        },
+      })),
+      meta: { ...response.meta, ...conversion },
+    };
   },
 
   // Get prices for a date range using Flight Cheapest Date Search API (single call, efficient)
-  // Falls back to Flight Offers Search if route not in cache
-  async getFlexibleDatePrices(params: {
-    origin: string;
-    destination: string;
-    departureDate?: string; // Start date YYYY-MM-DD
-    endDate?: string; // End date YYYY-MM-DD (for range)
-    oneWay?: boolean;
-    viewBy?: "DATE" | "DURATION" | "WEEK";
-  }) {
-    const token = await getAmadeusToken();
-
-    if (!token) {
-      throw new HTTPException(502);
-    }
+  // Falls back to flight-offers searches across ±windowDays when the route is not in the flight-dates cache
+  async getFlexibleDatePrices(params: FlexibleDatePricesParams) {
+    const supplier = getFlightSupplier();
 
     // Build date range for Flight Cheapest Date Search API
     // Format: departureDate=2025-12-01,2025-12-31 (comma-separated range)
@@ -164,89 +905,234 @@ export const flightOfferService = {
       dateRange = `${params.departureDate},${params.endDate}`;
     }
 
-    // Try Flight Cheapest Date Search API first (single call, cached data)
-    const searchQueries = new URLSearchParams({
-      origin: params.origin,
-      destination: params.destination,
-    });
-
-    if (dateRange) {
-      searchQueries.append("departureDate", dateRange);
-    }
-    if (params.oneWay !== undefined) {
-      searchQueries.append("oneWay", params.oneWay.toString());
-    }
-    // Use DATE view to get prices per day
-    searchQueries.append("viewBy", params.viewBy || "DATE");
-
-    const url = `${FLIGHT_DATES_API}/flight-dates?${searchQueries.toString()}`;
+    let flightDatesError: string | undefined;
 
     try {
-      const response = await fetch(url, {
-        method: "GET",
-        headers: { Authorization: `Bearer ${token}` },
+      const data = await supplier.getFlexiblePrices({
+        origin: params.origin,
+        destination: params.destination,
+        departureDate: dateRange || undefined,
+        oneWay: params.oneWay,
+        // Use DATE view to get prices per day
+        viewBy: params.viewBy || "DATE",
       });
 
-      if (response.ok) {
-        const data = await response.json();
-        return this.transformFlightDatesResponse(data, params.origin, params.destination);
+      if (data.data?.length || params.fallback === false || !params.departureDate) {
+        return this.transformFlightDatesResponse(data, params.origin, params.destination, {
+          conversion: await getPriceConversion(data.meta?.currency ?? "USD", params.currency),
+        });
       }
-
-      // If error, return empty data (no fallback)
-      const errorText = await response.text();
-      console.log(`Flight Cheapest Date Search failed (${response.status}): ${errorText}`);
-      return {
-        data: {},
-        meta: {
-          origin: params.origin,
-          destination: params.destination,
-          source: "flight-dates-api",
-          error: `Route not in cache (${response.status})`,
-        },
-      };
     } catch (error) {
-      console.error("Error fetching flight dates:", error);
-      return {
-        data: {},
-        meta: {
+      if (!(error instanceof FlightSupplierError)) {
+        log.error("Error fetching flight dates", error);
+        return {
+          data: {},
+          meta: {
+            origin: params.origin,
+            destination: params.destination,
+            error: String(error),
+          },
+        };
+      }
+
+      // If supplier rejected the route, return empty data unless the search fallback can run
+      if (params.fallback === false || !params.departureDate) {
+        return {
+          data: {},
+          meta: {
+            origin: params.origin,
+            destination: params.destination,
+            source: "flight-dates-api",
+            error: error.message,
+          },
+        };
+      }
+
+      flightDatesError = error.message;
+    }
+
+    const window = await searchFlexibleDateWindow({
+      ...params,
+      departureDate: params.departureDate,
+    });
+    const result = this.transformFlightDatesResponse(
+      window.response,
+      params.origin,
+      params.destination,
+      {
+        source: "flight-offers-search",
+        sources: window.sources,
+        conversion: await getPriceConversion(
+          window.response.meta?.currency ?? "USD",
+          params.currency
+        ),
+      }
+    );
+
+    return {
+      data: result.data,
+      meta: {
+        ...result.meta,
+        windowDays: window.windowDays,
+        searched: window.searched,
+        skipped: window.skipped,
+        quotaExceeded: window.quotaExceeded,
+        flightDatesError,
+      },
+    };
+  },
+
+  // Cheapest destinations from an origin within a date range and budget
+  // Uses the supplier's inspiration search, falling back to popular routes from searchEvent data
+  async getInspiration(params: FlightInspirationQueryType) {
+    const supplier = getFlightSupplier();
+
+    // Default window: tomorrow + 30 days
+    const departureDate =
+      params.departureDate ?? format(addDays(new Date(), 1), "yyyy-MM-dd");
+    const endDate =
+      params.endDate ??
+      (params.departureDate
+        ? undefined
+        : format(addDays(new Date(), 30), "yyyy-MM-dd"));
+
+    let source = "flight-destinations-api";
+    let supplierError: string | undefined;
+    let destinations: InspirationDestination[] = [];
+    let locations: NonNullable<
+      SupplierFlightDestinationsResponse["dictionaries"]
+    >["locations"] = {};
+
+    if (supplier.getInspiration) {
+      try {
+        const response = await supplier.getInspiration({
           origin: params.origin,
-          destination: params.destination,
-          error: String(error),
-        },
-      };
+          departureDate: endDate ? `${departureDate},${endDate}` : departureDate,
+          oneWay: params.oneWay,
+          duration: params.oneWay ? undefined : params.duration.toString(),
+          nonStop: params.nonStop,
+          // The supplier reads maxPrice in its own currency; converted prices are filtered below
+          maxPrice: params.currency ? undefined : params.maxPrice,
+        });
+
+        const currency = response.meta?.currency ?? "USD";
+        locations = response.dictionaries?.locations ?? {};
+        destinations = response.data.map((item) => ({
+          destination: item.destination,
+          departureDate: item.departureDate,
+          returnDate: item.returnDate ?? null,
+          price: parseFloat(item.price.total),
+          currency,
+        }));
+      } catch (error) {
+        // Origin not covered by the supplier's cached data - use popular routes
+        if (!(error instanceof FlightSupplierError)) throw error;
+        supplierError = error.message;
+      }
+    }
+
+    if (destinations.length === 0) {
+      source = "popular-routes";
+      destinations = await searchPopularRoutes(params, departureDate);
+    }
+
+    let ratesTimestamp: string | null = null;
+    if (params.currency) {
+      const converted: InspirationDestination[] = [];
+      for (const d of destinations) {
+        const conversion = await getPriceConversion(d.currency, params.currency);
+        if (!conversion) {
+          converted.push(d);
+          continue;
+        }
+        ratesTimestamp = conversion.ratesTimestamp;
+        converted.push({
+          ...d,
+          price: convertAmount(d.price, conversion),
+          currency: conversion.currency,
+          originalPrice: d.price,
+          originalCurrency: d.currency,
+        });
+      }
+      destinations = converted;
     }
+
+    const matching = destinations
+      .filter((d) => params.maxPrice === undefined || d.price <= params.maxPrice)
+      .sort((a, b) => a.price - b.price)
+      .slice(0, params.limit);
+
+    const metadata = await getDestinationMetadata(
+      matching.map((d) => d.destination),
+      locations
+    );
+
+    return {
+      origin: params.origin,
+      departureDate,
+      endDate: endDate ?? null,
+      maxPrice: params.maxPrice ?? null,
+      oneWay: params.oneWay,
+      source,
+      supplierError,
+      ...(params.currency && { currency: params.currency, ratesTimestamp }),
+      count: matching.length,
+      destinations: matching.map((d) => ({
+        ...d,
+        price: Math.round(d.price * 100) / 100,
+        ...metadata.get(d.destination),
+      })),
+    };
   },
 
   // Transform Flight Cheapest Date Search API response to frontend format
+  // Search fallback results pass per-value sources and are keyed by date pair (departure_return)
+  // Converted prices keep the supplier price as originalPrice
   transformFlightDatesResponse(
-    apiResponse: {
-      data: Array<{
-        type: string;
-        origin: string;
-        destination: string;
-        departureDate: string;
-        returnDate?: string;
-        price: { total: string };
-      }>;
-    },
+    apiResponse: SupplierFlightDatesResponse,
     origin: string,
-    destination: string
+    destination: string,
+    options: {
+      source?: string;
+      sources?: Record<string, FlexiblePriceSource>;
+      conversion?: PriceConversion | null;
+    } = {}
   ) {
-    const priceData: Record<string, { price: number; isCheapest: boolean; isRecommended: boolean }> = {};
+    const source = options.source ?? "flight-dates-api";
+    const { conversion } = options;
+    const currency = conversion?.currency ?? apiResponse.meta?.currency;
+    const priceData: Record<
+      string,
+      {
+        price: number;
+        originalPrice?: number;
+        isCheapest: boolean;
+        isRecommended: boolean;
+        departureDate?: string;
+        returnDate?: string;
+        source?: FlexiblePriceSource;
+      }
+    > = {};
     const dates: string[] = [];
 
     if (!apiResponse.data || apiResponse.data.length === 0) {
       return {
         data: priceData,
-        meta: { dates, origin, destination, source: "flight-dates-api" },
+        meta: { dates, origin, destination, source, currency },
       };
     }
 
     // Extract prices from response
-    const pricesWithDates = apiResponse.data.map((item) => ({
-      date: item.departureDate,
-      price: parseFloat(item.price.total),
-    }));
+    const pricesWithDates = apiResponse.data.map((item) => {
+      const price = parseFloat(item.price.total);
+      return {
+        date: options.sources ? flexibleDateKey(item) : item.departureDate,
+        departureDate: item.departureDate,
+        returnDate: item.returnDate,
+        price: conversion ? convertAmount(price, conversion) : price,
+        originalPrice: conversion ? price : undefined,
+      };
+    });
 
     // Calculate thresholds for cheapest/recommended
     const validPrices = pricesWithDates.map((p) => p.price);
@@ -257,7 +1143,7 @@ export const flightOfferService = {
     const recommendedThreshold = minPrice + priceRange * 0.35;
 
     // Build price data object
-    pricesWithDates.forEach(({ date, price }) => {
+    pricesWithDates.forEach(({ date, departureDate, returnDate, price, originalPrice }) => {
       dates.push(date);
       const isCheapest = price <= cheapestThreshold;
       const isRecommended = !isCheapest && price <= recommendedThreshold;
@@ -267,6 +1153,16 @@ export const flightOfferService = {
         isCheapest,
         isRecommended,
       };
+
+      if (originalPrice !== undefined) {
+        priceData[date].originalPrice = Math.round(originalPrice);
+      }
+
+      if (options.sources) {
+        priceData[date].departureDate = departureDate;
+        priceData[date].returnDate = returnDate;
+        priceData[date].source = options.sources[date];
+      }
     });
 
     return {
@@ -275,8 +1171,14 @@ export const flightOfferService = {
         dates,
         origin,
         destination,
-        source: "flight-dates-api",
+        source,
         count: dates.length,
+        currency,
+        ...(conversion && {
+          originalCurrency: conversion.originalCurrency,
+          rate: conversion.rate,
+          ratesTimestamp: conversion.ratesTimestamp,
+        }),
       },
     };
   },
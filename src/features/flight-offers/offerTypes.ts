@@ -0,0 +1,145 @@
+// Normalized flight offer model returned by /flight-offers.
+// Bump FLIGHT_OFFER_SCHEMA_VERSION on any breaking change to these shapes.
+
+export const FLIGHT_OFFER_SCHEMA_VERSION = 1;
+
+export interface NormalizedAirport {
+  iataCode: string;
+  name: string | null;
+  cityName: string | null;
+  countryCode: string | null;
+}
+
+export interface NormalizedCarrier {
+  code: string;
+  name: string;
+}
+
+export interface NormalizedFlightPoint {
+  airport: NormalizedAirport;
+  terminal: string | null;
+  at: string; // Local date-time at the airport
+}
+
+export interface NormalizedBaggage {
+  checkedBags: number | null;
+  weight: number | null;
+  weightUnit: string | null;
+}
+
+export interface NormalizedSegment {
+  id: string;
+  departure: NormalizedFlightPoint;
+  arrival: NormalizedFlightPoint;
+  carrier: NormalizedCarrier;
+  operatingCarrier: NormalizedCarrier | null;
+  flightNumber: string;
+  aircraft: { code: string; name: string | null } | null;
+  durationMinutes: number;
+  cabin: string | null;
+  bookingClass: string | null;
+  fareBasis: string | null;
+  brandedFare: string | null;
+  baggage: NormalizedBaggage;
+}
+
+export interface NormalizedLayover {
+  airport: NormalizedAirport;
+  durationMinutes: number;
+  // True when the connection requires moving to a different airport
+  changeOfAirport: boolean;
+}
+
+export interface NormalizedItinerary {
+  origin: NormalizedAirport;
+  destination: NormalizedAirport;
+  departureAt: string;
+  arrivalAt: string;
+  durationMinutes: number;
+  stops: number;
+  segments: NormalizedSegment[];
+  layovers: NormalizedLayover[];
+}
+
+export interface NormalizedTravelerFare {
+  travelerId: string;
+  travelerType: string;
+  total: number;
+  base: number;
+}
+
+// Supplier amounts behind a price converted server-side (currency param)
+export interface NormalizedFareConversion {
+  originalCurrency: string;
+  originalTotal: number;
+  originalBase: number;
+  rate: number; // originalCurrency -> currency
+  ratesTimestamp: string; // Open Exchange Rates timestamp of the rate used
+}
+
+export interface NormalizedFare {
+  currency: string;
+  total: number;
+  base: number;
+  travelers: NormalizedTravelerFare[];
+  // Only set when the supplier priced the offer in another currency
+  conversion?: NormalizedFareConversion;
+}
+
+// Airport actually searched for a nearby-airport search, and its distance from the requested one
+export interface NormalizedSearchedAirport {
+  iataCode: string;
+  requestedIataCode: string;
+  distanceKm: number;
+}
+
+export type SelfTransferWarningCode =
+  | "UNPROTECTED_CONNECTION"
+  | "BAGGAGE_RECHECK"
+  | "SHORT_CONNECTION"
+  | "OVERNIGHT_CONNECTION"
+  | "TRANSIT_ENTRY";
+
+// Two separate one-way tickets connected by the traveller at a hub
+export interface NormalizedSelfTransfer {
+  hub: string;
+  connectionMinutes: number;
+  // The separate one-way tickets, in travel order
+  tickets: {
+    supplierOfferId: string;
+    origin: string;
+    destination: string;
+    departureAt: string;
+    total: number;
+  }[];
+  warnings: { code: SelfTransferWarningCode; message: string }[];
+}
+
+export interface NormalizedFlightOffer {
+  id: string;
+  supplier: string;
+  supplierOfferId: string;
+  validatingCarrier: NormalizedCarrier | null;
+  itineraries: NormalizedItinerary[];
+  price: NormalizedFare;
+  totalDurationMinutes: number;
+  stops: number;
+  // Lowest checked-bag allowance across all segments
+  baggage: NormalizedBaggage;
+  seatsAvailable: number | null;
+  lastTicketingDate: string | null;
+  // Only set when the search included nearby airports (includeNearby)
+  searchedAirports?: {
+    origin: NormalizedSearchedAirport;
+    destination: NormalizedSearchedAirport;
+  };
+  // Only set for self-transfer offers (includeSelfTransfer)
+  selfTransfer?: NormalizedSelfTransfer;
+}
+
+export interface NormalizedFlightOffersResponse {
+  version: typeof FLIGHT_OFFER_SCHEMA_VERSION;
+  supplier: string;
+  count: number;
+  offers: NormalizedFlightOffer[];
+}
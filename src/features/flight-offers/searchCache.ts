@@ -0,0 +1,288 @@
+import { format } from "date-fns";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma.js";
+import type { FlightOfferSearchQueryType } from "@/schema/flightSearchSchema.js";
+import { FLIGHT_OFFER_SCHEMA_VERSION } from "./offerTypes.js";
+import { createLogger } from "@/lib/logger.js";
+
+const log = createLogger("SearchCache");
+
+// Cache configuration (seconds)
+// SEARCH_CACHE_TTL_SECONDS   - entries are fresh for this long
+// SEARCH_CACHE_STALE_SECONDS - after that, served stale while revalidating for this long
+const TTL_MS = Number(process.env.SEARCH_CACHE_TTL_SECONDS || 600) * 1000;
+const STALE_MS = Number(process.env.SEARCH_CACHE_STALE_SECONDS || 1800) * 1000;
+const MAX_MEMORY_ENTRIES = 1000;
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+interface CacheEntry<T = unknown> {
+  value: T;
+  staleAt: number; // epoch ms
+  expiresAt: number; // epoch ms
+}
+
+interface SearchCacheBackend {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  cleanup(): Promise<void>;
+  size(): Promise<number | null>;
+}
+
+// ============================================
+// BACKENDS
+// ============================================
+
+const memoryEntries = new Map<string, CacheEntry>();
+
+const memoryBackend: SearchCacheBackend = {
+  name: "memory",
+
+  async get(key) {
+    return memoryEntries.get(key) ?? null;
+  },
+
+  async set(key, entry) {
+    // Re-insert so Map order tracks recency for eviction
+    memoryEntries.delete(key);
+    memoryEntries.set(key, entry);
+    while (memoryEntries.size > MAX_MEMORY_ENTRIES) {
+      const oldest = memoryEntries.keys().next().value;
+      if (oldest === undefined) break;
+      memoryEntries.delete(oldest);
+    }
+  },
+
+  async delete(key) {
+    memoryEntries.delete(key);
+  },
+
+  async cleanup() {
+    const now = Date.now();
+    for (const [key, entry] of memoryEntries) {
+      if (entry.expiresAt <= now) memoryEntries.delete(key);
+    }
+  },
+
+  async size() {
+    return memoryEntries.size;
+  },
+};
+
+const postgresBackend: SearchCacheBackend = {
+  name: "postgres",
+
+  async get(key) {
+    const row = await prisma.flightSearchCache.findUnique({ where: { key } });
+    if (!row) return null;
+    return {
+      value: row.payload,
+      staleAt: row.staleAt.getTime(),
+      expiresAt: row.expiresAt.getTime(),
+    };
+  },
+
+  async set(key, entry) {
+    const data = {
+      payload: entry.value as Prisma.InputJsonValue,
+      staleAt: new Date(entry.staleAt),
+      expiresAt: new Date(entry.expiresAt),
+    };
+    await prisma.flightSearchCache.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: { ...data, createdAt: new Date() },
+    });
+  },
+
+  async delete(key) {
+    await prisma.flightSearchCache.deleteMany({ where: { key } });
+  },
+
+  async cleanup() {
+    await prisma.flightSearchCache.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+  },
+
+  async size() {
+    return prisma.flightSearchCache.count();
+  },
+};
+
+const backends: Record<string, SearchCacheBackend> = {
+  [memoryBackend.name]: memoryBackend,
+  [postgresBackend.name]: postgresBackend,
+};
+
+// SEARCH_CACHE_BACKEND=memory|postgres (default memory)
+const backend =
+  backends[(process.env.SEARCH_CACHE_BACKEND || "memory").toLowerCase()] ??
+  memoryBackend;
+
+// ============================================
+// CACHE
+// ============================================
+
+const stats = {
+  hits: 0,
+  staleHits: 0,
+  misses: 0,
+  coalesced: 0,
+  refreshes: 0,
+  refreshErrors: 0,
+  backendErrors: 0,
+};
+
+// Loads in progress, shared by concurrent identical searches
+const inFlight = new Map<string, Promise<unknown>>();
+
+// Run loader once per key at a time and store the result
+function load<T>(key: string, loader: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    stats.coalesced += 1;
+    return pending as Promise<T>;
+  }
+
+  const promise = (async () => {
+    const value = await loader();
+    const now = Date.now();
+    await backend
+      .set(key, { value, staleAt: now + TTL_MS, expiresAt: now + TTL_MS + STALE_MS })
+      .catch((error) => {
+        stats.backendErrors += 1;
+        log.error("Failed to store entry", error);
+      });
+    return value;
+  })().finally(() => {
+    inFlight.delete(key);
+  });
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+export type SearchCacheStatus = "hit" | "stale" | "miss";
+
+export const searchCache = {
+  /**
+   * Get a cached value, or load and cache it.
+   * Stale entries are returned immediately while a background refresh runs.
+   */
+  async getOrLoad<T>(
+    key: string,
+    loader: () => Promise<T>
+  ): Promise<{ value: T; status: SearchCacheStatus }> {
+    let entry: CacheEntry | null = null;
+    try {
+      entry = await backend.get(key);
+    } catch (error) {
+      stats.backendErrors += 1;
+      log.error("Failed to read entry", error);
+    }
+
+    const now = Date.now();
+
+    if (entry && now < entry.staleAt) {
+      stats.hits += 1;
+      return { value: entry.value as T, status: "hit" };
+    }
+
+    if (entry && now < entry.expiresAt) {
+      stats.staleHits += 1;
+      if (!inFlight.has(key)) {
+        stats.refreshes += 1;
+        load(key, loader).catch((error) => {
+          stats.refreshErrors += 1;
+          log.error("Background refresh failed", error);
+        });
+      }
+      return { value: entry.value as T, status: "stale" };
+    }
+
+    stats.misses += 1;
+    return { value: await load(key, loader), status: "miss" };
+  },
+
+  /**
+   * Read a cached value without loading or refreshing it
+   */
+  async peek<T>(
+    key: string
+  ): Promise<{ value: T; status: Exclude<SearchCacheStatus, "miss"> } | null> {
+    let entry: CacheEntry | null = null;
+    try {
+      entry = await backend.get(key);
+    } catch (error) {
+      stats.backendErrors += 1;
+      log.error("Failed to read entry", error);
+    }
+
+    const now = Date.now();
+    if (!entry || now >= entry.expiresAt) return null;
+    return {
+      value: entry.value as T,
+      status: now < entry.staleAt ? "hit" : "stale",
+    };
+  },
+
+  async invalidate(key: string) {
+    await backend.delete(key);
+  },
+
+  // Cache statistics for monitoring
+  async getStats() {
+    const lookups = stats.hits + stats.staleHits + stats.misses;
+    let entries: number | null = null;
+    try {
+      entries = await backend.size();
+    } catch {
+      entries = null;
+    }
+
+    return {
+      backend: backend.name,
+      ttlSeconds: TTL_MS / 1000,
+      staleSeconds: STALE_MS / 1000,
+      entries,
+      inFlight: inFlight.size,
+      ...stats,
+      hitRate: lookups
+        ? Math.round(((stats.hits + stats.staleHits) / lookups) * 100) / 100
+        : 0,
+    };
+  },
+};
+
+/**
+ * Normalized cache key for a one-way/round-trip search
+ */
+export function buildSearchCacheKey(
+  supplier: string,
+  queries: FlightOfferSearchQueryType,
+  currency = queries.currency ?? "USD"
+) {
+  return [
+    "flight-offers",
+    `v${FLIGHT_OFFER_SCHEMA_VERSION}`,
+    supplier,
+    queries.originLocationCode.toUpperCase(),
+    queries.destinationLocationCode.toUpperCase(),
+    format(queries.departureDate, "yyyy-MM-dd"),
+    queries.returnDate ? format(queries.returnDate, "yyyy-MM-dd") : "-",
+    queries.adults,
+    queries.children ?? 0,
+    queries.infants ?? 0,
+    queries.travelClass,
+    currency.toUpperCase(),
+  ].join(":");
+}
+
+// Periodically purge expired entries
+setInterval(() => {
+  backend.cleanup().catch((error) => {
+    log.error("Cleanup failed", error);
+  });
+}, CLEANUP_INTERVAL_MS);
@@ -0,0 +1,83 @@
+import { randomUUID } from "crypto";
+import type { NormalizedFlightOffersResponse } from "./offerTypes.js";
+import type { SupplierFlightOffer } from "./suppliers/index.js";
+import type { NearbyAirport } from "./nearbyAirports.js";
+
+// Search results are kept so that later pages don't trigger a new supplier call
+const SEARCH_RESULT_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const MAX_STORED_SEARCHES = 500;
+
+export interface SearchResult {
+  response: NormalizedFlightOffersResponse;
+  // Raw supplier offers by normalized offer id, kept server-side for re-pricing
+  supplierOffers: Record<string, SupplierFlightOffer>;
+  // Airports searched when nearby-airport expansion was requested
+  nearbyAirports?: { origin: NearbyAirport[]; destination: NearbyAirport[] };
+  // Hubs searched for self-transfer offers
+  selfTransferHubs?: string[];
+}
+
+interface StoredSearch {
+  queryKey: string;
+  result: SearchResult;
+  expiresAt: number;
+}
+
+const store = new Map<string, StoredSearch>();
+
+// Drop expired entries, then the oldest ones if we're over capacity
+function prune() {
+  const now = Date.now();
+  for (const [id, entry] of store) {
+    if (entry.expiresAt <= now) store.delete(id);
+  }
+  while (store.size > MAX_STORED_SEARCHES) {
+    const oldest = store.keys().next().value;
+    if (oldest === undefined) break;
+    store.delete(oldest);
+  }
+}
+
+export const searchResultStore = {
+  // Store a result set and return its search id
+  save(queryKey: string, result: SearchResult) {
+    prune();
+    const searchId = randomUUID();
+    store.set(searchId, {
+      queryKey,
+      result,
+      expiresAt: Date.now() + SEARCH_RESULT_TTL_MS,
+    });
+    return searchId;
+  },
+
+  // Get a stored result set (null if unknown or expired)
+  get(searchId: string) {
+    const entry = store.get(searchId);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      store.delete(searchId);
+      return null;
+    }
+    return entry;
+  },
+};
+
+// Opaque pagination cursor: base64url({ searchId, offset })
+export function encodeCursor(searchId: string, offset: number) {
+  return Buffer.from(JSON.stringify({ s: searchId, o: offset })).toString(
+    "base64url"
+  );
+}
+
+export function decodeCursor(cursor: string) {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof parsed?.s !== "string" || !Number.isInteger(parsed?.o) || parsed.o < 0) {
+      return null;
+    }
+    return { searchId: parsed.s as string, offset: parsed.o as number };
+  } catch {
+    return null;
+  }
+}
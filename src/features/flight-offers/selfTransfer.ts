@@ -0,0 +1,256 @@
+import { differenceInMinutes, parseISO, subDays } from "date-fns";
+import { prisma } from "@/lib/prisma.js";
+import { haversineDistance } from "@/lib/geo.js";
+import { getAirportCoordinates } from "./nearbyAirports.js";
+import type {
+  NormalizedBaggage,
+  NormalizedFlightOffer,
+  NormalizedTravelerFare,
+  SelfTransferWarningCode,
+} from "./offerTypes.js";
+
+// Self-transfer ("virtual interlining") limits
+export const SELF_TRANSFER_DEFAULT_MIN_CONNECTION_MINUTES = 180;
+const SELF_TRANSFER_MAX_CONNECTION_MINUTES = 24 * 60;
+const SELF_TRANSFER_SHORT_CONNECTION_MINUTES = 240;
+const SELF_TRANSFER_MAX_HUBS = 3;
+const SELF_TRANSFER_MAX_DETOUR = 1.4; // Hub route vs. direct distance
+const SELF_TRANSFER_MIN_LEG_KM = 150;
+const SELF_TRANSFER_LEG_CANDIDATES = 10; // Cheapest offers per leg considered for stitching
+export const SELF_TRANSFER_MAX_OFFERS = 10;
+const POPULAR_ROUTES_LOOKBACK_DAYS = 90;
+const HUB_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+
+let largeAirportsCache: {
+  data: { iataCode: string; lat: number; lon: number }[];
+  timestamp: number;
+} | null = null;
+
+async function getLargeAirports() {
+  if (largeAirportsCache && Date.now() - largeAirportsCache.timestamp < HUB_CACHE_DURATION) {
+    return largeAirportsCache.data;
+  }
+
+  const airports = await prisma.airport.findMany({
+    where: {
+      type: "large_airport",
+      scheduledService: true,
+      iataCode: { not: null },
+      latitudeDeg: { not: null },
+      longitudeDeg: { not: null },
+    },
+    select: { iataCode: true, latitudeDeg: true, longitudeDeg: true },
+  });
+
+  const data = airports.map((a) => ({
+    iataCode: a.iataCode!,
+    lat: a.latitudeDeg!,
+    lon: a.longitudeDeg!,
+  }));
+  largeAirportsCache = { data, timestamp: Date.now() };
+  return data;
+}
+
+/**
+ * Candidate hubs between origin and destination: large airports without a big detour,
+ * ranked by how often origin->hub and hub->destination are searched (searchEvent data)
+ */
+export async function findSelfTransferHubs(origin: string, destination: string) {
+  const coordinates = await getAirportCoordinates([origin, destination]);
+  const from = coordinates.get(origin);
+  const to = coordinates.get(destination);
+  if (!from || !to) return [];
+
+  const direct = haversineDistance(from.lat, from.lon, to.lat, to.lon);
+
+  const [airports, routes] = await Promise.all([
+    getLargeAirports(),
+    prisma.searchEvent.groupBy({
+      by: ["origin", "destination"],
+      _count: { id: true },
+      where: {
+        OR: [{ origin }, { destination }],
+        createdAt: { gte: subDays(new Date(), POPULAR_ROUTES_LOOKBACK_DAYS) },
+      },
+    }),
+  ]);
+
+  const popularity = new Map<string, number>();
+  for (const route of routes) {
+    const hub = route.origin === origin ? route.destination : route.origin;
+    popularity.set(hub.toUpperCase(), (popularity.get(hub.toUpperCase()) ?? 0) + route._count.id);
+  }
+
+  return airports
+    .filter((hub) => hub.iataCode !== origin && hub.iataCode !== destination)
+    .map((hub) => {
+      const firstLeg = haversineDistance(from.lat, from.lon, hub.lat, hub.lon);
+      const secondLeg = haversineDistance(hub.lat, hub.lon, to.lat, to.lon);
+      return {
+        iataCode: hub.iataCode,
+        detour: direct > 0 ? (firstLeg + secondLeg) / direct : Infinity,
+        shortestLeg: Math.min(firstLeg, secondLeg),
+        searches: popularity.get(hub.iataCode) ?? 0,
+      };
+    })
+    .filter(
+      (hub) =>
+        hub.detour <= SELF_TRANSFER_MAX_DETOUR &&
+        hub.shortestLeg >= SELF_TRANSFER_MIN_LEG_KM
+    )
+    .sort((a, b) => b.searches - a.searches || a.detour - b.detour)
+    .slice(0, SELF_TRANSFER_MAX_HUBS)
+    .map((hub) => hub.iataCode);
+}
+
+// Per-traveler fares of both tickets added together
+const combineTravelerFares = (
+  first: NormalizedTravelerFare[],
+  second: NormalizedTravelerFare[]
+) =>
+  first.map((fare) => {
+    const other = second.find((f) => f.travelerId === fare.travelerId);
+    return {
+      ...fare,
+      total: Math.round((fare.total + (other?.total ?? 0)) * 100) / 100,
+      base: Math.round((fare.base + (other?.base ?? 0)) * 100) / 100,
+    };
+  });
+
+const minBaggage = (a: NormalizedBaggage, b: NormalizedBaggage): NormalizedBaggage =>
+  (a.checkedBags ?? Infinity) <= (b.checkedBags ?? Infinity) ? a : b;
+
+/**
+ * Combine two one-way offers through a hub into a single self-transfer offer
+ */
+function stitchOffers(
+  first: NormalizedFlightOffer,
+  second: NormalizedFlightOffer,
+  hub: string,
+  connectionMinutes: number
+): NormalizedFlightOffer {
+  const outbound = first.itineraries[0];
+  const onward = second.itineraries[0];
+
+  const warnings: { code: SelfTransferWarningCode; message: string }[] = [
+    {
+      code: "UNPROTECTED_CONNECTION",
+      message:
+        "Separate tickets: if the first flight is delayed, the airline will not rebook the second one",
+    },
+    {
+      code: "BAGGAGE_RECHECK",
+      message: `Checked bags must be collected and checked in again at ${hub}`,
+    },
+    {
+      code: "TRANSIT_ENTRY",
+      message: `You may need to pass immigration at ${hub}; check visa requirements`,
+    },
+  ];
+  if (connectionMinutes < SELF_TRANSFER_SHORT_CONNECTION_MINUTES) {
+    warnings.push({
+      code: "SHORT_CONNECTION",
+      message: `Only ${connectionMinutes} minutes to re-check bags and board at ${hub}`,
+    });
+  }
+  if (outbound.arrivalAt.slice(0, 10) !== onward.departureAt.slice(0, 10)) {
+    warnings.push({
+      code: "OVERNIGHT_CONNECTION",
+      message: `The connection at ${hub} is overnight`,
+    });
+  }
+
+  const itinerary = {
+    origin: outbound.origin,
+    destination: onward.destination,
+    departureAt: outbound.departureAt,
+    arrivalAt: onward.arrivalAt,
+    durationMinutes: outbound.durationMinutes + connectionMinutes + onward.durationMinutes,
+    stops: outbound.stops + onward.stops + 1,
+    segments: [...outbound.segments, ...onward.segments],
+    layovers: [
+      ...outbound.layovers,
+      { airport: outbound.destination, durationMinutes: connectionMinutes, changeOfAirport: false },
+      ...onward.layovers,
+    ],
+  };
+
+  const lastTicketingDates = [first.lastTicketingDate, second.lastTicketingDate]
+    .filter((date): date is string => !!date)
+    .sort();
+
+  return {
+    // Supplier offer ids repeat across searches, so the onward date is part of the id
+    id: `${first.supplier}-st-${hub}-${first.supplierOfferId}-${second.supplierOfferId}-${onward.departureAt.slice(0, 10)}`,
+    supplier: first.supplier,
+    supplierOfferId: `${first.supplierOfferId}+${second.supplierOfferId}`,
+    validatingCarrier: null, // Two tickets, two validating carriers
+    itineraries: [itinerary],
+    price: {
+      currency: first.price.currency,
+      total: Math.round((first.price.total + second.price.total) * 100) / 100,
+      base: Math.round((first.price.base + second.price.base) * 100) / 100,
+      travelers: combineTravelerFares(first.price.travelers, second.price.travelers),
+    },
+    totalDurationMinutes: itinerary.durationMinutes,
+    stops: itinerary.stops,
+    baggage: minBaggage(first.baggage, second.baggage),
+    seatsAvailable:
+      first.seatsAvailable !== null && second.seatsAvailable !== null
+        ? Math.min(first.seatsAvailable, second.seatsAvailable)
+        : (first.seatsAvailable ?? second.seatsAvailable),
+    lastTicketingDate: lastTicketingDates[0] ?? null,
+    selfTransfer: {
+      hub,
+      connectionMinutes,
+      tickets: [first, second].map((ticket) => ({
+        supplierOfferId: ticket.supplierOfferId,
+        origin: ticket.itineraries[0].origin.iataCode,
+        destination: ticket.itineraries[0].destination.iataCode,
+        departureAt: ticket.itineraries[0].departureAt,
+        total: ticket.price.total,
+      })),
+      warnings,
+    },
+  };
+}
+
+/**
+ * Cheapest self-transfer offers from one-way offers into and out of a hub.
+ * Both times are local to the hub, so the connection is a plain difference.
+ */
+export function buildSelfTransferOffers(
+  hub: string,
+  firstLegOffers: NormalizedFlightOffer[],
+  secondLegOffers: NormalizedFlightOffer[],
+  minConnectionMinutes: number
+) {
+  const cheapest = (offers: NormalizedFlightOffer[]) =>
+    [...offers]
+      .filter((offer) => offer.itineraries.length === 1)
+      .sort((a, b) => a.price.total - b.price.total)
+      .slice(0, SELF_TRANSFER_LEG_CANDIDATES);
+
+  const stitched: NormalizedFlightOffer[] = [];
+
+  for (const first of cheapest(firstLegOffers)) {
+    for (const second of cheapest(secondLegOffers)) {
+      if (first.price.currency !== second.price.currency) continue;
+
+      const connectionMinutes = differenceInMinutes(
+        parseISO(second.itineraries[0].departureAt),
+        parseISO(first.itineraries[0].arrivalAt)
+      );
+      if (
+        connectionMinutes < minConnectionMinutes ||
+        connectionMinutes > SELF_TRANSFER_MAX_CONNECTION_MINUTES
+      ) {
+        continue;
+      }
+
+      stitched.push(stitchOffers(first, second, hub, connectionMinutes));
+    }
+  }
+
+  return stitched.sort((a, b) => a.price.total - b.price.total);
+}
@@ -0,0 +1,60 @@
+import { randomBytes } from "crypto";
+import { addDays, min } from "date-fns";
+import { prisma } from "@/lib/prisma.js";
+import type { NormalizedFlightOffer } from "./offerTypes.js";
+import { createLogger } from "@/lib/logger.js";
+
+const log = createLogger("SharedItinerary");
+
+// Shared links live until the first departure, at most this long by default
+export const SHARE_DEFAULT_TTL_DAYS = 30;
+const SHARE_RETENTION_DAYS = 30; // Expired links answer 410 for this long, then are deleted
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Attribution for searches and click-outs coming from a shared link
+export const SHARE_UTM_SOURCE = "shared-itinerary";
+export const SHARE_UTM_MEDIUM = "share";
+
+const APP_URL = process.env.APP_CLIENT_URL || "http://localhost:5173";
+
+// 12-character url-safe id
+export const createShareId = () => randomBytes(9).toString("base64url");
+
+export const shareAttribution = (shareId: string) => ({
+  utmSource: SHARE_UTM_SOURCE,
+  utmMedium: SHARE_UTM_MEDIUM,
+  utmCampaign: shareId,
+});
+
+// Link opened by the recipient; the UTM parameters end up in searchEvent/clickOutEvent
+export const buildShareUrl = (shareId: string) => {
+  const url = new URL(`/share/${shareId}`, APP_URL);
+  url.searchParams.set("utm_source", SHARE_UTM_SOURCE);
+  url.searchParams.set("utm_medium", SHARE_UTM_MEDIUM);
+  url.searchParams.set("utm_campaign", shareId);
+  return url.toString();
+};
+
+// Count a recorded click-out on the shared link it is attributed to
+export const recordShareClick = async (utm?: { utmSource?: string; utmCampaign?: string }) => {
+  if (utm?.utmSource !== SHARE_UTM_SOURCE || !utm.utmCampaign) return;
+
+  await prisma.sharedItinerary.updateMany({
+    where: { id: utm.utmCampaign },
+    data: { clickCount: { increment: 1 }, lastClickedAt: new Date() },
+  });
+};
+
+export const shareExpiry = (offer: NormalizedFlightOffer, days = SHARE_DEFAULT_TTL_DAYS) =>
+  min([addDays(new Date(), days), new Date(offer.itineraries[0].departureAt)]);
+
+// Periodically delete links that expired long ago
+setInterval(() => {
+  prisma.sharedItinerary
+    .deleteMany({
+      where: { expiresAt: { lt: addDays(new Date(), -SHARE_RETENTION_DAYS) } },
+    })
+    .catch((error) => {
+      log.error("Cleanup failed", error);
+    });
+}, CLEANUP_INTERVAL_MS);
@@ -0,0 +1,319 @@
+import {
+  AMADEUS_BASE_URL,
+  AMADEUS_CIRCUIT,
+  getAmadeusToken,
+  invalidateAmadeusToken,
+} from "@/lib/amadeus.js";
+import { format } from "date-fns";
+import { recordApiCall, type QuotaEndpoint } from "@/lib/quota.js";
+import { httpRequest, OutboundHttpError } from "@/lib/http.js";
+import {
+  FlightSupplierError,
+  supplierErrorFromOutbound,
+  supplierErrorFromResponse,
+} from "./errors.js";
+import {
+  type CheapestDatesParams,
+  type FlightSupplier,
+  type SupplierFlightDatesResponse,
+  type SupplierFlightDestinationsResponse,
+  type SupplierFlightOffersResponse,
+} from "./types.js";
+import { createLogger } from "@/lib/logger.js";
+
+const log = createLogger("Amadeus");
+
+// Flight Offer BASE API
+const FLIGHT_OFFER_API = `${AMADEUS_BASE_URL}/v2/shopping`;
+const FLIGHT_DATES_API = `${AMADEUS_BASE_URL}/v1/shopping`;
+const FLIGHT_PRICE_API = `${AMADEUS_BASE_URL}/v1/shopping/flight-offers/pricing`;
+
+const SUPPLIER_NAME = "amadeus";
+
+type SupplierEndpoint = Exclude<QuotaEndpoint, "token">;
+
+// Per-endpoint timeouts (ms) - live searches are slow, cached/pricing calls are not
+const ENDPOINT_TIMEOUTS_MS: Record<SupplierEndpoint, number> = {
+  "flight-offers": 25_000,
+  "flight-dates": 10_000,
+  "flight-price": 15_000,
+  "flight-destinations": 10_000,
+};
+
+// Get a bearer token or fail with a supplier error
+const requireToken = async () => {
+  let token: string | undefined;
+  try {
+    token = await getAmadeusToken();
+  } catch (error) {
+    if (error instanceof OutboundHttpError) {
+      throw supplierErrorFromOutbound(SUPPLIER_NAME, error, "Failed to authenticate");
+    }
+    throw new FlightSupplierError(
+      SUPPLIER_NAME,
+      `Failed to authenticate: ${error instanceof Error ? error.message : String(error)}`,
+      { code: "AUTH_FAILED" }
+    );
+  }
+
+  if (!token) {
+    throw new FlightSupplierError(SUPPLIER_NAME, "Failed to authenticate", {
+      code: "AUTH_FAILED",
+    });
+  }
+
+  return token;
+};
+
+/**
+ * Authenticated call through the shared HTTP layer (timeout, retries, circuit breaker).
+ * Every attempt counts against quota; a rejected token is refreshed once.
+ */
+async function amadeusRequest(
+  endpoint: SupplierEndpoint,
+  url: string,
+  init: RequestInit,
+  errorMessage: string
+) {
+  let token = await requireToken();
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await httpRequest(url, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${token}` },
+        timeoutMs: ENDPOINT_TIMEOUTS_MS[endpoint],
+        breaker: AMADEUS_CIRCUIT,
+        onAttempt: () => void recordApiCall(SUPPLIER_NAME, endpoint),
+      });
+    } catch (error) {
+      if (error instanceof OutboundHttpError) {
+        throw supplierErrorFromOutbound(SUPPLIER_NAME, error, errorMessage);
+      }
+      throw error;
+    }
+
+    if (response.status === 401 && attempt === 0) {
+      invalidateAmadeusToken();
+      token = await requireToken();
+      continue;
+    }
+
+    return response;
+  }
+}
+
+// Build flight-dates query string from params
+const buildFlightDatesQuery = (params: CheapestDatesParams) => {
+  const searchQueries = new URLSearchParams({
+    origin: params.origin,
+    destination: params.destination,
+  });
+
+  // Optional parameters
+  if (params.departureDate) {
+    searchQueries.append("departureDate", params.departureDate);
+  }
+  if (params.oneWay !== undefined) {
+    searchQueries.append("oneWay", params.oneWay.toString());
+  }
+  if (params.duration) {
+    searchQueries.append("duration", params.duration);
+  }
+  if (params.nonStop !== undefined) {
+    searchQueries.append("nonStop", params.nonStop.toString());
+  }
+  if (params.viewBy) {
+    searchQueries.append("viewBy", params.viewBy);
+  }
+
+  return searchQueries;
+};
+
+export const amadeusSupplier: FlightSupplier = {
+  name: SUPPLIER_NAME,
+
+  // Get Flight Offers
+  async searchFlightOffers(queries) {
+    // Build Query - only include required parameters
+    const searchQueries = new URLSearchParams({
+      originLocationCode: queries.originLocationCode,
+      destinationLocationCode: queries.destinationLocationCode,
+      departureDate: format(queries.departureDate, "yyyy-MM-dd"),
+      adults: queries.adults.toString(),
+      travelClass: queries.travelClass,
+      currencyCode: queries.currency ?? "USD",
+    });
+
+    // Children optional
+    if (queries.children !== undefined && queries.children > 0) {
+      searchQueries.append("children", queries.children.toString());
+    }
+
+    // Infants optional (held infants, at most one per adult)
+    if (queries.infants !== undefined && queries.infants > 0) {
+      searchQueries.append("infants", queries.infants.toString());
+    }
+
+    // Return date (Only for round-trip)
+    if (queries.returnDate !== undefined && queries.returnDate !== null) {
+      searchQueries.append(
+        "returnDate",
+        format(queries.returnDate, "yyyy-MM-dd")
+      );
+    }
+
+    const url = `${FLIGHT_OFFER_API}/flight-offers?${searchQueries.toString()}`;
+    const message = "Failed to search flights";
+
+    const response = await amadeusRequest("flight-offers", url, { method: "GET" }, message);
+
+    if (!response.ok) {
+      throw await supplierErrorFromResponse(SUPPLIER_NAME, response, message);
+    }
+
+    return (await response.json()) as SupplierFlightOffersResponse;
+  },
+
+  // Get Multi-City Flight Offers
+  async searchMultiCityFlightOffers(requestData) {
+    const url = `${FLIGHT_OFFER_API}/flight-offers`;
+    const message = "Failed to search multi-city flights";
+
+    const response = await amadeusRequest(
+      "flight-offers",
+      url,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(requestData),
+      },
+      message
+    );
+
+    if (!response.ok) {
+      throw await supplierErrorFromResponse(SUPPLIER_NAME, response, message);
+    }
+
+    return (await response.json()) as SupplierFlightOffersResponse;
+  },
+
+  // Get Cheapest Flight Dates - uses cached data, limited routes in test
+  async getCheapestDates(params) {
+    const url = `${FLIGHT_DATES_API}/flight-dates?${buildFlightDatesQuery(
+      params
+    ).toString()}`;
+    const message = "Failed to get cheapest flight dates";
+
+    const response = await amadeusRequest("flight-dates", url, { method: "GET" }, message);
+
+    if (!response.ok) {
+      const error = await supplierErrorFromResponse(SUPPLIER_NAME, response, message);
+      log.error(`Flight dates search failed: ${error.message}`);
+      throw error;
+    }
+
+    return (await response.json()) as SupplierFlightDatesResponse;
+  },
+
+  // Get prices for a date range (Flight Cheapest Date Search API, single call)
+  async getFlexiblePrices(params) {
+    const url = `${FLIGHT_DATES_API}/flight-dates?${buildFlightDatesQuery(
+      params
+    ).toString()}`;
+    const message = "Route not in cache";
+
+    const response = await amadeusRequest("flight-dates", url, { method: "GET" }, message);
+
+    if (!response.ok) {
+      const error = await supplierErrorFromResponse(SUPPLIER_NAME, response, message);
+      log.warn(`Flight Cheapest Date Search failed: ${error.message}`);
+      throw error;
+    }
+
+    return (await response.json()) as SupplierFlightDatesResponse;
+  },
+
+  // Confirm price and availability (Flight Offers Price API)
+  async priceFlightOffer(offer) {
+    const message = "Failed to price flight offer";
+
+    const response = await amadeusRequest(
+      "flight-price",
+      FLIGHT_PRICE_API,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          data: { type: "flight-offers-pricing", flightOffers: [offer] },
+        }),
+      },
+      message
+    );
+
+    // Amadeus answers 4xx when the fare or seats can no longer be sold
+    if (
+      response.status >= 400 &&
+      response.status < 500 &&
+      response.status !== 401 &&
+      response.status !== 429
+    ) {
+      const errorText = await response.text();
+      log.warn(`Flight price unavailable (${response.status})`, { error: errorText });
+      return { available: false, offer: null };
+    }
+
+    if (!response.ok) {
+      throw await supplierErrorFromResponse(SUPPLIER_NAME, response, message);
+    }
+
+    const result = await response.json();
+    const pricedOffer = result.data?.flightOffers?.[0] ?? null;
+
+    return {
+      available: !!pricedOffer,
+      offer: pricedOffer,
+      dictionaries: result.dictionaries,
+    };
+  },
+
+  // Cheapest destinations from an origin (Flight Inspiration Search API, cached data)
+  async getInspiration(params) {
+    const searchQueries = new URLSearchParams({ origin: params.origin });
+    if (params.departureDate) {
+      searchQueries.append("departureDate", params.departureDate);
+    }
+    if (params.oneWay !== undefined) {
+      searchQueries.append("oneWay", params.oneWay.toString());
+    }
+    if (params.duration) {
+      searchQueries.append("duration", params.duration);
+    }
+    if (params.nonStop !== undefined) {
+      searchQueries.append("nonStop", params.nonStop.toString());
+    }
+    if (params.maxPrice !== undefined) {
+      searchQueries.append("maxPrice", Math.floor(params.maxPrice).toString());
+    }
+    searchQueries.append("viewBy", "DESTINATION");
+
+    const url = `${FLIGHT_DATES_API}/flight-destinations?${searchQueries.toString()}`;
+    const message = "Origin not in inspiration cache";
+
+    const response = await amadeusRequest(
+      "flight-destinations",
+      url,
+      { method: "GET" },
+      message
+    );
+
+    if (!response.ok) {
+      const error = await supplierErrorFromResponse(SUPPLIER_NAME, response, message);
+      log.warn(`Flight Inspiration Search failed: ${error.message}`);
+      throw error;
+    }
+
+    return (await response.json()) as SupplierFlightDestinationsResponse;
+  },
+};
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Hono } from "hono";
+import { errorHandler } from "@/lib/errorHandler.js";
+import { searchCache } from "../searchCache.js";
+import { FlightSupplierError } from "./errors.js";
+
+test("concurrent identical searches each get their own supplier error response", async () => {
+  let calls = 0;
+  // Rejects once, shared by every search waiting on the same cache key
+  const failingSearch = async () => {
+    calls += 1;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    throw new FlightSupplierError("mock", "Supplier throttled the search", {
+      code: "RATE_LIMITED",
+      upstreamStatus: 429,
+      retryAfterSeconds: 7,
+    });
+  };
+
+  const app = new Hono();
+  app.get("/search", async (c) => {
+    const { value } = await searchCache.getOrLoad("test:supplier-error", failingSearch);
+    return c.json(value);
+  });
+  app.onError(errorHandler);
+
+  const responses = await Promise.all([app.request("/search"), app.request("/search")]);
+
+  assert.equal(calls, 1);
+  for (const response of responses) {
+    assert.equal(response.status, 503);
+    assert.equal(response.headers.get("Retry-After"), "7");
+    assert.deepEqual(await response.json(), {
+      message: "Supplier throttled the search",
+      code: "RATE_LIMITED",
+      supplier: "mock",
+    });
+  }
+});
@@ -0,0 +1,164 @@
+import { HTTPException } from "hono/http-exception";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { getCircuitState, OutboundHttpError } from "@/lib/http.js";
+
+export type FlightSupplierErrorCode =
+  | "INVALID_REQUEST" // Supplier rejected the search parameters
+  | "INVALID_ROUTE" // Unknown or unsupported origin/destination
+  | "NOT_FOUND" // Nothing found for the request (e.g. route not in a cache)
+  | "AUTH_FAILED" // Our supplier credentials were rejected
+  | "RATE_LIMITED" // Supplier throttled us after retries
+  | "TIMEOUT"
+  | "UNAVAILABLE" // Network failure reaching the supplier
+  | "CIRCUIT_OPEN" // Too many recent failures, calls paused
+  | "QUOTA_EXCEEDED" // Our daily or monthly supplier quota is used up
+  | "UPSTREAM_ERROR"; // Supplier 5xx or anything unexpected
+
+// Client-facing status per error code
+const STATUS_BY_CODE: Record<FlightSupplierErrorCode, ContentfulStatusCode> = {
+  INVALID_REQUEST: 422,
+  INVALID_ROUTE: 422,
+  NOT_FOUND: 404,
+  AUTH_FAILED: 502,
+  RATE_LIMITED: 503,
+  TIMEOUT: 504,
+  UNAVAILABLE: 502,
+  CIRCUIT_OPEN: 503,
+  QUOTA_EXCEEDED: 503,
+  UPSTREAM_ERROR: 502,
+};
+
+// Error entry as returned by the supplier (Amadeus "errors" array)
+export interface SupplierErrorDetail {
+  status?: number;
+  code?: number | string;
+  title?: string;
+  detail?: string;
+  parameter?: string;
+}
+
+interface FlightSupplierErrorOptions {
+  code?: FlightSupplierErrorCode;
+  upstreamStatus?: number | null;
+  upstreamErrors?: SupplierErrorDetail[];
+  retryAfterSeconds?: number;
+}
+
+// Error raised by suppliers when the upstream API fails or rejects a request.
+// Only data is kept: coalesced searches share one error, so each request builds its own
+// response from it (see errorHandler)
+export class FlightSupplierError extends HTTPException {
+  supplier: string;
+  code: FlightSupplierErrorCode;
+  upstreamStatus: number | null;
+  upstreamErrors: SupplierErrorDetail[];
+  retryAfterSeconds?: number;
+
+  constructor(
+    supplier: string,
+    message: string,
+    options: FlightSupplierErrorOptions = {}
+  ) {
+    const code = options.code ?? "UPSTREAM_ERROR";
+
+    super(STATUS_BY_CODE[code], { message });
+    this.name = "FlightSupplierError";
+    this.supplier = supplier;
+    this.code = code;
+    this.upstreamStatus = options.upstreamStatus ?? null;
+    this.upstreamErrors = options.upstreamErrors ?? [];
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+
+  // Client-facing JSON body
+  toResponseBody() {
+    return {
+      message: this.message,
+      code: this.code,
+      supplier: this.supplier,
+      ...(this.upstreamErrors.length > 0 && { errors: this.upstreamErrors }),
+    };
+  }
+}
+
+// Parameters that identify the route in supplier requests
+const ROUTE_PARAMETERS = /origin|destination|locationcode/i;
+
+/**
+ * Build a typed error from a non-OK supplier response, keeping its error codes
+ */
+export async function supplierErrorFromResponse(
+  supplier: string,
+  response: Response,
+  message: string
+) {
+  const body: any = await response.json().catch(() => null);
+  const upstreamErrors: SupplierErrorDetail[] = Array.isArray(body?.errors)
+    ? body.errors.map((e: any) => ({
+        status: e.status,
+        code: e.code,
+        title: e.title,
+        detail: e.detail,
+        parameter: e.source?.parameter ?? e.source?.pointer,
+      }))
+    : [];
+
+  const status = response.status;
+  let code: FlightSupplierErrorCode = "UPSTREAM_ERROR";
+  if (status === 400) {
+    code = upstreamErrors.some((e) => ROUTE_PARAMETERS.test(e.parameter ?? ""))
+      ? "INVALID_ROUTE"
+      : "INVALID_REQUEST";
+  } else if (status === 404) {
+    code = "NOT_FOUND";
+  } else if (status === 401 || status === 403) {
+    code = "AUTH_FAILED";
+  } else if (status === 429) {
+    code = "RATE_LIMITED";
+  } else if (status >= 400 && status < 500) {
+    code = "INVALID_REQUEST";
+  }
+
+  const retryAfter = Number(response.headers.get("retry-after"));
+  const detail = upstreamErrors[0]?.detail || upstreamErrors[0]?.title;
+
+  return new FlightSupplierError(
+    supplier,
+    detail ? `${message}: ${detail}` : `${message} (${status})`,
+    {
+      code,
+      upstreamStatus: status,
+      upstreamErrors,
+      ...(code === "RATE_LIMITED" && {
+        retryAfterSeconds: retryAfter > 0 ? retryAfter : 1,
+      }),
+    }
+  );
+}
+
+/**
+ * Build a typed error when no response was obtained (timeout, network, open circuit)
+ */
+export function supplierErrorFromOutbound(
+  supplier: string,
+  error: OutboundHttpError,
+  message: string
+) {
+  const code: FlightSupplierErrorCode =
+    error.kind === "timeout"
+      ? "TIMEOUT"
+      : error.kind === "circuit-open"
+        ? "CIRCUIT_OPEN"
+        : "UNAVAILABLE";
+
+  // Tell clients when the breaker will let calls through again
+  const retryAt = error.upstream ? getCircuitState(error.upstream).retryAt : null;
+  const retryAfterSeconds = retryAt
+    ? Math.max(1, Math.ceil((new Date(retryAt).getTime() - Date.now()) / 1000))
+    : 1;
+
+  return new FlightSupplierError(supplier, `${message}: ${error.message}`, {
+    code,
+    ...(code === "CIRCUIT_OPEN" && { retryAfterSeconds }),
+  });
+}
@@ -0,0 +1,58 @@
+// Static fixture data backing the mock flight supplier.
+// Values are deliberately small and stable so that responses are reproducible.
+
+export const mockCarriers = [
+  { code: "KC", name: "AIR ASTANA", basePrice: 180 },
+  { code: "DV", name: "SCAT AIRLINES", basePrice: 120 },
+  { code: "TK", name: "TURKISH AIRLINES", basePrice: 260 },
+  { code: "FZ", name: "FLYDUBAI", basePrice: 200 },
+  { code: "QR", name: "QATAR AIRWAYS", basePrice: 340 },
+  { code: "LH", name: "LUFTHANSA", basePrice: 380 },
+] as const;
+
+// Hubs used for one-stop connections (skipped when equal to origin/destination)
+export const mockHubs = [
+  { iataCode: "IST", cityCode: "IST", countryCode: "TR" },
+  { iataCode: "DXB", cityCode: "DXB", countryCode: "AE" },
+  { iataCode: "DOH", cityCode: "DOH", countryCode: "QA" },
+  { iataCode: "FRA", cityCode: "FRA", countryCode: "DE" },
+] as const;
+
+export const mockAircraft: Record<string, string> = {
+  "32N": "AIRBUS A320NEO",
+  "321": "AIRBUS A321",
+  "738": "BOEING 737-800",
+  "789": "BOEING 787-9",
+};
+
+// Cabin price multipliers relative to economy
+export const mockCabinMultipliers: Record<string, number> = {
+  ECONOMY: 1,
+  PREMIUM_ECONOMY: 1.6,
+  BUSINESS: 3.2,
+  FIRST: 5,
+};
+
+// Child fares are discounted relative to the adult fare
+export const MOCK_CHILD_FARE_RATIO = 0.75;
+export const MOCK_INFANT_FARE_RATIO = 0.1; // Held infants (on an adult's lap)
+
+// Number of offers generated per search
+export const MOCK_OFFERS_PER_SEARCH = 8;
+
+// Number of days returned by the flight-dates mock when no range is given
+export const MOCK_FLIGHT_DATES_DAYS = 30;
+
+// Destinations offered by the inspiration mock
+export const mockInspirationDestinations = [
+  "IST",
+  "DXB",
+  "DOH",
+  "FRA",
+  "TBS",
+  "BKK",
+  "LHR",
+  "CDG",
+  "DEL",
+  "ICN",
+] as const;
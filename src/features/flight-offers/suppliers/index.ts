@@ -0,0 +1,34 @@
+import { amadeusSupplier } from "./amadeusSupplier.js";
+import { mockSupplier } from "./mockSupplier.js";
+import type { FlightSupplier } from "./types.js";
+
+// Registered flight suppliers, selectable via FLIGHT_SUPPLIER env var
+const suppliers: Record<string, FlightSupplier> = {
+  [amadeusSupplier.name]: amadeusSupplier,
+  [mockSupplier.name]: mockSupplier,
+};
+
+const DEFAULT_SUPPLIER = amadeusSupplier.name;
+
+/**
+ * Get a flight supplier by name, or the active one (FLIGHT_SUPPLIER=amadeus|mock, default amadeus)
+ */
+export function getFlightSupplier(supplierName?: string): FlightSupplier {
+  const name = (
+    supplierName ||
+    process.env.FLIGHT_SUPPLIER ||
+    DEFAULT_SUPPLIER
+  ).toLowerCase();
+  const supplier = suppliers[name];
+
+  if (!supplier) {
+    throw new Error(
+      `Unknown flight supplier "${name}". Available: ${Object.keys(suppliers).join(", ")}`
+    );
+  }
+
+  return supplier;
+}
+
+export * from "./types.js";
+export * from "./errors.js";
@@ -0,0 +1,415 @@
+import { addDays, addMinutes, differenceInCalendarDays, format, parseISO } from "date-fns";
+import {
+  MOCK_CHILD_FARE_RATIO,
+  MOCK_INFANT_FARE_RATIO,
+  MOCK_FLIGHT_DATES_DAYS,
+  MOCK_OFFERS_PER_SEARCH,
+  mockAircraft,
+  mockCabinMultipliers,
+  mockCarriers,
+  mockHubs,
+  mockInspirationDestinations,
+} from "./fixtures.js";
+import type {
+  CheapestDatesParams,
+  FlightSupplier,
+  InspirationParams,
+  SupplierDictionaries,
+  SupplierFlightDatesResponse,
+  SupplierFlightDestinationsResponse,
+  SupplierFlightOffer,
+  SupplierFlightOffersResponse,
+  SupplierFlightSegment,
+  SupplierItinerary,
+} from "./types.js";
+
+const SUPPLIER_NAME = "mock";
+const CURRENCY = "USD";
+
+interface MockLeg {
+  origin: string;
+  destination: string;
+  date: string; // YYYY-MM-DD
+}
+
+interface MockTraveler {
+  id: string;
+  travelerType: string;
+}
+
+// Deterministic string hash (FNV-1a)
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Seeded PRNG (mulberry32) so identical queries yield identical offers
+const createRng = (seed: string) => {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(rng: () => number, items: readonly T[]) =>
+  items[Math.floor(rng() * items.length)];
+
+const toIsoDuration = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `PT${h}H${m > 0 ? `${m}M` : ""}`;
+};
+
+const toLocalDateTime = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm:ss");
+
+const roundTo = (value: number, step: number) =>
+  Math.round(value / step) * step;
+
+// Build one itinerary for a leg, optionally via a hub
+function buildItinerary(
+  rng: () => number,
+  leg: MockLeg,
+  carrierCode: string,
+  stops: number,
+  segmentIds: { next: number }
+): SupplierItinerary {
+  const departureMinutes = roundTo(360 + rng() * 900, 5); // 06:00 - 21:00
+  let cursor = addMinutes(parseISO(leg.date), departureMinutes);
+
+  const hubs = mockHubs.filter(
+    (h) => h.iataCode !== leg.origin && h.iataCode !== leg.destination
+  );
+  const points =
+    stops > 0 && hubs.length > 0
+      ? [leg.origin, pick(rng, hubs).iataCode, leg.destination]
+      : [leg.origin, leg.destination];
+
+  const segments: SupplierFlightSegment[] = [];
+  let totalMinutes = 0;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    if (i > 0) {
+      const layover = roundTo(60 + rng() * 240, 5);
+      cursor = addMinutes(cursor, layover);
+      totalMinutes += layover;
+    }
+
+    const flightMinutes = roundTo(
+      (points.length > 2 ? 60 : 90) + rng() * 300,
+      5
+    );
+    const departure = cursor;
+    const arrival = addMinutes(departure, flightMinutes);
+
+    segments.push({
+      id: String(segmentIds.next++),
+      departure: { iataCode: points[i], at: toLocalDateTime(departure) },
+      arrival: { iataCode: points[i + 1], at: toLocalDateTime(arrival) },
+      carrierCode,
+      number: String(100 + Math.floor(rng() * 900)),
+      aircraft: { code: pick(rng, Object.keys(mockAircraft)) },
+      operating: { carrierCode },
+      duration: toIsoDuration(flightMinutes),
+      numberOfStops: 0,
+      blacklistedInEU: false,
+    });
+
+    cursor = arrival;
+    totalMinutes += flightMinutes;
+  }
+
+  return { duration: toIsoDuration(totalMinutes), segments };
+}
+
+// Build a full offers response for a set of legs
+function buildOffersResponse(
+  legs: MockLeg[],
+  travelers: MockTraveler[],
+  cabin: string,
+  maxOffers = MOCK_OFFERS_PER_SEARCH
+): SupplierFlightOffersResponse {
+  const seed = legs.map((l) => `${l.origin}-${l.destination}-${l.date}`).join("|");
+  const cabinMultiplier = mockCabinMultipliers[cabin] ?? 1;
+  const offers: SupplierFlightOffer[] = [];
+
+  for (let index = 0; index < Math.min(maxOffers, MOCK_OFFERS_PER_SEARCH); index++) {
+    const rng = createRng(`${seed}#${cabin}#${index}`);
+    const carrier = mockCarriers[index % mockCarriers.length];
+    const stops = rng() < 0.4 ? 0 : 1;
+    const segmentIds = { next: 1 };
+
+    const itineraries = legs.map((leg) =>
+      buildItinerary(rng, leg, carrier.code, stops, segmentIds)
+    );
+
+    const adultFare =
+      carrier.basePrice *
+      legs.length *
+      cabinMultiplier *
+      (0.8 + rng() * 0.6) *
+      (stops > 0 ? 0.85 : 1);
+
+    const allSegments = itineraries.flatMap((it) => it.segments);
+    let total = 0;
+
+    const travelerPricings = travelers.map((traveler) => {
+      const fare =
+        traveler.travelerType === "ADULT"
+          ? adultFare
+          : traveler.travelerType === "HELD_INFANT"
+            ? adultFare * MOCK_INFANT_FARE_RATIO
+            : adultFare * MOCK_CHILD_FARE_RATIO;
+      const travelerTotal = Math.round(fare * 100) / 100;
+      total += travelerTotal;
+
+      return {
+        travelerId: traveler.id,
+        fareOption: "STANDARD",
+        travelerType: traveler.travelerType,
+        price: {
+          currency: CURRENCY,
+          total: travelerTotal.toFixed(2),
+          base: (travelerTotal * 0.8).toFixed(2),
+        },
+        fareDetailsBySegment: allSegments.map((segment) => ({
+          segmentId: segment.id,
+          cabin,
+          fareBasis: `${cabin.charAt(0)}${carrier.code}MOCK`,
+          class: cabin.charAt(0),
+          includedCheckedBags: { quantity: cabin === "ECONOMY" && stops === 0 ? 0 : 1 },
+        })),
+      };
+    });
+
+    offers.push({
+      type: "flight-offer",
+      id: String(index + 1),
+      source: "GDS",
+      instantTicketingRequired: false,
+      nonHomogeneous: false,
+      oneWay: false,
+      lastTicketingDate: legs[0].date,
+      numberOfBookableSeats: 1 + Math.floor(rng() * 9),
+      itineraries,
+      price: {
+        currency: CURRENCY,
+        total: total.toFixed(2),
+        base: (total * 0.8).toFixed(2),
+        grandTotal: total.toFixed(2),
+        fees: [],
+      },
+      pricingOptions: { fareType: ["PUBLISHED"], includedCheckedBagsOnly: true },
+      validatingAirlineCodes: [carrier.code],
+      travelerPricings,
+    });
+  }
+
+  offers.sort((a, b) => parseFloat(a.price.total) - parseFloat(b.price.total));
+  offers.forEach((offer, i) => (offer.id = String(i + 1)));
+
+  return {
+    meta: { count: offers.length },
+    data: offers,
+    dictionaries: buildDictionaries(offers),
+  };
+}
+
+function buildDictionaries(offers: SupplierFlightOffer[]): SupplierDictionaries {
+  const locations: NonNullable<SupplierDictionaries["locations"]> = {};
+  const carriers: Record<string, string> = {};
+  const aircraft: Record<string, string> = {};
+
+  for (const offer of offers) {
+    for (const itinerary of offer.itineraries) {
+      for (const segment of itinerary.segments) {
+        for (const code of [segment.departure.iataCode, segment.arrival.iataCode]) {
+          const hub = mockHubs.find((h) => h.iataCode === code);
+          locations[code] = {
+            cityCode: hub?.cityCode ?? code,
+            countryCode: hub?.countryCode ?? "",
+          };
+        }
+        const carrier = mockCarriers.find((c) => c.code === segment.carrierCode);
+        if (carrier) carriers[carrier.code] = carrier.name;
+        if (segment.aircraft) {
+          aircraft[segment.aircraft.code] = mockAircraft[segment.aircraft.code];
+        }
+      }
+    }
+  }
+
+  return { locations, aircraft, currencies: { [CURRENCY]: "US DOLLAR" }, carriers };
+}
+
+// Build flight-dates response for a route over a date window
+function buildFlightDatesResponse(
+  params: CheapestDatesParams
+): SupplierFlightDatesResponse {
+  const [rangeStart, rangeEnd] = (params.departureDate || "").split(",");
+  const start = rangeStart ? parseISO(rangeStart) : addDays(new Date(), 1);
+  const end = rangeEnd
+    ? parseISO(rangeEnd)
+    : addDays(start, MOCK_FLIGHT_DATES_DAYS - 1);
+  const days = Math.max(0, differenceInCalendarDays(end, start)) + 1;
+  const tripDays = parseInt((params.duration || "7").split(",")[0], 10) || 7;
+
+  const data = Array.from({ length: days }, (_, i) => {
+    const departureDate = format(addDays(start, i), "yyyy-MM-dd");
+    const rng = createRng(`${params.origin}-${params.destination}-${departureDate}`);
+    const carrier = pick(rng, mockCarriers);
+    const multiplier = params.oneWay ? 1 : 2;
+    const price = carrier.basePrice * multiplier * (0.7 + rng() * 0.8);
+
+    return {
+      type: "flight-date",
+      origin: params.origin,
+      destination: params.destination,
+      departureDate,
+      ...(params.oneWay
+        ? {}
+        : { returnDate: format(addDays(start, i + tripDays), "yyyy-MM-dd") }),
+      price: { total: price.toFixed(2) },
+    };
+  });
+
+  return {
+    data,
+    dictionaries: { currencies: { [CURRENCY]: "US DOLLAR" } },
+    meta: { currency: CURRENCY },
+  };
+}
+
+// Build inspiration response: cheapest date per destination in the window
+function buildFlightDestinationsResponse(
+  params: InspirationParams
+): SupplierFlightDestinationsResponse {
+  const data = mockInspirationDestinations
+    .filter((destination) => destination !== params.origin)
+    .map((destination) => {
+      const dates = buildFlightDatesResponse({
+        origin: params.origin,
+        destination,
+        departureDate: params.departureDate,
+        oneWay: params.oneWay,
+        duration: params.duration,
+      }).data;
+      const cheapest = dates.reduce((best, date) =>
+        parseFloat(date.price.total) < parseFloat(best.price.total) ? date : best
+      );
+      return { ...cheapest, type: "flight-destination" };
+    })
+    .filter(
+      (item) =>
+        params.maxPrice === undefined ||
+        parseFloat(item.price.total) <= params.maxPrice
+    );
+
+  return {
+    data,
+    dictionaries: { currencies: { [CURRENCY]: "US DOLLAR" } },
+    meta: { currency: CURRENCY },
+  };
+}
+
+export const mockSupplier: FlightSupplier = {
+  name: SUPPLIER_NAME,
+
+  async searchFlightOffers(queries) {
+    const legs: MockLeg[] = [
+      {
+        origin: queries.originLocationCode,
+        destination: queries.destinationLocationCode,
+        date: format(queries.departureDate, "yyyy-MM-dd"),
+      },
+    ];
+
+    if (queries.returnDate) {
+      legs.push({
+        origin: queries.destinationLocationCode,
+        destination: queries.originLocationCode,
+        date: format(queries.returnDate, "yyyy-MM-dd"),
+      });
+    }
+
+    const travelers: MockTraveler[] = [];
+    for (let i = 0; i < queries.adults; i++) {
+      travelers.push({ id: String(travelers.length + 1), travelerType: "ADULT" });
+    }
+    for (let i = 0; i < (queries.children ?? 0); i++) {
+      travelers.push({ id: String(travelers.length + 1), travelerType: "CHILD" });
+    }
+    for (let i = 0; i < (queries.infants ?? 0); i++) {
+      travelers.push({ id: String(travelers.length + 1), travelerType: "HELD_INFANT" });
+    }
+
+    return buildOffersResponse(legs, travelers, queries.travelClass);
+  },
+
+  async searchMultiCityFlightOffers(requestData) {
+    const legs: MockLeg[] = requestData.originDestinations.map((od) => ({
+      origin: od.originLocationCode,
+      destination: od.destinationLocationCode,
+      date: od.departureDateTimeRange.date,
+    }));
+
+    const cabin =
+      requestData.searchCriteria?.flightFilters?.cabinRestrictions?.[0]?.cabin ||
+      "ECONOMY";
+
+    return buildOffersResponse(
+      legs,
+      requestData.travelers,
+      cabin,
+      requestData.searchCriteria?.maxFlightOffers
+    );
+  },
+
+  async getCheapestDates(params) {
+    return buildFlightDatesResponse(params);
+  },
+
+  async getFlexiblePrices(params) {
+    return buildFlightDatesResponse(params);
+  },
+
+  // Deterministic re-price: the same offer on the same day moves by -5%..+10%
+  async priceFlightOffer(offer) {
+    const segmentKey = offer.itineraries
+      .flatMap((it) => it.segments.map((s) => `${s.carrierCode}${s.number}@${s.departure.at}`))
+      .join("|");
+    const rng = createRng(`${segmentKey}#${format(new Date(), "yyyy-MM-dd")}`);
+    const factor = 0.95 + rng() * 0.15;
+    const scale = (amount: string) => (parseFloat(amount) * factor).toFixed(2);
+
+    const pricedOffer = {
+      ...offer,
+      price: {
+        ...offer.price,
+        total: scale(offer.price.total),
+        base: scale(offer.price.base),
+        grandTotal: scale(offer.price.grandTotal || offer.price.total),
+      },
+      travelerPricings: offer.travelerPricings.map((tp) => ({
+        ...tp,
+        price: { ...tp.price, total: scale(tp.price.total), base: scale(tp.price.base) },
+      })),
+    };
+
+    return {
+      available: true,
+      offer: pricedOffer,
+      dictionaries: buildDictionaries([pricedOffer]),
+    };
+  },
+
+  async getInspiration(params) {
+    return buildFlightDestinationsResponse(params);
+  },
+};
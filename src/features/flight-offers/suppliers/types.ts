@@ -0,0 +1,207 @@
+import type { FlightOfferSearchQueryType } from "@/schema/flightSearchSchema.js";
+
+// ============================================
+// SUPPLIER RESPONSE SHAPES (Amadeus-compatible)
+// ============================================
+
+export interface SupplierFlightEndpoint {
+  iataCode: string;
+  terminal?: string;
+  at: string; // Local date-time, e.g. 2025-12-01T10:30:00
+}
+
+export interface SupplierFlightSegment {
+  id: string;
+  departure: SupplierFlightEndpoint;
+  arrival: SupplierFlightEndpoint;
+  carrierCode: string;
+  number: string;
+  aircraft?: { code: string };
+  operating?: { carrierCode: string };
+  duration: string; // ISO 8601 duration, e.g. PT2H30M
+  numberOfStops: number;
+  blacklistedInEU?: boolean;
+}
+
+export interface SupplierItinerary {
+  duration: string;
+  segments: SupplierFlightSegment[];
+}
+
+export interface SupplierPrice {
+  currency: string;
+  total: string;
+  base: string;
+  grandTotal?: string;
+  fees?: { amount: string; type: string }[];
+}
+
+export interface SupplierFareDetails {
+  segmentId: string;
+  cabin: string;
+  fareBasis?: string;
+  brandedFare?: string;
+  class?: string;
+  includedCheckedBags?: { quantity?: number; weight?: number; weightUnit?: string };
+}
+
+export interface SupplierTravelerPricing {
+  travelerId: string;
+  fareOption: string;
+  travelerType: string;
+  price: { currency: string; total: string; base: string };
+  fareDetailsBySegment: SupplierFareDetails[];
+}
+
+export interface SupplierFlightOffer {
+  type: "flight-offer";
+  id: string;
+  source: string;
+  instantTicketingRequired?: boolean;
+  nonHomogeneous?: boolean;
+  oneWay?: boolean;
+  lastTicketingDate?: string;
+  numberOfBookableSeats?: number;
+  itineraries: SupplierItinerary[];
+  price: SupplierPrice;
+  pricingOptions?: { fareType: string[]; includedCheckedBagsOnly: boolean };
+  validatingAirlineCodes: string[];
+  travelerPricings: SupplierTravelerPricing[];
+}
+
+export interface SupplierDictionaries {
+  locations?: Record<string, { cityCode: string; countryCode: string }>;
+  aircraft?: Record<string, string>;
+  currencies?: Record<string, string>;
+  carriers?: Record<string, string>;
+}
+
+export interface SupplierFlightOffersResponse {
+  meta?: { count: number; links?: { self?: string } };
+  data: SupplierFlightOffer[];
+  dictionaries?: SupplierDictionaries;
+}
+
+export interface SupplierFlightDate {
+  type: string;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate?: string;
+  price: { total: string };
+}
+
+export interface SupplierFlightDatesResponse {
+  data: SupplierFlightDate[];
+  dictionaries?: { currencies?: Record<string, string> };
+  meta?: { currency?: string };
+}
+
+export interface SupplierFlightDestination {
+  type: string;
+  origin: string;
+  destination: string; // Airport or city code
+  departureDate: string;
+  returnDate?: string;
+  price: { total: string };
+}
+
+export interface SupplierFlightDestinationsResponse {
+  data: SupplierFlightDestination[];
+  dictionaries?: {
+    currencies?: Record<string, string>;
+    locations?: Record<string, { subType: string; detailedName: string }>;
+  };
+  meta?: { currency?: string };
+}
+
+export interface SupplierPricedOffer {
+  // False when the fare can no longer be sold
+  available: boolean;
+  offer: SupplierFlightOffer | null;
+  dictionaries?: SupplierDictionaries;
+}
+
+// ============================================
+// SUPPLIER REQUEST PARAMS
+// ============================================
+
+export interface CheapestDatesParams {
+  origin: string;
+  destination: string;
+  departureDate?: string; // YYYY-MM-DD or YYYY-MM-DD,YYYY-MM-DD range
+  oneWay?: boolean;
+  duration?: string;
+  nonStop?: boolean;
+  viewBy?: "DATE" | "DESTINATION" | "DURATION" | "WEEK";
+}
+
+// Multi-city request in the supplier's shape (mapped from flightMulticitySchema)
+export interface SupplierMultiCityRequest {
+  currencyCode?: string;
+  originDestinations: {
+    id: string;
+    originLocationCode: string;
+    destinationLocationCode: string;
+    departureDateTimeRange: { date: string; time?: string; timeWindow?: string };
+  }[];
+  travelers: { id: string; travelerType: string; associatedAdultId?: string }[];
+  sources?: string[];
+  searchCriteria?: {
+    maxFlightOffers?: number;
+    flightFilters?: {
+      cabinRestrictions?: {
+        cabin: string;
+        coverage: string;
+        originDestinationIds: string[];
+      }[];
+      connectionRestriction?: { maxNumberOfConnections: number };
+    };
+  };
+}
+
+export interface InspirationParams {
+  origin: string;
+  departureDate?: string; // YYYY-MM-DD or YYYY-MM-DD,YYYY-MM-DD range
+  oneWay?: boolean;
+  duration?: string; // Trip length in days (round-trip)
+  nonStop?: boolean;
+  maxPrice?: number;
+}
+
+// ============================================
+// SUPPLIER CONTRACT
+// ============================================
+
+export interface FlightSupplier {
+  /** Supplier identifier, e.g. "amadeus" or "mock" */
+  readonly name: string;
+
+  /** One-way and round-trip search */
+  searchFlightOffers(
+    query: FlightOfferSearchQueryType
+  ): Promise<SupplierFlightOffersResponse>;
+
+  /** Multi-city search */
+  searchMultiCityFlightOffers(
+    request: SupplierMultiCityRequest
+  ): Promise<SupplierFlightOffersResponse>;
+
+  /** Cheapest travel dates for a route (calendar view) */
+  getCheapestDates(
+    params: CheapestDatesParams
+  ): Promise<SupplierFlightDatesResponse>;
+
+  /** Prices for a date range on a route (flexible dates) */
+  getFlexiblePrices(
+    params: CheapestDatesParams
+  ): Promise<SupplierFlightDatesResponse>;
+
+  /** Re-price a previously returned offer and confirm availability */
+  priceFlightOffer(offer: SupplierFlightOffer): Promise<SupplierPricedOffer>;
+
+  /** Cheapest destinations from an origin (not every supplier offers this) */
+  getInspiration?(
+    params: InspirationParams
+  ): Promise<SupplierFlightDestinationsResponse>;
+}
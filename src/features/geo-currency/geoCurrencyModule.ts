@@ -1,29 +1,12 @@
 import { Hono } from "hono";
 import { prisma } from "@/lib/prisma.js";
+import { haversineDistance } from "@/lib/geo.js";
+import { getCurrencies, getExchangeRates } from "@/lib/exchangeRates.js";
+import { createLogger } from "@/lib/logger.js";
 
-const app = new Hono();
+const log = createLogger("GeoCurrency");
 
-/**
- * Calculate distance between two coordinates using Haversine formula
- */
-function haversineDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-    Math.cos((lat2 * Math.PI) / 180) *
-    Math.sin(dLon / 2) *
-    Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
+const app = new Hono();
 
 // In-memory cache for airports (valid for 24 hours - airports don't change often)
 let airportsCache: { data: Awaited<ReturnType<typeof fetchAllAirports>>; timestamp: number } | null = null;
@@ -106,38 +89,13 @@ async function findNearestAirport(lat: number, lon: number) {
   @desc     Get list of all currencies with names
 */
 app.get("/currencies", async (c) => {
-  const OPEN_EXCHANGE_API_KEY = process.env.OPEN_EXCHANGE_API_KEY;
-  const currenciesUrl = `https://openexchangerates.org/api/currencies.json?app_id=${OPEN_EXCHANGE_API_KEY}`;
-
-  try {
-    const response = await fetch(currenciesUrl);
-    if (!response.ok) {
-      throw new Error("Failed to fetch currencies data");
-    }
-    const currenciesData = await response.json();
-
-    return c.json(currenciesData);
-  } catch (error) {
-    console.error("Error fetching currencies data:", error);
+  const currenciesData = await getCurrencies();
+  if (!currenciesData) {
     return c.json({ error: "Failed to fetch currencies" }, 500);
   }
-});
 
-// In-memory cache for exchange rates (valid for 1 hour)
-let exchangeRateCache: { data: unknown; timestamp: number } | null = null;
-const EXCHANGE_RATE_CACHE_DURATION = 60 * 60 * 1000; // 1 hour
-
-async function getCachedExchangeRates(apiKey: string) {
-  if (exchangeRateCache && Date.now() - exchangeRateCache.timestamp < EXCHANGE_RATE_CACHE_DURATION) {
-    return exchangeRateCache.data;
-  }
-  const exchangeUrl = `https://openexchangerates.org/api/latest.json?app_id=${apiKey}`;
-  const response = await fetch(exchangeUrl);
-  if (!response.ok) return null;
-  const data = await response.json();
-  exchangeRateCache = { data, timestamp: Date.now() };
-  return data;
-}
+  return c.json(currenciesData);
+});
 
 /*
   @route    GET: /geo-currency
@@ -153,16 +111,14 @@ app.get("/", async (c) => {
     const API_KEY = process.env.GEO_LOCATION_API_KEY;
     const geoUrl = `https://api.ipapi.com/api/${forwardedForIp}?access_key=${API_KEY}`;
 
-    const OPEN_EXCHANGE_API_KEY = process.env.OPEN_EXCHANGE_API_KEY;
-
     // Fetch geo and exchange rates in parallel (exchange rates are cached)
     const [geoResponse, exchangeData] = await Promise.all([
       fetch(geoUrl),
-      getCachedExchangeRates(OPEN_EXCHANGE_API_KEY || ""),
+      getExchangeRates(),
     ]);
 
     if (!geoResponse.ok) {
-      console.error("Geolocation API error:", await geoResponse.text());
+      log.error(`Geolocation API error (${geoResponse.status})`, await geoResponse.text());
       return c.json({ error: "Failed to fetch geolocation data" }, 500);
     }
     const geoData = await geoResponse.json();
@@ -184,12 +140,12 @@ app.get("/", async (c) => {
       timeZone: geoData.time_zone,
       currency: geoData.currency,
       exchangeRate: exchangeData
-        ? { base: (exchangeData as { base: string; rates: Record<string, number> }).base, rates: (exchangeData as { base: string; rates: Record<string, number> }).rates }
+        ? { base: exchangeData.base, rates: exchangeData.rates, timestamp: exchangeData.timestamp }
         : { base: "USD", rates: { USD: 1 } },
       nearestAirport,
     });
   } catch (error) {
-    console.error("Error in geo-currency endpoint:", error);
+    log.error("Error in geo-currency endpoint", error);
     return c.json({ error: "Failed to fetch geo-currency data" }, 500);
   }
 });
@@ -1,8 +1,30 @@
 import { Hono } from "hono";
 import { performance } from "node:perf_hooks";
 import { prisma } from "@/lib/prisma.js";
-
-const app = new Hono();
+import { AMADEUS_CIRCUIT, getAmadeusTokenState } from "@/lib/amadeus.js";
+import { getCircuitState, onCircuitStateChange } from "@/lib/http.js";
+import { searchCache } from "@/features/flight-offers/searchCache.js";
+import { auth, requirePermission } from "@/lib/auth.js";
+import { recordAudit } from "@/lib/audit.js";
+import {
+  getQuotaLimits,
+  getQuotaUsage,
+  recordApiCall,
+  setQuotaLimits,
+  QUOTA_CRITICAL_PERCENT,
+  QUOTA_WARNING_PERCENT,
+  type QuotaEndpoint,
+} from "@/lib/quota.js";
+import { createLogger } from "@/lib/logger.js";
+
+const log = createLogger("Monitoring");
+
+const app = new Hono<{
+  Variables: {
+    user: typeof auth.$Infer.Session.user | null;
+    session: typeof auth.$Infer.Session.session | null;
+  };
+}>();
 
 // Track server start time for uptime
 const serverStartTime = Date.now();
@@ -11,6 +33,16 @@ const serverStartTime = Date.now();
 const POLL_INTERVAL_MS = 120_000; // 2 minutes
 const HEALTHY_THRESHOLD_MS = 500; // <500ms healthy, otherwise degraded
 
+// Supplier whose quota is tracked by the dashboard
+const QUOTA_SUPPLIER = "amadeus";
+const QUOTA_ENDPOINTS: QuotaEndpoint[] = [
+  "flight-offers",
+  "flight-dates",
+  "flight-price",
+  "flight-destinations",
+  "token",
+];
+
 // Cached health results
 type ComponentStatus = "healthy" | "degraded" | "down" | "unknown";
 interface CachedCheck {
@@ -67,6 +99,13 @@ async function pollAmadeus() {
     amadeusHealth.status = ms < HEALTHY_THRESHOLD_MS ? "healthy" : "degraded";
     amadeusHealth.lastChecked = new Date();
     amadeusHealth.lastError = null;
+
+    // Reachable, but our own calls keep failing
+    const circuit = getCircuitState(AMADEUS_CIRCUIT);
+    if (circuit.state === "open") {
+      amadeusHealth.status = "down";
+      amadeusHealth.lastError = `Circuit breaker open: ${circuit.lastError}`;
+    }
   } catch (e: any) {
     amadeusHealth.status = "down";
     amadeusHealth.lastChecked = new Date();
@@ -75,6 +114,18 @@ async function pollAmadeus() {
   }
 }
 
+// Supplier calls feed the breaker: an open circuit marks Amadeus down right away,
+// and a closed one triggers a fresh probe
+onCircuitStateChange(AMADEUS_CIRCUIT, (state, lastError) => {
+  if (state === "open") {
+    amadeusHealth.status = "down";
+    amadeusHealth.lastChecked = new Date();
+    amadeusHealth.lastError = `Circuit breaker open: ${lastError}`;
+  } else if (state === "closed") {
+    void pollAmadeus();
+  }
+});
+
 // Kick off polling loop (best-effort in-memory cache)
 void pollDatabase();
 void pollAmadeus();
@@ -83,13 +134,6 @@ setInterval(() => {
   void pollAmadeus();
 }, POLL_INTERVAL_MS);
 
-// Simple in-memory quota tracking (replace with Redis/DB for production)
-let quotaUsage = {
-  daily: 0,
-  dailyLimit: 1000, // Example limit
-  lastReset: new Date().toISOString().split("T")[0], // YYYY-MM-DD
-};
-
 // Track last Amadeus API check (compat field used by alerts endpoint)
 let lastAmadeusCheck = {
   status: "unknown" as "healthy" | "degraded" | "down" | "unknown",
@@ -99,9 +143,10 @@ let lastAmadeusCheck = {
 
 /*
   @route  GET /health
+  @access Staff only (system:dashboard permission)
   @desc   Returns overall system health status
 */
-app.get("/health", async (c) => {
+app.get("/health", requirePermission("system", "dashboard"), async (c) => {
   const checks = {
     database: dbHealth.status,
     amadeus: amadeusHealth.status,
@@ -114,6 +159,9 @@ app.get("/health", async (c) => {
       database: dbHealth.lastChecked?.toISOString() || null,
       amadeus: amadeusHealth.lastChecked?.toISOString() || null,
     },
+    amadeusToken: getAmadeusTokenState(),
+    amadeusCircuit: getCircuitState(AMADEUS_CIRCUIT),
+    searchCache: await searchCache.getStats(),
   } as const;
 
   // Determine overall status
@@ -138,62 +186,101 @@ app.get("/health", async (c) => {
 
 /*
   @route  GET /quota
-  @desc   Returns current API quota usage and thresholds
+  @access Staff only (system:dashboard permission)
+  @desc   Returns current API quota usage (daily/monthly, per endpoint) and thresholds
 */
-app.get("/quota", async (c) => {
-  // Reset daily counter if new day
-  const today = new Date().toISOString().split("T")[0];
-  if (quotaUsage.lastReset !== today) {
-    quotaUsage.daily = 0;
-    quotaUsage.lastReset = today;
-  }
+app.get("/quota", requirePermission("system", "dashboard"), async (c) => {
+  const usage = await getQuotaUsage(QUOTA_SUPPLIER);
 
-  const usagePercent = (quotaUsage.daily / quotaUsage.dailyLimit) * 100;
   let alert: { level: string; message: string } | null = null;
+  const peakPercent = Math.max(usage.dailyPercent, usage.monthlyPercent);
 
-  if (usagePercent >= 100) {
+  if (peakPercent >= QUOTA_CRITICAL_PERCENT) {
     alert = { level: "critical", message: "API quota limit reached (100%)" };
-  } else if (usagePercent >= 80) {
+  } else if (peakPercent >= QUOTA_WARNING_PERCENT) {
     alert = { level: "warning", message: "API quota at 80% or above" };
   }
 
   return c.json({
-    daily: quotaUsage.daily,
-    limit: quotaUsage.dailyLimit,
-    percent: Math.round(usagePercent),
+    daily: usage.daily,
+    limit: usage.dailyLimit,
+    percent: Math.round(usage.dailyPercent),
+    monthly: usage.monthly,
+    monthlyLimit: usage.monthlyLimit,
+    monthlyPercent: Math.round(usage.monthlyPercent),
+    endpoints: usage.endpoints,
     alert,
-    lastReset: quotaUsage.lastReset,
+    lastReset: usage.day,
   });
 });
 
 /*
-  @route  POST /quota/increment
-  @desc   Internal endpoint to increment quota usage (called by offerService)
+  @route  PUT /quota/limits
+  @access Admin only
+  @desc   Update daily/monthly API quota limits
 */
-app.post("/quota/increment", async (c) => {
-  const today = new Date().toISOString().split("T")[0];
-  if (quotaUsage.lastReset !== today) {
-    quotaUsage.daily = 0;
-    quotaUsage.lastReset = today;
+app.put("/quota/limits", requirePermission("system", "settings"), async (c) => {
+  const user = c.get("user");
+  const { dailyLimit, monthlyLimit } = await c.req.json().catch(() => ({}));
+
+  const isValidLimit = (value: unknown) =>
+    Number.isInteger(value) && (value as number) > 0;
+
+  if (!isValidLimit(dailyLimit) || !isValidLimit(monthlyLimit)) {
+    return c.json(
+      { error: "dailyLimit and monthlyLimit must be positive integers" },
+      400
+    );
   }
 
-  quotaUsage.daily += 1;
+  const before = await getQuotaLimits(QUOTA_SUPPLIER);
+  const limits = await setQuotaLimits(QUOTA_SUPPLIER, {
+    dailyLimit,
+    monthlyLimit,
+    updatedBy: user?.id,
+  });
 
-  // Check if we crossed thresholds and should trigger alerts
-  const usagePercent = (quotaUsage.daily / quotaUsage.dailyLimit) * 100;
-  if (usagePercent >= 100 || usagePercent >= 80) {
-    // TODO: Trigger alert (email/Slack) - implement in alertService
-    console.warn(`[ALERT] API quota at ${Math.round(usagePercent)}%`);
-  }
+  await recordAudit(c, {
+    action: "quota.update-limits",
+    targetType: "apiQuota",
+    targetId: QUOTA_SUPPLIER,
+    before: { dailyLimit: before.dailyLimit, monthlyLimit: before.monthlyLimit },
+    after: { dailyLimit: limits.dailyLimit, monthlyLimit: limits.monthlyLimit },
+  });
 
-  return c.json({ ok: true, daily: quotaUsage.daily });
+  return c.json({ success: true, limits });
+});
+
+/*
+  @route  POST /quota/increment
+  @access Admin only
+  @desc   Manually record a supplier call (calls are normally counted automatically by offerService)
+*/
+app.post("/quota/increment", requirePermission("system", "settings"), async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const endpoint: QuotaEndpoint = QUOTA_ENDPOINTS.includes(body.endpoint)
+    ? body.endpoint
+    : "flight-offers";
+
+  await recordApiCall(QUOTA_SUPPLIER, endpoint);
+  const usage = await getQuotaUsage(QUOTA_SUPPLIER);
+
+  await recordAudit(c, {
+    action: "quota.increment",
+    targetType: "apiQuota",
+    targetId: QUOTA_SUPPLIER,
+    metadata: { endpoint },
+  });
+
+  return c.json({ ok: true, daily: usage.daily });
 });
 
 /*
   @route  POST /amadeus/status
-  @desc   Update Amadeus API status (called by offerService on success/failure)
+  @access Admin only (system:settings permission)
+  @desc   Update Amadeus API status (manual override of the polled status)
 */
-app.post("/amadeus/status", async (c) => {
+app.post("/amadeus/status", requirePermission("system", "settings"), async (c) => {
   const body = await c.req.json().catch(() => ({}));
   const { status, error } = body;
 
@@ -209,40 +296,62 @@ app.post("/amadeus/status", async (c) => {
   // If down for >1 minute, trigger alert
   if (status === "down") {
     // TODO: Implement alert logic with timestamp tracking
-    console.error(`[ALERT] Amadeus API is down: ${error}`);
+    log.error(`Amadeus API is down: ${error}`);
   }
 
   return c.json({ ok: true });
 });
 
+/*
+  @route  GET /amadeus/token
+  @desc   Returns Amadeus OAuth token manager state (expiry, refresh count, last error)
+*/
+app.get("/amadeus/token", requirePermission("system", "logs"), async (c) => {
+  return c.json(getAmadeusTokenState());
+});
+
 /*
   @route  GET /alerts
+  @access Staff only (system:dashboard permission)
   @desc   Returns active alerts (quota, outages)
 */
-app.get("/alerts", async (c) => {
+app.get("/alerts", requirePermission("system", "dashboard"), async (c) => {
   const alerts: any[] = [];
 
-  // Check quota
-  const today = new Date().toISOString().split("T")[0];
-  if (quotaUsage.lastReset !== today) {
-    quotaUsage.daily = 0;
-    quotaUsage.lastReset = today;
+  // Check quota (daily and monthly)
+  const usage = await getQuotaUsage(QUOTA_SUPPLIER);
+  const periods = [
+    { name: "Daily", percent: usage.dailyPercent },
+    { name: "Monthly", percent: usage.monthlyPercent },
+  ];
+
+  for (const period of periods) {
+    if (period.percent >= QUOTA_CRITICAL_PERCENT) {
+      alerts.push({
+        type: "quota",
+        level: "critical",
+        message: `${period.name} API quota limit reached (100%)`,
+        timestamp: new Date().toISOString(),
+      });
+    } else if (period.percent >= QUOTA_WARNING_PERCENT) {
+      alerts.push({
+        type: "quota",
+        level: "warning",
+        message: `${period.name} API quota at ${Math.round(period.percent)}%`,
+        timestamp: new Date().toISOString(),
+      });
+    }
   }
-  const usagePercent = (quotaUsage.daily / quotaUsage.dailyLimit) * 100;
 
-  if (usagePercent >= 100) {
+  // Check Amadeus circuit breaker
+  const circuit = getCircuitState(AMADEUS_CIRCUIT);
+  if (circuit.state !== "closed") {
     alerts.push({
-      type: "quota",
+      type: "api_circuit_open",
       level: "critical",
-      message: "API quota limit reached (100%)",
-      timestamp: new Date().toISOString(),
-    });
-  } else if (usagePercent >= 80) {
-    alerts.push({
-      type: "quota",
-      level: "warning",
-      message: `API quota at ${Math.round(usagePercent)}%`,
-      timestamp: new Date().toISOString(),
+      message: `Amadeus calls paused after repeated failures (circuit ${circuit.state})`,
+      error: circuit.lastError,
+      timestamp: circuit.lastFailureAt,
     });
   }
 
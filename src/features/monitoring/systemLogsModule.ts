@@ -1,155 +1,132 @@
 import { Hono } from "hono";
-import { requireAdmin } from "@/lib/auth.js";
+import type { Context } from "hono";
+import type { Prisma } from "@prisma/client";
+import { requirePermission } from "@/lib/auth.js";
 import { prisma } from "@/lib/prisma.js";
+import { validateInput } from "@/lib/validateInput.js";
+import { dateRangeQuerySchema } from "@/schema/dateRangeSchema.js";
+import { createLogger, LOG_LEVELS, LOG_RETENTION_DAYS } from "@/lib/logger.js";
 
 const app = new Hono();
+const log = createLogger("SystemLogs");
+
+// Filters shared by the list and stats endpoints (malformed dates are a 400)
+const buildWhere = async (
+  c: Context,
+  { withLevel = true } = {}
+): Promise<Prisma.systemLogWhereInput> => {
+  const where: Prisma.systemLogWhereInput = {};
+
+  const level = c.req.query("level") || "all";
+  if (withLevel && LOG_LEVELS.includes(level as (typeof LOG_LEVELS)[number])) {
+    where.level = level;
+  }
+
+  const service = c.req.query("service") || "all";
+  if (service !== "all") where.service = { equals: service, mode: "insensitive" };
+
+  const search = c.req.query("search");
+  if (search) {
+    where.OR = [
+      { message: { contains: search, mode: "insensitive" } },
+      { details: { contains: search, mode: "insensitive" } },
+    ];
+  }
+
+  const { startDate, endDate } = await validateInput({
+    type: "query",
+    schema: dateRangeQuerySchema,
+    data: c.req.query(),
+  });
+  if (startDate || endDate) {
+    where.createdAt = {
+      ...(startDate && { gte: startDate }),
+      ...(endDate && { lte: endDate }),
+    };
+  }
+
+  if (c.req.query("requestId")) where.requestId = c.req.query("requestId");
+  if (c.req.query("userId")) where.userId = c.req.query("userId");
+
+  return where;
+};
+
+// Entry counts per level
+const countByLevel = async (where: Prisma.systemLogWhereInput) => {
+  const grouped = await prisma.systemLog.groupBy({
+    by: ["level"],
+    where,
+    _count: { _all: true },
+  });
+  const count = (level: string) => grouped.find((g) => g.level === level)?._count._all ?? 0;
+
+  return {
+    total: grouped.reduce((sum, g) => sum + g._count._all, 0),
+    errors: count("error"),
+    warnings: count("warning"),
+    info: count("info"),
+    debug: count("debug"),
+  };
+};
 
 /**
  * @route GET /api/admin/monitoring/system-logs
- * @desc Get system logs aggregated from various sources
- * @access Admin only
+ * @desc Get application logs written through the structured logger (newest first)
+ * @query limit, offset, level (debug|info|warning|error|all), service, search, startDate, endDate, requestId, userId
+ * @access Admin only (system:logs permission)
  */
-app.get("/system-logs", requireAdmin, async (c) => {
-  const limit = parseInt(c.req.query("limit") || "50");
-  const offset = parseInt(c.req.query("offset") || "0");
-  const level = c.req.query("level") || "all";
-  const service = c.req.query("service") || "all";
-  const search = c.req.query("search") || "";
+app.get("/system-logs", requirePermission("system", "logs"), async (c) => {
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "50") || 50, 1), 200);
+  const offset = Math.max(parseInt(c.req.query("offset") || "0") || 0, 0);
+  const where = await buildWhere(c);
 
   try {
-    // Aggregate logs from different sources
-    const logs: any[] = [];
-
-    // 1. Get recent search events (info logs)
-    if (level === "all" || level === "info") {
-      const searchEvents = await prisma.searchEvent.findMany({
-        take: Math.min(limit, 20),
-        orderBy: { createdAt: "desc" },
-        select: {
-          id: true,
-          createdAt: true,
-          origin: true,
-          destination: true,
-          tripType: true,
-          adults: true,
-          children: true,
-        },
-      });
-
-      searchEvents.forEach((event) => {
-        const totalPassengers = event.adults + event.children;
-        logs.push({
-          id: `search-${event.id}`,
-          timestamp: event.createdAt.toISOString(),
-          level: "info",
-          service: "Search Service",
-          message: "Flight search completed",
-          details: `${event.origin} to ${event.destination}, ${totalPassengers} passengers, ${event.tripType}`,
-          user: "anonymous",
-        });
-      });
-    }
-
-    // 2. Get user authentication events (info logs)
-    if (level === "all" || level === "info") {
-      const recentSessions = await prisma.session.findMany({
-        take: Math.min(limit, 20),
+    const [entries, stats] = await Promise.all([
+      prisma.systemLog.findMany({
+        where,
         orderBy: { createdAt: "desc" },
-        include: {
-          user: {
-            select: {
-              email: true,
-            },
-          },
-        },
-      });
-
-      recentSessions.forEach((session) => {
-        logs.push({
-          id: `auth-${session.id}`,
-          timestamp: session.createdAt.toISOString(),
-          level: "info",
-          service: "Auth Service",
-          message: "User session created",
-          details: `IP: ${session.ipAddress || "unknown"}, User Agent: ${session.userAgent || "unknown"}`,
-          user: session.user?.email || "unknown",
-        });
-      });
-    }
-
-    // 3. Get banned users (warning logs)
-    if (level === "all" || level === "warning") {
-      const bannedUsers = await prisma.user.findMany({
-        where: { banned: true },
-        take: Math.min(limit, 10),
-        orderBy: { updatedAt: "desc" },
-        select: {
-          id: true,
-          email: true,
-          banReason: true,
-          updatedAt: true,
-        },
-      });
-
-      bannedUsers.forEach((user) => {
-        logs.push({
-          id: `ban-${user.id}`,
-          timestamp: user.updatedAt.toISOString(),
-          level: "warning",
-          service: "User Management",
-          message: "User banned",
-          details: user.banReason || "No reason provided",
-          user: user.email || "unknown",
-        });
-      });
-    }
-
-    // Sort all logs by timestamp (most recent first)
-    logs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-
-    // Apply filters
-    let filteredLogs = logs;
-
-    if (service !== "all") {
-      filteredLogs = filteredLogs.filter((log) =>
-        log.service.toLowerCase().includes(service.toLowerCase())
-      );
-    }
-
-    if (search) {
-      filteredLogs = filteredLogs.filter(
-        (log) =>
-          log.message.toLowerCase().includes(search.toLowerCase()) ||
-          log.details.toLowerCase().includes(search.toLowerCase()) ||
-          log.user.toLowerCase().includes(search.toLowerCase())
-      );
-    }
-
-    // Paginate
-    const paginatedLogs = filteredLogs.slice(offset, offset + limit);
-
-    // Calculate stats
-    const stats = {
-      total: filteredLogs.length,
-      errors: filteredLogs.filter((l) => l.level === "error").length,
-      warnings: filteredLogs.filter((l) => l.level === "warning").length,
-      info: filteredLogs.filter((l) => l.level === "info").length,
-    };
+        take: limit,
+        skip: offset,
+      }),
+      countByLevel(where),
+    ]);
+
+    // Show who triggered the entry
+    const userIds = [...new Set(entries.map((e) => e.userId).filter((id): id is string => !!id))];
+    const users = userIds.length
+      ? await prisma.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true, email: true },
+        })
+      : [];
+    const emails = new Map(users.map((u) => [u.id, u.email]));
+
+    const logs = entries.map((entry) => ({
+      id: entry.id,
+      timestamp: entry.createdAt.toISOString(),
+      level: entry.level,
+      service: entry.service,
+      message: entry.message,
+      details: entry.details ?? "",
+      context: entry.context,
+      requestId: entry.requestId,
+      user: entry.userId ? emails.get(entry.userId) ?? entry.userId : "anonymous",
+    }));
 
     return c.json({
-      logs: paginatedLogs,
+      logs,
       stats,
-      total: filteredLogs.length,
+      total: stats.total,
       limit,
       offset,
     });
   } catch (error) {
-    console.error("Error fetching system logs:", error);
+    log.error("Error fetching system logs", error);
     return c.json(
       {
         error: "Failed to fetch system logs",
         logs: [],
-        stats: { total: 0, errors: 0, warnings: 0, info: 0 },
+        stats: { total: 0, errors: 0, warnings: 0, info: 0, debug: 0 },
       },
       500
     );
@@ -158,31 +135,37 @@ app.get("/system-logs", requireAdmin, async (c) => {
 
 /**
  * @route GET /api/admin/monitoring/system-logs/stats
- * @desc Get system logs statistics
- * @access Admin only
+ * @desc Get log counts per level and per service (same filters as the list, level excluded)
+ * @access Admin only (system:logs permission)
  */
-app.get("/system-logs/stats", requireAdmin, async (c) => {
+app.get("/system-logs/stats", requirePermission("system", "logs"), async (c) => {
+  const where = await buildWhere(c, { withLevel: false });
+
   try {
-    const [searchCount, sessionCount, bannedCount] = await Promise.all([
-      prisma.searchEvent.count(),
-      prisma.session.count(),
-      prisma.user.count({ where: { banned: true } }),
+    const [stats, services] = await Promise.all([
+      countByLevel(where),
+      prisma.systemLog.groupBy({
+        by: ["service"],
+        where,
+        _count: { _all: true },
+        orderBy: { service: "asc" },
+      }),
     ]);
 
     return c.json({
-      total: searchCount + sessionCount + bannedCount,
-      errors: 0, // Would need error logging table
-      warnings: bannedCount,
-      info: searchCount + sessionCount,
+      ...stats,
+      services: services.map((s) => ({ service: s.service, count: s._count._all })),
+      retentionDays: LOG_RETENTION_DAYS,
     });
   } catch (error) {
-    console.error("Error fetching system log stats:", error);
+    log.error("Error fetching system log stats", error);
     return c.json(
       {
         total: 0,
         errors: 0,
         warnings: 0,
         info: 0,
+        debug: 0,
       },
       500
     );
@@ -1,7 +1,8 @@
 import { Hono } from "hono";
 import { prisma } from "@/lib/prisma.js";
-import { requireAuth, requireAdmin, auth } from "@/lib/auth.js";
+import { requireAuth, requirePermission, auth } from "@/lib/auth.js";
 import { sendToUser, sendToUsers } from "@/lib/websocket.js";
+import { recordAudit } from "@/lib/audit.js";
 
 // Define app with proper types
 const app = new Hono<{
@@ -158,9 +159,9 @@ app.delete("/:id", requireAuth, async (c) => {
 /**
  * @route POST /api/notifications/admin/send
  * @desc Send notification to a single user (respects preferences)
- * @access Admin only
+ * @access Admin only (notification:send permission)
  */
-app.post("/admin/send", requireAdmin, async (c) => {
+app.post("/admin/send", requirePermission("notification", "send"), async (c) => {
     const { userId, title, message, type = "info" } = await c.req.json();
 
     if (!userId || !title || !message) {
@@ -200,15 +201,22 @@ app.post("/admin/send", requireAdmin, async (c) => {
         payload: notification,
     });
 
+    await recordAudit(c, {
+        action: "notification.send",
+        targetType: "notification",
+        targetId: notification.id,
+        metadata: { userId, title, type },
+    });
+
     return c.json({ success: true, notification });
 });
 
 /**
  * @route POST /api/notifications/admin/send-bulk
  * @desc Send notification to multiple users (respects preferences)
- * @access Admin only
+ * @access Admin only (notification:send permission)
  */
-app.post("/admin/send-bulk", requireAdmin, async (c) => {
+app.post("/admin/send-bulk", requirePermission("notification", "send"), async (c) => {
     const { userIds, title, message, type = "info" } = await c.req.json();
 
     if (!userIds || !Array.isArray(userIds) || userIds.length === 0) {
@@ -258,6 +266,17 @@ app.post("/admin/send-bulk", requireAdmin, async (c) => {
         payload: { title, message, type },
     });
 
+    await recordAudit(c, {
+        action: "notification.send-bulk",
+        targetType: "notification",
+        metadata: {
+            title,
+            type,
+            sent: notifications.count,
+            blocked: userIds.length - eligibleUserIds.length,
+        },
+    });
+
     return c.json({
         success: true,
         sent: notifications.count,
@@ -268,9 +287,9 @@ app.post("/admin/send-bulk", requireAdmin, async (c) => {
 /**
  * @route GET /api/notifications/admin/all
  * @desc Get all notifications (admin view)
- * @access Admin only
+ * @access Admin only (notification:list permission)
  */
-app.get("/admin/all", requireAdmin, async (c) => {
+app.get("/admin/all", requirePermission("notification", "list"), async (c) => {
     const limit = parseInt(c.req.query("limit") || "50");
     const offset = parseInt(c.req.query("offset") || "0");
 
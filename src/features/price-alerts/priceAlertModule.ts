@@ -0,0 +1,184 @@
+import { Hono } from "hono";
+import { prisma } from "@/lib/prisma.js";
+import { requireAuth, auth } from "@/lib/auth.js";
+import { validateInput } from "@/lib/validateInput.js";
+import {
+  priceAlertCreateSchema,
+  priceAlertUpdateSchema,
+} from "@/schema/priceAlertSchema.js";
+
+// Define app with proper types
+const app = new Hono<{
+  Variables: {
+    user: typeof auth.$Infer.Session.user | null;
+    session: typeof auth.$Infer.Session.session | null;
+  };
+}>();
+
+const MAX_ALERTS_PER_USER = 20;
+const HISTORY_LIMIT = 90; // Price checks returned with an alert
+
+/**
+ * @route   GET /api/user/price-alerts
+ * @desc    List current user's price alerts
+ * @access  Private
+ */
+app.get("/", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const alerts = await prisma.priceAlert.findMany({
+    where: { userId: user.id },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return c.json({ alerts, total: alerts.length, limit: MAX_ALERTS_PER_USER });
+});
+
+/**
+ * @route   POST /api/user/price-alerts
+ * @desc    Watch a route; notified when the cheapest price drops below targetPrice
+ * @access  Private
+ */
+app.post("/", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const validated = await validateInput({
+    type: "form",
+    schema: priceAlertCreateSchema,
+    data: await c.req.json(),
+  });
+
+  const count = await prisma.priceAlert.count({ where: { userId: user.id } });
+  if (count >= MAX_ALERTS_PER_USER) {
+    return c.json(
+      { message: `You can have at most ${MAX_ALERTS_PER_USER} price alerts` },
+      400
+    );
+  }
+
+  const alert = await prisma.priceAlert.create({
+    data: {
+      userId: user.id,
+      origin: validated.origin,
+      destination: validated.destination,
+      departureDate: new Date(validated.departureDate),
+      returnDate: validated.returnDate ? new Date(validated.returnDate) : null,
+      adults: validated.adults,
+      travelClass: validated.travelClass,
+      currency: validated.currency,
+      targetPrice: validated.targetPrice,
+    },
+  });
+
+  return c.json(alert, 201);
+});
+
+/**
+ * @route   GET /api/user/price-alerts/:id
+ * @desc    Get a price alert with its price history (latest first)
+ * @access  Private
+ */
+app.get("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const alert = await prisma.priceAlert.findFirst({
+    where: { id: c.req.param("id"), userId: user.id },
+    include: {
+      history: { orderBy: { checkedAt: "desc" }, take: HISTORY_LIMIT },
+    },
+  });
+
+  if (!alert) {
+    return c.json({ message: "Price alert not found" }, 404);
+  }
+
+  return c.json(alert);
+});
+
+/**
+ * @route   PUT /api/user/price-alerts/:id
+ * @desc    Update target price or pause/resume a price alert
+ * @access  Private
+ */
+app.put("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const alertId = c.req.param("id");
+
+  const validated = await validateInput({
+    type: "form",
+    schema: priceAlertUpdateSchema,
+    data: await c.req.json(),
+  });
+
+  if (validated.targetPrice === undefined && validated.active === undefined) {
+    return c.json({ message: "No fields to update" }, 400);
+  }
+
+  const alert = await prisma.priceAlert.findFirst({
+    where: { id: alertId, userId: user.id },
+  });
+
+  if (!alert) {
+    return c.json({ message: "Price alert not found" }, 404);
+  }
+
+  const updated = await prisma.priceAlert.update({
+    where: { id: alertId },
+    data: {
+      ...(validated.targetPrice !== undefined && {
+        targetPrice: validated.targetPrice,
+        // New target: notify on the next drop below it
+        lastNotifiedPrice: null,
+      }),
+      ...(validated.active !== undefined && { active: validated.active }),
+    },
+  });
+
+  return c.json(updated);
+});
+
+/**
+ * @route   DELETE /api/user/price-alerts/:id
+ * @desc    Delete a price alert and its price history
+ * @access  Private
+ */
+app.delete("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const alertId = c.req.param("id");
+
+  const alert = await prisma.priceAlert.findFirst({
+    where: { id: alertId, userId: user.id },
+  });
+
+  if (!alert) {
+    return c.json({ message: "Price alert not found" }, 404);
+  }
+
+  await prisma.priceAlert.delete({ where: { id: alertId } });
+
+  return c.json({ success: true });
+});
+
+export default app;
@@ -0,0 +1,222 @@
+import { format, parseISO } from "date-fns";
+import { prisma } from "@/lib/prisma.js";
+import { isQuotaExceeded } from "@/lib/quota.js";
+import { sendToUser } from "@/lib/websocket.js";
+import { sendPriceAlertEmail } from "@/lib/email.js";
+import type { FlightOfferSearchQueryType } from "@/schema/flightSearchSchema.js";
+import { flightOfferService } from "@/features/flight-offers/offerService.js";
+import { getFlightSupplier } from "@/features/flight-offers/suppliers/index.js";
+import type { priceAlert } from "@prisma/client";
+import { createLogger } from "@/lib/logger.js";
+
+const log = createLogger("PriceAlerts");
+
+// How often each alert is re-checked (searches go through the search cache first)
+const PRICE_ALERT_RECHECK_MS =
+  Number(process.env.PRICE_ALERT_INTERVAL_MINUTES || 360) * 60 * 1000;
+const PRICE_ALERT_RUN_INTERVAL_MS = 15 * 60 * 1000; // Worker wake-up
+const PRICE_ALERT_BATCH_SIZE = 25; // Alerts re-checked per run
+const PRICE_ALERT_MIN_GAP_MS = 500; // Between alert searches
+
+let running = false;
+
+// Stored dates are UTC midnight; searches expect the local calendar day
+const toSearchDate = (date: Date) => parseISO(date.toISOString().slice(0, 10));
+
+const alertDates = (alert: priceAlert) =>
+  [alert.departureDate, alert.returnDate]
+    .filter((date): date is Date => !!date)
+    .map((date) => date.toISOString().slice(0, 10))
+    .join(" – ");
+
+/**
+ * In-app notification (pushed over WebSocket) and, if the user wants notifications, an email
+ */
+async function notifyPriceDrop(alert: priceAlert, price: number) {
+  const user = await prisma.user.findUnique({
+    where: { id: alert.userId },
+    select: { email: true, wantsNotifications: true },
+  });
+  if (!user) return;
+
+  const route = `${alert.origin} → ${alert.destination}`;
+  const notification = await prisma.notification.create({
+    data: {
+      userId: alert.userId,
+      title: `Price drop: ${route}`,
+      message: `${route} (${alertDates(alert)}) is now ${price.toFixed(2)} ${alert.currency}, below your target of ${alert.targetPrice.toFixed(2)} ${alert.currency}.`,
+      type: "price-alert",
+    },
+  });
+
+  sendToUser(alert.userId, {
+    type: "notification",
+    payload: { ...notification, priceAlertId: alert.id },
+  });
+
+  if (user.wantsNotifications) {
+    await sendPriceAlertEmail(user.email, {
+      route,
+      dates: alertDates(alert),
+      price,
+      targetPrice: alert.targetPrice,
+      currency: alert.currency,
+    }).catch(() => undefined); // Logged by sendPriceAlertEmail
+  }
+}
+
+/**
+ * Re-price one alert, record the price and notify on a drop below the target.
+ * Only a further drop notifies again until the price goes back above the target.
+ */
+export async function checkPriceAlert(alert: priceAlert) {
+  const queries: FlightOfferSearchQueryType = {
+    originLocationCode: alert.origin,
+    destinationLocationCode: alert.destination,
+    departureDate: toSearchDate(alert.departureDate),
+    returnDate: alert.returnDate ? toSearchDate(alert.returnDate) : undefined,
+    adults: alert.adults,
+    children: undefined,
+    travelClass: alert.travelClass as FlightOfferSearchQueryType["travelClass"],
+    currency: alert.currency,
+  };
+
+  const checkedAt = new Date();
+  let cheapest: number | null = null;
+  let offerCount = 0;
+
+  try {
+    const response = await flightOfferService.getFlightOffers(queries);
+    offerCount = response.offers.length;
+    if (offerCount > 0) {
+      cheapest = Math.min(...response.offers.map((offer) => offer.price.total));
+    }
+  } catch (error) {
+    await prisma.priceAlert.update({
+      where: { id: alert.id },
+      data: {
+        lastCheckedAt: checkedAt,
+        lastError: error instanceof Error ? error.message : String(error),
+      },
+    });
+    throw error;
+  }
+
+  if (cheapest === null) {
+    await prisma.priceAlert.update({
+      where: { id: alert.id },
+      data: { lastCheckedAt: checkedAt, lastError: "No offers found" },
+    });
+    return { alertId: alert.id, price: null, notified: false };
+  }
+
+  const belowTarget = cheapest < alert.targetPrice;
+  const notify =
+    belowTarget &&
+    (alert.lastNotifiedPrice === null || cheapest < alert.lastNotifiedPrice);
+
+  await prisma.$transaction([
+    prisma.priceAlertHistory.create({
+      data: {
+        alertId: alert.id,
+        price: cheapest,
+        currency: alert.currency,
+        offerCount,
+        checkedAt,
+      },
+    }),
+    prisma.priceAlert.update({
+      where: { id: alert.id },
+      data: {
+        lastPrice: cheapest,
+        lowestPrice: Math.min(cheapest, alert.lowestPrice ?? Infinity),
+        lastCheckedAt: checkedAt,
+        lastError: null,
+        ...(notify && { lastNotifiedPrice: cheapest, lastNotifiedAt: checkedAt }),
+        // Back above the target: the next drop notifies again
+        ...(!belowTarget && { lastNotifiedPrice: null }),
+      },
+    }),
+  ]);
+
+  if (notify) await notifyPriceDrop(alert, cheapest);
+
+  return { alertId: alert.id, price: cheapest, notified: notify };
+}
+
+/**
+ * Re-check the alerts due for a check, oldest first.
+ * Stops early when the supplier quota is used up; the rest wait for the next run.
+ */
+export async function runPriceAlertChecks() {
+  if (running) return null;
+  running = true;
+
+  const summary = { checked: 0, notified: 0, failed: 0, expired: 0, quotaExceeded: false };
+
+  try {
+    // Departed alerts are no longer checked
+    const expired = await prisma.priceAlert.updateMany({
+      where: { active: true, departureDate: { lt: new Date(format(new Date(), "yyyy-MM-dd")) } },
+      data: { active: false },
+    });
+    summary.expired = expired.count;
+
+    const alerts = await prisma.priceAlert.findMany({
+      where: {
+        active: true,
+        OR: [
+          { lastCheckedAt: null },
+          { lastCheckedAt: { lt: new Date(Date.now() - PRICE_ALERT_RECHECK_MS) } },
+        ],
+      },
+      orderBy: { lastCheckedAt: { sort: "asc", nulls: "first" } },
+      take: PRICE_ALERT_BATCH_SIZE,
+    });
+
+    const supplier = getFlightSupplier();
+
+    for (const alert of alerts) {
+      if (await isQuotaExceeded(supplier.name)) {
+        summary.quotaExceeded = true;
+        log.warn("Supplier quota exceeded, remaining alerts postponed");
+        break;
+      }
+
+      try {
+        const result = await checkPriceAlert(alert);
+        summary.checked++;
+        if (result.notified) summary.notified++;
+      } catch (error) {
+        summary.failed++;
+        log.error(`Check failed for alert ${alert.id}`, { alertId: alert.id, error });
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, PRICE_ALERT_MIN_GAP_MS));
+    }
+
+    log.info(
+      `Run finished: ${summary.checked} checked, ${summary.notified} notified, ${summary.failed} failed`,
+      summary
+    );
+    return summary;
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the background re-check loop
+ */
+export function startPriceAlertWorker() {
+  const run = () =>
+    runPriceAlertChecks().catch((error) => {
+      log.error("Run failed", error);
+    });
+
+  void run();
+  setInterval(run, PRICE_ALERT_RUN_INTERVAL_MS);
+  log.info(
+    `Worker started (alerts re-checked every ${PRICE_ALERT_RECHECK_MS / 60000} minutes)`
+  );
+}
@@ -0,0 +1,217 @@
+import { Hono } from "hono";
+import { prisma } from "@/lib/prisma.js";
+import { requireAuth, auth } from "@/lib/auth.js";
+import { validateInput } from "@/lib/validateInput.js";
+import { flightOfferSearchSchema } from "@/schema/flightSearchSchema.js";
+import { flightOfferFilterSchema } from "@/schema/flightFilterSchema.js";
+import { flightMulticitySchema } from "@/schema/flightMulticitySchema.js";
+import {
+  savedSearchCreateSchema,
+  savedSearchUpdateSchema,
+} from "@/schema/savedSearchSchema.js";
+import {
+  getSessionCookie,
+  savedSearchService,
+  type SearchInput,
+} from "./savedSearchService.js";
+
+// Define app with proper types
+const app = new Hono<{
+  Variables: {
+    user: typeof auth.$Infer.Session.user | null;
+    session: typeof auth.$Infer.Session.session | null;
+  };
+}>();
+
+/**
+ * @route   GET /api/user/searches
+ * @desc    List current user's searches (saved first, then most recent)
+ * @query   type - recent | saved | all (default all)
+ * @access  Private
+ */
+app.get("/", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const type = c.req.query("type") || "all";
+  if (!["recent", "saved", "all"].includes(type)) {
+    return c.json({ message: "type must be recent, saved or all" }, 400);
+  }
+
+  const searches = await prisma.savedSearch.findMany({
+    where: {
+      userId: user.id,
+      ...(type === "recent" && { pinned: false }),
+      ...(type === "saved" && { pinned: true }),
+    },
+    orderBy: [{ pinned: "desc" }, { lastRunAt: "desc" }],
+  });
+
+  return c.json({ searches, total: searches.length });
+});
+
+/**
+ * @route   POST /api/user/searches
+ * @desc    Save a search under a name (query for one-way/round-trip, multiCity for multi-city)
+ * @access  Private
+ */
+app.post("/", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const validated = await validateInput({
+    type: "form",
+    schema: savedSearchCreateSchema,
+    data: await c.req.json(),
+  });
+
+  // Only searches that would run can be saved
+  let input: SearchInput;
+  if (validated.query) {
+    const query = Object.fromEntries(
+      Object.entries(validated.query).map(([key, value]) => [key, String(value)])
+    );
+    await validateInput({ type: "form", schema: flightOfferSearchSchema, data: query });
+    await validateInput({ type: "form", schema: flightOfferFilterSchema, data: query });
+    input = { searchType: "flight-offers", query };
+  } else {
+    await validateInput({ type: "form", schema: flightMulticitySchema, data: validated.multiCity });
+    input = { searchType: "multi-city", body: validated.multiCity! };
+  }
+
+  const search = await savedSearchService.saveSearch(user.id, validated.name, input);
+  return c.json(search, 201);
+});
+
+/**
+ * @route   POST /api/user/searches/merge
+ * @desc    Move the anonymous session's history (fa_sid cookie) into the account
+ * @access  Private
+ */
+app.post("/merge", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const sessionId = getSessionCookie(c.req.raw.headers);
+  if (!sessionId) {
+    return c.json({ merged: 0 });
+  }
+
+  const result = await savedSearchService.mergeSessionSearches(sessionId, user.id);
+  return c.json(result);
+});
+
+/**
+ * @route   DELETE /api/user/searches
+ * @desc    Clear recent search history (saved searches are kept)
+ * @access  Private
+ */
+app.delete("/", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const deleted = await prisma.savedSearch.deleteMany({
+    where: { userId: user.id, pinned: false },
+  });
+
+  return c.json({ success: true, deleted: deleted.count });
+});
+
+/**
+ * @route   PUT /api/user/searches/:id
+ * @desc    Rename a search, or pin (save) / unpin it
+ * @access  Private
+ */
+app.put("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const validated = await validateInput({
+    type: "form",
+    schema: savedSearchUpdateSchema,
+    data: await c.req.json(),
+  });
+
+  if (validated.name === undefined && validated.pinned === undefined) {
+    return c.json({ message: "No fields to update" }, 400);
+  }
+
+  const search = await prisma.savedSearch.findFirst({
+    where: { id: c.req.param("id"), userId: user.id },
+  });
+
+  if (!search) {
+    return c.json({ message: "Search not found" }, 404);
+  }
+
+  const updated = await savedSearchService.updateSearch(search, validated);
+  return c.json(updated);
+});
+
+/**
+ * @route   POST /api/user/searches/:id/run
+ * @desc    Re-run a search against current flight offers (first page)
+ * @access  Private
+ */
+app.post("/:id/run", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const search = await prisma.savedSearch.findFirst({
+    where: { id: c.req.param("id"), userId: user.id },
+  });
+
+  if (!search) {
+    return c.json({ message: "Search not found" }, 404);
+  }
+
+  const result = await savedSearchService.rerunSearch(search);
+  return c.json({ searchId: search.id, result });
+});
+
+/**
+ * @route   DELETE /api/user/searches/:id
+ * @desc    Delete a recent or saved search
+ * @access  Private
+ */
+app.delete("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const searchId = c.req.param("id");
+
+  const search = await prisma.savedSearch.findFirst({
+    where: { id: searchId, userId: user.id },
+  });
+
+  if (!search) {
+    return c.json({ message: "Search not found" }, 404);
+  }
+
+  await prisma.savedSearch.delete({ where: { id: searchId } });
+
+  return c.json({ success: true });
+});
+
+export default app;
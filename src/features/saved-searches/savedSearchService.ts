@@ -0,0 +1,298 @@
+import { createHash } from "crypto";
+import { HTTPException } from "hono/http-exception";
+import { subDays } from "date-fns";
+import type { Prisma, savedSearch } from "@prisma/client";
+import { prisma } from "@/lib/prisma.js";
+import { validateInput } from "@/lib/validateInput.js";
+import { flightOfferSearchSchema } from "@/schema/flightSearchSchema.js";
+import { flightOfferFilterSchema } from "@/schema/flightFilterSchema.js";
+import { flightMulticitySchema } from "@/schema/flightMulticitySchema.js";
+import { flightOfferService } from "@/features/flight-offers/offerService.js";
+import { travelerService } from "@/features/travelers/travelerService.js";
+import { createLogger } from "@/lib/logger.js";
+
+const log = createLogger("SavedSearches");
+
+// History limits
+export const RECENT_SEARCH_LIMIT = 20; // Unpinned searches kept per user/session
+export const SAVED_SEARCH_LIMIT = 50;
+const ANONYMOUS_RETENTION_DAYS = 30; // Unmerged session history
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Who ran the search: a signed-in user, or an anonymous session (fa_sid)
+export type SearchOwner = { userId: string } | { sessionId: string };
+
+// A search as run against /flight-offers
+export type SearchInput =
+  | { searchType: "flight-offers"; query: Record<string, string> }
+  | { searchType: "multi-city"; body: Record<string, any> };
+
+// Anonymous session id from the fa_sid cookie only
+// Used to merge history into an account, where a client-chosen header could claim any session
+export const getSessionCookie = (headers: Headers) => {
+  const cookie = (headers.get("cookie") ?? "")
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith("fa_sid="));
+  return cookie ? decodeURIComponent(cookie.slice("fa_sid=".length)) : undefined;
+};
+
+// Anonymous session id, read like analytics ingestion does: x-session-id header or fa_sid cookie
+export const getAnonymousSessionId = (headers: Headers) =>
+  headers.get("x-session-id") || getSessionCookie(headers);
+
+const ownerWhere = (owner: SearchOwner): Prisma.savedSearchWhereInput =>
+  "userId" in owner
+    ? { userId: owner.userId }
+    : { userId: null, sessionId: owner.sessionId };
+
+// JSON with sorted keys, so equal params always produce the same signature
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+// Route summary, stored params and dedupe signature of a search
+// One-way/round-trip searches dedupe on the search fields only; filters follow the latest run
+function describeSearch(input: SearchInput) {
+  if (input.searchType === "multi-city") {
+    const legs: { originLocationCode?: string; destinationLocationCode?: string }[] =
+      input.body.originDestinations ?? [];
+    return {
+      searchType: "multi-city",
+      origin: legs[0]?.originLocationCode ?? "",
+      destination: legs[0]?.destinationLocationCode ?? "",
+      params: input.body,
+      signature: createHash("sha1")
+        .update(`multi-city:${stableStringify(input.body)}`)
+        .digest("hex"),
+    };
+  }
+
+  const { cursor: _cursor, ...query } = input.query;
+  const searchFields = Object.keys(flightOfferSearchSchema.fields);
+  const searchQuery = Object.fromEntries(
+    Object.entries(query).filter(([key]) => searchFields.includes(key))
+  );
+
+  return {
+    searchType: query.returnDate ? "round-trip" : "one-way",
+    origin: query.originLocationCode ?? "",
+    destination: query.destinationLocationCode ?? "",
+    params: query,
+    signature: createHash("sha1")
+      .update(`flight-offers:${stableStringify(searchQuery)}`)
+      .digest("hex"),
+  };
+}
+
+// Drop the oldest unpinned searches beyond the recent-search cap
+async function trimRecentSearches(owner: SearchOwner) {
+  const overflow = await prisma.savedSearch.findMany({
+    where: { ...ownerWhere(owner), pinned: false },
+    orderBy: { lastRunAt: "desc" },
+    skip: RECENT_SEARCH_LIMIT,
+    select: { id: true },
+  });
+  if (overflow.length > 0) {
+    await prisma.savedSearch.deleteMany({
+      where: { id: { in: overflow.map((s) => s.id) } },
+    });
+  }
+}
+
+// Stored params back into a search request
+const toSearchInput = (search: savedSearch): SearchInput =>
+  search.searchType === "multi-city"
+    ? { searchType: "multi-city", body: search.params as Record<string, any> }
+    : { searchType: "flight-offers", query: search.params as Record<string, string> };
+
+export const savedSearchService = {
+  // Record a search in the owner's recent history
+  // Repeating a search (including a saved one) moves it to the top instead of adding a row
+  async recordSearch(owner: SearchOwner, input: SearchInput) {
+    const described = describeSearch(input);
+
+    const existing = await prisma.savedSearch.findFirst({
+      where: { ...ownerWhere(owner), signature: described.signature },
+    });
+
+    if (existing) {
+      return prisma.savedSearch.update({
+        where: { id: existing.id },
+        data: {
+          params: described.params,
+          runCount: { increment: 1 },
+          lastRunAt: new Date(),
+        },
+      });
+    }
+
+    const created = await prisma.savedSearch.create({
+      data: {
+        ...("userId" in owner
+          ? { userId: owner.userId }
+          : { sessionId: owner.sessionId }),
+        ...described,
+      },
+    });
+
+    await trimRecentSearches(owner);
+    return created;
+  },
+
+  // Save (pin) a search under a name, reusing the history entry when there is one
+  async saveSearch(userId: string, name: string, input: SearchInput) {
+    const owner = { userId };
+    const described = describeSearch(input);
+
+    const existing = await prisma.savedSearch.findFirst({
+      where: { userId, signature: described.signature },
+    });
+
+    if (!existing?.pinned) {
+      const savedCount = await prisma.savedSearch.count({
+        where: { userId, pinned: true },
+      });
+      if (savedCount >= SAVED_SEARCH_LIMIT) {
+        throw new HTTPException(400, {
+          message: `You can have at most ${SAVED_SEARCH_LIMIT} saved searches`,
+        });
+      }
+    }
+
+    if (existing) {
+      return prisma.savedSearch.update({
+        where: { id: existing.id },
+        data: { name, pinned: true, params: described.params },
+      });
+    }
+
+    return prisma.savedSearch.create({
+      data: { ...owner, ...described, name, pinned: true, runCount: 0 },
+    });
+  },
+
+  // Pin/unpin or rename a search from the user's history
+  async updateSearch(search: savedSearch, data: { name?: string; pinned?: boolean }) {
+    const pinning = data.pinned === true && !search.pinned;
+    if (pinning) {
+      const savedCount = await prisma.savedSearch.count({
+        where: { userId: search.userId, pinned: true },
+      });
+      if (savedCount >= SAVED_SEARCH_LIMIT) {
+        throw new HTTPException(400, {
+          message: `You can have at most ${SAVED_SEARCH_LIMIT} saved searches`,
+        });
+      }
+      if (!data.name && !search.name) {
+        throw new HTTPException(400, { message: "Saved searches need a name" });
+      }
+    }
+
+    const updated = await prisma.savedSearch.update({
+      where: { id: search.id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.pinned !== undefined && { pinned: data.pinned }),
+      },
+    });
+
+    // Unpinned searches count towards the recent-search cap again
+    if (data.pinned === false && search.userId) {
+      await trimRecentSearches({ userId: search.userId });
+    }
+    return updated;
+  },
+
+  // Replay a stored search against the flight offer service
+  // Past dates fail validation like a fresh search would
+  async rerunSearch(search: savedSearch) {
+    const input = toSearchInput(search);
+    let result;
+
+    if (input.searchType === "multi-city") {
+      const body = await validateInput({
+        type: "form",
+        schema: flightMulticitySchema,
+        data: input.body,
+      });
+      const request = await travelerService.applyToMultiCity(search.userId, body);
+      result = await flightOfferService.getMultiCityFlightOffers(request);
+    } else {
+      const [queries, filters] = await Promise.all([
+        validateInput({ type: "query", schema: flightOfferSearchSchema, data: input.query }),
+        validateInput({ type: "query", schema: flightOfferFilterSchema, data: input.query }),
+      ]);
+      result = await flightOfferService.searchFlightOffers(
+        await travelerService.applyToSearch(search.userId, queries),
+        filters
+      );
+    }
+
+    await prisma.savedSearch.update({
+      where: { id: search.id },
+      data: { runCount: { increment: 1 }, lastRunAt: new Date() },
+    });
+
+    return result;
+  },
+
+  // Move an anonymous session's history into a user's account
+  // Searches the user already has are folded into the existing entry
+  async mergeSessionSearches(sessionId: string, userId: string) {
+    const anonymous = await prisma.savedSearch.findMany({
+      where: { userId: null, sessionId },
+    });
+    if (anonymous.length === 0) return { merged: 0 };
+
+    const existing = await prisma.savedSearch.findMany({
+      where: { userId, signature: { in: anonymous.map((s) => s.signature) } },
+    });
+
+    await prisma.$transaction(
+      anonymous.map((search) => {
+        const match = existing.find((s) => s.signature === search.signature);
+        if (!match) {
+          return prisma.savedSearch.update({
+            where: { id: search.id },
+            data: { userId, sessionId: null },
+          });
+        }
+        return prisma.savedSearch.update({
+          where: { id: match.id },
+          data: {
+            runCount: { increment: search.runCount },
+            lastRunAt: search.lastRunAt > match.lastRunAt ? search.lastRunAt : match.lastRunAt,
+          },
+        });
+      })
+    );
+
+    // Folded duplicates are no longer needed
+    await prisma.savedSearch.deleteMany({ where: { userId: null, sessionId } });
+    await trimRecentSearches({ userId });
+
+    return { merged: anonymous.length };
+  },
+};
+
+// Periodically purge anonymous history that was never merged
+setInterval(() => {
+  prisma.savedSearch
+    .deleteMany({
+      where: {
+        userId: null,
+        lastRunAt: { lt: subDays(new Date(), ANONYMOUS_RETENTION_DAYS) },
+      },
+    })
+    .catch((error) => {
+      log.error("Cleanup failed", error);
+    });
+}, CLEANUP_INTERVAL_MS);
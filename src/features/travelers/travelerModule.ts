@@ -0,0 +1,209 @@
+import { Hono } from "hono";
+import { isValid, parseISO } from "date-fns";
+import type { travelerProfile } from "@prisma/client";
+import { prisma } from "@/lib/prisma.js";
+import { requireAuth, auth } from "@/lib/auth.js";
+import { validateInput } from "@/lib/validateInput.js";
+import {
+  travelerProfileSchema,
+  travelerProfileUpdateSchema,
+} from "@/schema/travelerProfileSchema.js";
+import { resolvePassengerType } from "./travelerService.js";
+
+// Define app with proper types
+const app = new Hono<{
+  Variables: {
+    user: typeof auth.$Infer.Session.user | null;
+    session: typeof auth.$Infer.Session.session | null;
+  };
+}>();
+
+const MAX_TRAVELERS_PER_USER = 20;
+
+// Profile with the passenger type it would be searched as on a date
+const withPassengerType = (profile: travelerProfile, travelDate: Date) => ({
+  ...profile,
+  passengerType: resolvePassengerType(profile, travelDate),
+});
+
+/**
+ * @route   GET /api/user/travelers
+ * @desc    List current user's saved travelers
+ * @query   travelDate - YYYY-MM-DD to compute each passengerType for (default today)
+ * @access  Private
+ */
+app.get("/", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const travelDateParam = c.req.query("travelDate");
+  const travelDate = travelDateParam ? parseISO(travelDateParam) : new Date();
+  if (!isValid(travelDate)) {
+    return c.json({ message: "travelDate must be in YYYY-MM-DD format" }, 400);
+  }
+
+  const travelers = await prisma.travelerProfile.findMany({
+    where: { userId: user.id },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // Profiles born after the travel date are listed without a type
+  const result = travelers.map((traveler) =>
+    traveler.dateOfBirth > travelDate
+      ? { ...traveler, passengerType: null }
+      : withPassengerType(traveler, travelDate)
+  );
+
+  return c.json({ travelers: result, total: result.length, limit: MAX_TRAVELERS_PER_USER });
+});
+
+/**
+ * @route   POST /api/user/travelers
+ * @desc    Save a traveler (name, date of birth, loyalty numbers, preferences)
+ * @access  Private
+ */
+app.post("/", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const validated = await validateInput({
+    type: "form",
+    schema: travelerProfileSchema,
+    data: await c.req.json(),
+  });
+
+  const count = await prisma.travelerProfile.count({ where: { userId: user.id } });
+  if (count >= MAX_TRAVELERS_PER_USER) {
+    return c.json(
+      { message: `You can have at most ${MAX_TRAVELERS_PER_USER} saved travelers` },
+      400
+    );
+  }
+
+  const traveler = await prisma.travelerProfile.create({
+    data: {
+      userId: user.id,
+      firstName: validated.firstName,
+      lastName: validated.lastName,
+      dateOfBirth: new Date(validated.dateOfBirth),
+      travelerType: validated.travelerType ?? null,
+      nationality: validated.nationality ?? null,
+      preferredCabin: validated.preferredCabin ?? null,
+      loyaltyPrograms: validated.loyaltyPrograms ?? undefined,
+    },
+  });
+
+  return c.json(withPassengerType(traveler, new Date()), 201);
+});
+
+/**
+ * @route   GET /api/user/travelers/:id
+ * @desc    Get a saved traveler
+ * @access  Private
+ */
+app.get("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const traveler = await prisma.travelerProfile.findFirst({
+    where: { id: c.req.param("id"), userId: user.id },
+  });
+
+  if (!traveler) {
+    return c.json({ message: "Traveler not found" }, 404);
+  }
+
+  return c.json(withPassengerType(traveler, new Date()));
+});
+
+/**
+ * @route   PUT /api/user/travelers/:id
+ * @desc    Update a saved traveler
+ * @access  Private
+ */
+app.put("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const travelerId = c.req.param("id");
+
+  const validated = await validateInput({
+    type: "form",
+    schema: travelerProfileUpdateSchema,
+    data: await c.req.json(),
+  });
+
+  if (Object.values(validated).every((value) => value === undefined)) {
+    return c.json({ message: "No fields to update" }, 400);
+  }
+
+  const traveler = await prisma.travelerProfile.findFirst({
+    where: { id: travelerId, userId: user.id },
+  });
+
+  if (!traveler) {
+    return c.json({ message: "Traveler not found" }, 404);
+  }
+
+  const updated = await prisma.travelerProfile.update({
+    where: { id: travelerId },
+    data: {
+      ...(validated.firstName !== undefined && { firstName: validated.firstName }),
+      ...(validated.lastName !== undefined && { lastName: validated.lastName }),
+      ...(validated.dateOfBirth !== undefined && {
+        dateOfBirth: new Date(validated.dateOfBirth),
+      }),
+      ...(validated.travelerType !== undefined && { travelerType: validated.travelerType }),
+      ...(validated.nationality !== undefined && { nationality: validated.nationality }),
+      ...(validated.preferredCabin !== undefined && {
+        preferredCabin: validated.preferredCabin,
+      }),
+      ...(validated.loyaltyPrograms !== undefined && {
+        loyaltyPrograms: validated.loyaltyPrograms ?? [],
+      }),
+    },
+  });
+
+  return c.json(withPassengerType(updated, new Date()));
+});
+
+/**
+ * @route   DELETE /api/user/travelers/:id
+ * @desc    Delete a saved traveler
+ * @access  Private
+ */
+app.delete("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  if (!user) {
+    return c.json({ message: "User not found" }, 404);
+  }
+
+  const travelerId = c.req.param("id");
+
+  const traveler = await prisma.travelerProfile.findFirst({
+    where: { id: travelerId, userId: user.id },
+  });
+
+  if (!traveler) {
+    return c.json({ message: "Traveler not found" }, 404);
+  }
+
+  await prisma.travelerProfile.delete({ where: { id: travelerId } });
+
+  return c.json({ success: true });
+});
+
+export default app;
@@ -0,0 +1,150 @@
+import { HTTPException } from "hono/http-exception";
+import { differenceInYears, parseISO } from "date-fns";
+import type { travelerProfile } from "@prisma/client";
+import { prisma } from "@/lib/prisma.js";
+import { AppValidationError } from "@/lib/errorHandler.js";
+import type { FlightOfferSearchQueryType } from "@/schema/flightSearchSchema.js";
+import type { FlightMulticityRequestType } from "@/schema/flightMulticitySchema.js";
+
+// Passenger types by age on the travel date (IATA: infant under 2, child under 12)
+export const INFANT_MAX_AGE = 2;
+export const CHILD_MAX_AGE = 12;
+
+export type PassengerType = "ADULT" | "CHILD" | "HELD_INFANT" | "SEATED_INFANT";
+
+type TravelerAge = Pick<travelerProfile, "firstName" | "dateOfBirth" | "travelerType">;
+
+// Stored dates are UTC midnight; compare calendar days
+const toCalendarDate = (date: Date) => parseISO(date.toISOString().slice(0, 10));
+
+/**
+ * Passenger type of a traveller on the given date.
+ * Infants are held unless their profile asks for a seat.
+ */
+export function resolvePassengerType(profile: TravelerAge, travelDate: Date): PassengerType {
+  const age = differenceInYears(travelDate, toCalendarDate(profile.dateOfBirth));
+
+  if (age < 0) {
+    throw new HTTPException(400, {
+      message: `${profile.firstName} is born after the travel date`,
+    });
+  }
+  if (age < INFANT_MAX_AGE) {
+    return profile.travelerType === "SEATED_INFANT" ? "SEATED_INFANT" : "HELD_INFANT";
+  }
+  if (age < CHILD_MAX_AGE) return "CHILD";
+  return "ADULT";
+}
+
+// Profiles owned by the user, in the requested order
+async function loadProfiles(userId: string | null | undefined, ids: string[]) {
+  if (!userId) {
+    throw new HTTPException(401, { message: "Sign in to search with saved travelers" });
+  }
+
+  const profiles = await prisma.travelerProfile.findMany({
+    where: { userId, id: { in: ids } },
+  });
+
+  return ids.map((id) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) {
+      throw new HTTPException(404, { message: `Traveler ${id} not found` });
+    }
+    return profile;
+  });
+}
+
+export const travelerService = {
+  /**
+   * One-way/round-trip search: replace adults/children/infants with counts derived
+   * from the saved travellers' ages. Ages are taken on the last travel date,
+   * so a traveller turning 2 or 12 during the trip is priced at the higher type.
+   */
+  async applyToSearch(userId: string | null | undefined, queries: FlightOfferSearchQueryType) {
+    if (!queries.travelerIds?.length) return queries;
+
+    const profiles = await loadProfiles(userId, queries.travelerIds);
+    const travelDate = queries.returnDate ?? queries.departureDate;
+
+    const counts = { adults: 0, children: 0, infants: 0 };
+    for (const profile of profiles) {
+      const type = resolvePassengerType(profile, travelDate);
+      // Seated infants are priced as children on one-way/round-trip searches
+      if (type === "ADULT") counts.adults++;
+      else if (type === "HELD_INFANT") counts.infants++;
+      else counts.children++;
+    }
+
+    if (counts.adults === 0) {
+      throw new AppValidationError("query", "At least one adult traveler is required");
+    }
+    if (counts.infants > counts.adults) {
+      throw new AppValidationError("query", "Each infant must travel with an adult");
+    }
+
+    return {
+      ...queries,
+      adults: counts.adults,
+      children: counts.children || undefined,
+      infants: counts.infants || undefined,
+    };
+  },
+
+  /**
+   * Multi-city search: type travellers given by profileId from their age on the
+   * last leg's date, and pair every held infant with an adult.
+   */
+  async applyToMultiCity(
+    userId: string | null | undefined,
+    request: FlightMulticityRequestType
+  ): Promise<FlightMulticityRequestType> {
+    const profileIds = request.travelers.flatMap((t) => (t.profileId ? [t.profileId] : []));
+    const profiles = profileIds.length > 0 ? await loadProfiles(userId, profileIds) : [];
+    const lastLeg = request.originDestinations[request.originDestinations.length - 1];
+    const travelDate = parseISO(lastLeg.departureDateTimeRange.date);
+
+    const travelers = request.travelers.map((traveler) => {
+      const profile = profiles.find((p) => p.id === traveler.profileId);
+      return profile
+        ? { ...traveler, travelerType: resolvePassengerType(profile, travelDate) }
+        : traveler;
+    });
+
+    const adultIds = travelers.filter((t) => t.travelerType === "ADULT").map((t) => t.id);
+    if (adultIds.length === 0) {
+      throw new AppValidationError("form", "At least one adult traveler is required", "travelers");
+    }
+
+    // Each adult can hold one infant
+    const taken = new Set<string>();
+    const paired = travelers.map((traveler, index) => {
+      if (traveler.travelerType !== "HELD_INFANT") {
+        const { associatedAdultId: _associatedAdultId, ...rest } = traveler;
+        return rest;
+      }
+
+      const path = `travelers[${index}].associatedAdultId`;
+      if (traveler.associatedAdultId) {
+        if (!adultIds.includes(traveler.associatedAdultId) || taken.has(traveler.associatedAdultId)) {
+          throw new AppValidationError(
+            "form",
+            "Held infants must each be associated with a different adult",
+            path
+          );
+        }
+        taken.add(traveler.associatedAdultId);
+        return traveler;
+      }
+
+      const adultId = adultIds.find((id) => !taken.has(id));
+      if (!adultId) {
+        throw new AppValidationError("form", "Each infant must travel with an adult", path);
+      }
+      taken.add(adultId);
+      return { ...traveler, associatedAdultId: adultId };
+    });
+
+    return { ...request, travelers: paired };
+  },
+};
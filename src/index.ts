@@ -6,7 +6,16 @@ import { cors } from "hono/cors";
 import { errorHandler } from "@/lib/errorHandler.js";
 import { logger } from "hono/logger";
 import { randomUUID } from "crypto";
+import { createLogger, flushLogs, runWithRequestContext, setRequestUser } from "@/lib/logger.js";
 import { auth } from "@/lib/auth.js";
+import {
+  API_KEY_DEFAULT_RATE_LIMIT,
+  authenticateApiKey,
+  isApiKey,
+  type ApiKeyPrincipal,
+} from "@/lib/apiKeys.js";
+import { getClientIp } from "@/lib/ip.js";
+import { rateLimit } from "@/lib/rateLimit.js";
 import authModule from "@/features/auth/authModule.js";
 import locationModule from "@/features/locations/locationModule.js";
 import offerModule from "@/features/flight-offers/offerModule.js";
@@ -20,21 +29,34 @@ import cmsModule from "@/features/cms/cmsModule.js";
 import rolesModule from "@/features/admin/rolesModule.js";
 import usersModule from "@/features/admin/usersModule.js";
 import customersModule from "@/features/admin/customersModule.js";
+import partnersModule from "@/features/admin/partnersModule.js";
+import auditModule from "@/features/admin/auditModule.js";
+import apiKeysModule from "@/features/admin/apiKeysModule.js";
 import userModule from "@/features/user/userModule.js";
+import priceAlertModule from "@/features/price-alerts/priceAlertModule.js";
+import savedSearchModule from "@/features/saved-searches/savedSearchModule.js";
+import travelerModule from "@/features/travelers/travelerModule.js";
 import notificationModule from "@/features/notifications/notificationModule.js";
 import emailModule from "@/features/email/emailModule.js";
 import contactModule from "@/features/contact/contactModule.js";
 import airportModule from "@/features/airports/airportModule.js";
+import clickoutModule from "@/features/clickout/clickoutModule.js";
 import { initWebSocket } from "@/lib/websocket.js";
+import { allowedOrigins } from "@/lib/origins.js";
+import { startPriceAlertWorker } from "@/features/price-alerts/priceAlertWorker.js";
 
 // Hono init with typed variables for session
 const app = new Hono<{
   Variables: {
     user: typeof auth.$Infer.Session.user | null;
     session: typeof auth.$Infer.Session.session | null;
+    apiKey: ApiKeyPrincipal | null;
+    requestId: string;
   };
 }>().basePath("/api");
 
+const log = createLogger("Server");
+
 // Logger
 app.use(logger());
 
@@ -44,31 +66,58 @@ app.use(secureHeaders());
 // Cors config - must be before routes
 app.use(
   cors({
-    origin: [
-      process.env.APP_CLIENT_URL!,
-      "http://localhost:5173",
-      "https://flyarzan.com",
-      "https://www.flyarzan.com",
-    ],
+    origin: allowedOrigins,
     credentials: true,
-    allowHeaders: ["Content-Type", "Authorization", "x-session-id"],
+    allowHeaders: [
+      "Content-Type",
+      "Authorization",
+      "x-session-id",
+      "x-fa-signature",
+      "x-fa-timestamp",
+    ],
     allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
     exposeHeaders: ["Content-Length", "Set-Cookie"],
     maxAge: 600,
   })
 );
 
-// Request ID header for attribution & tracing
+// Request ID header for attribution & tracing (also attached to every log entry of the request)
 app.use("*", async (c, next) => {
+  const id = randomUUID();
   try {
-    const id = randomUUID();
+    c.set("requestId", id);
     c.res.headers.set("x-request-id", id);
   } catch {}
-  await next();
+  await runWithRequestContext({ requestId: id }, next);
+});
+
+// Per-key request limit (rateLimit of the key, per minute)
+const apiKeyRateLimit = rateLimit({
+  windowMs: 60 * 1000,
+  max: (c) => c.get("apiKey")?.rateLimit ?? API_KEY_DEFAULT_RATE_LIMIT,
+  keyGenerator: (c) => c.get("apiKey")?.id,
 });
 
 // Session middleware - makes user/session available in all routes
+// "Authorization: Bearer fa_..." authenticates with an API key instead (no user, no session)
 app.use("*", async (c, next) => {
+  const token = c.req.header("authorization")?.replace(/^Bearer\s+/i, "");
+  if (isApiKey(token)) {
+    // Connection address (X-Forwarded-For only from TRUSTED_PROXIES), checked against the key's allowlist
+    const result = await authenticateApiKey(token, getClientIp(c));
+    if ("error" in result) {
+      return c.json(
+        { error: result.status === 403 ? "Forbidden" : "Unauthorized", message: result.error },
+        result.status
+      );
+    }
+    c.set("user", null);
+    c.set("session", null);
+    c.set("apiKey", result.principal);
+    return apiKeyRateLimit(c, next);
+  }
+
+  c.set("apiKey", null);
   const session = await auth.api.getSession({ headers: c.req.raw.headers });
   if (!session) {
     c.set("user", null);
@@ -76,6 +125,7 @@ app.use("*", async (c, next) => {
   } else {
     c.set("user", session.user);
     c.set("session", session.session);
+    setRequestUser(session.user.id);
   }
   await next();
 });
@@ -123,7 +173,7 @@ app.route("/geo-currency", geoCurrencyModule);
 app.route("/locations", locationModule);
 app.route("/flight-offers", offerModule);
 app.route("/contact", contactModule);
-app.route("/admin/analytics", analyticsModule);
+app.route("/analytics", analyticsModule); // Public event ingestion
 app.route("/admin/reports", reportsModule);
 app.route("/admin/logs", logsModule);
 app.route("/admin/monitoring", monitoringModule);
@@ -132,10 +182,17 @@ app.route("/admin/cms", cmsModule);
 app.route("/admin/roles", rolesModule);
 app.route("/admin/users", usersModule);
 app.route("/admin/customers", customersModule);
+app.route("/admin/partners", partnersModule);
+app.route("/admin/audit", auditModule);
+app.route("/admin/api-keys", apiKeysModule);
 app.route("/admin/email", emailModule);
+app.route("/user/price-alerts", priceAlertModule);
+app.route("/user/searches", savedSearchModule);
+app.route("/user/travelers", travelerModule);
 app.route("/user", userModule);
 app.route("/notifications", notificationModule);
 app.route("/airports", airportModule);
+app.route("/go", clickoutModule);
 
 // Not found
 app.notFound((c) => {
@@ -153,7 +210,7 @@ app.onError(errorHandler);
 const port = Number(process.env.PORT);
 
 if (!port) {
-  console.error("PORT is not defined");
+  log.error("PORT is not defined");
   process.exit(1);
 }
 
@@ -164,24 +221,24 @@ const server = serve(
     port,
   },
   (info) => {
-    console.log(`Server is running on ${info.port}`);
+    log.info(`Server is running on ${info.port}`);
   }
 );
 
 // Initialize WebSocket server
 initWebSocket(server);
 
+// Background re-checking of price alerts
+startPriceAlertWorker();
+
 // graceful shutdown
 process.on("SIGINT", () => {
   server.close();
-  process.exit(0);
+  flushLogs().finally(() => process.exit(0));
 });
 process.on("SIGTERM", () => {
   server.close((err) => {
-    if (err) {
-      console.error(err);
-      process.exit(1);
-    }
-    process.exit(0);
+    if (err) log.error("Shutdown failed", err);
+    flushLogs().finally(() => process.exit(err ? 1 : 0));
   });
 });
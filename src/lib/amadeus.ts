@@ -1,24 +1,159 @@
-// Amadeus Auth Token
-export const getAmadeusToken = async () => {
-  const url = "https://test.api.amadeus.com/v1/security/oauth2/token";
+import { recordApiCall } from "./quota.js";
+import { httpRequest, OutboundHttpError } from "./http.js";
+
+// Amadeus API host (test environment unless overridden)
+export const AMADEUS_BASE_URL =
+  process.env.AMADEUS_BASE_URL || "https://test.api.amadeus.com";
+
+const TOKEN_URL = `${AMADEUS_BASE_URL}/v1/security/oauth2/token`;
+
+// Refresh the token this long before Amadeus says it expires
+// (at most half its lifetime, so short-lived tokens are still reused)
+const EXPIRY_MARGIN_MS = 60_000;
+// Lifetime assumed when the response has no usable expires_in (Amadeus issues 1799s tokens)
+const DEFAULT_EXPIRES_IN_SEC = 1799;
+
+// Retry configuration for transient token failures (network errors, 429, 5xx)
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 300;
+const TOKEN_TIMEOUT_MS = 10_000;
+
+// Circuit breaker shared with supplier calls (see lib/http.ts)
+export const AMADEUS_CIRCUIT = "amadeus";
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number; // epoch ms
+  refreshAt: number; // epoch ms, expiresAt minus the margin
+}
+
+// Token state (single process-wide cache)
+let cachedToken: CachedToken | null = null;
+let inFlightRefresh: Promise<string> | null = null;
 
+const tokenStats = {
+  refreshCount: 0,
+  failureCount: 0,
+  lastRefreshedAt: null as Date | null,
+  lastError: null as string | null,
+  lastErrorAt: null as Date | null,
+};
+
+class TransientTokenError extends Error {}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Single client-credentials round trip
+async function requestToken(): Promise<CachedToken> {
   const body = new URLSearchParams({
     grant_type: "client_credentials",
     client_id: process.env.AMADEUS_API_KEY!,
     client_secret: process.env.AMADEUS_API_SECRET!,
   });
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: body,
-  });
+  void recordApiCall("amadeus", "token");
+
+  let response: Response;
+  try {
+    // Retries are handled by refreshToken
+    response = await httpRequest(TOKEN_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: body,
+      timeoutMs: TOKEN_TIMEOUT_MS,
+      retries: 0,
+      breaker: AMADEUS_CIRCUIT,
+    });
+  } catch (error) {
+    // An open circuit is not worth retrying
+    if (error instanceof OutboundHttpError && error.kind === "circuit-open") {
+      throw error;
+    }
+    throw new TransientTokenError(
+      `Failed to get amadeus token: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
 
   if (!response.ok) {
-    throw new Error(`Failed to get amadeus token: ${response.statusText}`);
+    const message = `Failed to get amadeus token: ${response.status} ${response.statusText}`;
+    if (response.status === 429 || response.status >= 500) {
+      throw new TransientTokenError(message);
+    }
+    throw new Error(message);
   }
 
-  return (await response.json()).access_token;
+  const data = await response.json();
+  const expiresIn = Number(data.expires_in);
+  const lifetimeMs = (expiresIn > 0 ? expiresIn : DEFAULT_EXPIRES_IN_SEC) * 1000;
+  const expiresAt = Date.now() + lifetimeMs;
+
+  return {
+    accessToken: data.access_token,
+    expiresAt,
+    refreshAt: expiresAt - Math.min(EXPIRY_MARGIN_MS, lifetimeMs / 2),
+  };
+}
+
+// Fetch a new token, retrying transient failures with exponential backoff
+async function refreshToken(): Promise<string> {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const token = await requestToken();
+      cachedToken = token;
+      tokenStats.refreshCount += 1;
+      tokenStats.lastRefreshedAt = new Date();
+      tokenStats.lastError = null;
+      return token.accessToken;
+    } catch (error) {
+      lastError = error;
+      const retryable = error instanceof TransientTokenError;
+      if (!retryable || attempt === MAX_ATTEMPTS) break;
+      await sleep(BASE_BACKOFF_MS * 2 ** (attempt - 1));
+    }
+  }
+
+  tokenStats.failureCount += 1;
+  tokenStats.lastError =
+    lastError instanceof Error ? lastError.message : String(lastError);
+  tokenStats.lastErrorAt = new Date();
+  throw lastError;
+}
+
+const isTokenValid = (token: CachedToken | null): token is CachedToken =>
+  !!token && Date.now() < token.refreshAt;
+
+// Amadeus Auth Token (cached until shortly before expiry, concurrent refreshes coalesced)
+export const getAmadeusToken = async () => {
+  if (isTokenValid(cachedToken)) {
+    return cachedToken.accessToken;
+  }
+
+  if (!inFlightRefresh) {
+    inFlightRefresh = refreshToken().finally(() => {
+      inFlightRefresh = null;
+    });
+  }
+
+  return inFlightRefresh;
 };
+
+// Drop the cached token (e.g. after Amadeus rejects it with 401)
+export const invalidateAmadeusToken = () => {
+  cachedToken = null;
+};
+
+// Token manager state for monitoring
+export const getAmadeusTokenState = () => ({
+  cached: isTokenValid(cachedToken),
+  expiresAt: cachedToken ? new Date(cachedToken.expiresAt).toISOString() : null,
+  refreshing: inFlightRefresh !== null,
+  refreshCount: tokenStats.refreshCount,
+  failureCount: tokenStats.failureCount,
+  lastRefreshedAt: tokenStats.lastRefreshedAt?.toISOString() || null,
+  lastError: tokenStats.lastError,
+  lastErrorAt: tokenStats.lastErrorAt?.toISOString() || null,
+});
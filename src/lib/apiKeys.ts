@@ -0,0 +1,124 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { isIP } from "net";
+import { prisma } from "./prisma.js";
+import { createLogger } from "./logger.js";
+import { getRolePermissions } from "./permissions-service.js";
+
+const log = createLogger("ApiKeys");
+
+export const API_KEY_DEFAULT_RATE_LIMIT = 60; // Requests per minute
+
+// fa_<8 hex prefix>_<32 char secret>; the prefix identifies the key in lists and logs
+const KEY_PATTERN = /^fa_[0-9a-f]{8}_[A-Za-z0-9_-]{32}$/;
+const PREFIX_LENGTH = 11;
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  prefix: string;
+  role: string | null;
+  permissions: string[];
+  rateLimit: number;
+  createdById: string | null;
+}
+
+type AuthResult = { principal: ApiKeyPrincipal } | { error: string; status: 401 | 403 };
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+/**
+ * New key with its prefix and hash; only the hash is stored, the key is shown once
+ */
+export function generateApiKey() {
+  const key = `fa_${randomBytes(4).toString("hex")}_${randomBytes(24).toString("base64url")}`;
+  return { key, prefix: key.slice(0, PREFIX_LENGTH), keyHash: hashKey(key) };
+}
+
+// Bearer tokens in the key format; anything else is left to the session lookup
+export const isApiKey = (token?: string | null): token is string =>
+  !!token && KEY_PATTERN.test(token);
+
+// Single IP or IPv4 CIDR range (e.g. 10.0.0.0/24)
+export function isValidAllowlistEntry(entry: string) {
+  const [address, bits, ...rest] = entry.split("/");
+  if (rest.length) return false;
+  if (bits === undefined) return isIP(address) !== 0;
+  return isIP(address) === 4 && /^\d+$/.test(bits) && Number(bits) <= 32;
+}
+
+const ipv4ToInt = (ip: string) =>
+  ip.split(".").reduce((acc, octet) => (acc << 8) + Number(octet), 0) >>> 0;
+
+/**
+ * Whether a client IP matches the allowlist (empty allows any address)
+ */
+export function ipAllowed(ip: string | undefined, allowlist: string[]) {
+  if (!allowlist.length) return true;
+  if (!ip) return false;
+  const address = ip.replace("::ffff:", "");
+
+  return allowlist.some((entry) => {
+    const [range, bits] = entry.split("/");
+    if (bits === undefined) return range === address;
+    if (isIP(address) !== 4) return false;
+    const mask = Number(bits) === 0 ? 0 : (~0 << (32 - Number(bits))) >>> 0;
+    return (ipv4ToInt(address) & mask) === (ipv4ToInt(range) & mask);
+  });
+}
+
+/**
+ * Resolve the key of an Authorization header: unknown, revoked and expired keys are 401,
+ * a request from outside the key's IP allowlist is 403
+ */
+export async function authenticateApiKey(key: string, ip?: string): Promise<AuthResult> {
+  const record = await prisma.apiKey.findUnique({
+    where: { prefix: key.slice(0, PREFIX_LENGTH) },
+  });
+
+  const expected = Buffer.from(record?.keyHash ?? "");
+  const given = Buffer.from(hashKey(key));
+  if (!record || expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { error: "Invalid API key", status: 401 };
+  }
+  if (record.revokedAt) {
+    return { error: "API key has been revoked", status: 401 };
+  }
+  if (record.expiresAt && record.expiresAt <= new Date()) {
+    return { error: "API key has expired", status: 401 };
+  }
+  if (!ipAllowed(ip, record.ipAllowlist)) {
+    log.warn(`API key ${record.prefix} used from a disallowed address`, { ip });
+    return { error: "API key is not allowed from this address", status: 403 };
+  }
+
+  // At most one write per key and minute, not awaited
+  const now = new Date();
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS) {
+    prisma.apiKey
+      .update({ where: { id: record.id }, data: { lastUsedAt: now, lastUsedIp: ip } })
+      .catch((error) => log.error(`Failed to track usage of ${record.prefix}`, error));
+  }
+
+  return {
+    principal: {
+      id: record.id,
+      name: record.name,
+      prefix: record.prefix,
+      role: record.role,
+      permissions: record.permissions,
+      rateLimit: record.rateLimit,
+      createdById: record.createdById,
+    },
+  };
+}
+
+/**
+ * Whether a key grants a "resource:action" permission, through its role or its explicit list
+ */
+export async function apiKeyHasPermission(principal: ApiKeyPrincipal, permission: string) {
+  if (principal.role) {
+    return (await getRolePermissions(principal.role)).has(permission);
+  }
+  return principal.permissions.includes(permission);
+}
@@ -0,0 +1,91 @@
+import type { Context } from "hono";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma.js";
+import { getClientIp } from "./ip.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Audit");
+
+export interface AuditEntry {
+  action: string; // e.g. user.ban
+  targetType: string;
+  targetId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+const REDACTED_KEYS = /password|token|secret/i;
+
+// JSON-safe copy with sensitive fields redacted
+const snapshot = (value: unknown): Prisma.InputJsonValue | undefined => {
+  if (value === undefined || value === null) return undefined;
+  return JSON.parse(
+    JSON.stringify(value, (key, v) => (key && REDACTED_KEYS.test(key) ? "[redacted]" : v))
+  );
+};
+
+// Top-level fields that differ between two snapshots
+export function auditDiff(before: unknown, after: unknown) {
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const diff: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (JSON.stringify(from[key]) !== JSON.stringify(to[key])) {
+      diff[key] = { from: from[key] ?? null, to: to[key] ?? null };
+    }
+  }
+  return diff;
+}
+
+/**
+ * Record a privileged action for the current request's user (or API key).
+ * Failures are logged, never thrown: the action itself already happened.
+ */
+export async function recordAudit(c: Context, entry: AuditEntry) {
+  const user = c.get("user");
+  const session = c.get("session");
+  const before = snapshot(entry.before);
+  const after = snapshot(entry.after);
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        actorId: user?.id,
+        actorEmail: user?.email,
+        impersonatedBy: session?.impersonatedBy ?? undefined,
+        apiKeyId: c.get("apiKey")?.id,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId ?? undefined,
+        before,
+        after,
+        diff: before && after ? (auditDiff(before, after) as Prisma.InputJsonValue) : undefined,
+        metadata: snapshot(entry.metadata),
+        ip: getClientIp(c)?.replace("::ffff:", ""),
+        userAgent: c.req.header("user-agent"),
+        requestId: c.get("requestId") ?? c.res.headers.get("x-request-id") ?? undefined,
+      },
+    });
+  } catch (error) {
+    log.error(`Failed to record ${entry.action}`, error);
+  }
+}
+
+/**
+ * Middleware recording an action once the route succeeded (no before/after)
+ * @param targetParam - route param holding the target id
+ */
+export const auditAction = (action: string, targetType: string, targetParam?: string) => {
+  return async (c: Context, next: () => Promise<void>) => {
+    await next();
+    if (c.res.status < 400) {
+      await recordAudit(c, {
+        action,
+        targetType,
+        targetId: targetParam ? c.req.param(targetParam) : undefined,
+      });
+    }
+  };
+};
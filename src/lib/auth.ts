@@ -1,11 +1,36 @@
 import { betterAuth } from "better-auth"; 
 import { prismaAdapter } from "better-auth/adapters/prisma";
 import { admin } from "better-auth/plugins";
-import { APIError } from "better-auth/api";
+import { APIError, createAuthMiddleware, getSessionFromCtx } from "better-auth/api";
 import { prisma } from "./prisma.js";
 import type { Context } from "hono";
 import { ac, roles } from "./permissions.js";
 import { sendPasswordResetEmail } from "./email.js";
+import { createLogger } from "./logger.js";
+import { hasPermission, outranks } from "./permissions-service.js";
+import { apiKeyHasPermission } from "./apiKeys.js";
+import {
+  getSessionCookie,
+  savedSearchService,
+} from "@/features/saved-searches/savedSearchService.js";
+
+const log = createLogger("Auth");
+
+// Admin plugin endpoints acting on another user (body.userId, or the owner of body.sessionToken)
+const ADMIN_USER_ENDPOINTS = new Set([
+  "/admin/set-role",
+  "/admin/update-user",
+  "/admin/ban-user",
+  "/admin/unban-user",
+  "/admin/revoke-user-session",
+  "/admin/revoke-user-sessions",
+  "/admin/remove-user",
+  "/admin/impersonate-user",
+  "/admin/set-user-password",
+]);
+
+const toRoleList = (role: unknown): string[] =>
+  (Array.isArray(role) ? role : [role]).filter((r): r is string => typeof r === "string");
 
 export const auth = betterAuth({
   database: prismaAdapter(prisma, {
@@ -15,15 +40,12 @@ export const auth = betterAuth({
     enabled: true,
     // Password reset configuration
     sendResetPassword: async ({ user, url, token }, request) => {
-      console.log(`[Auth] Password reset requested for: ${user.email}`);
-      console.log(`[Auth] Reset URL: ${url}`);
+      // The reset URL carries the token: never log it
+      log.info(`Password reset requested for: ${user.email}`, { userId: user.id });
       try {
         await sendPasswordResetEmail(user.email, token, url);
-        console.log(
-          `[Auth] Password reset email sent successfully to: ${user.email}`
-        );
       } catch (error) {
-        console.error(`[Auth] Failed to send password reset email:`, error);
+        log.error("Failed to send password reset email", { userId: user.id, error });
         // Don't throw - we don't want to reveal if email exists
       }
     },
@@ -63,6 +85,62 @@ export const auth = betterAuth({
       },
     },
   },
+  hooks: {
+    // Role hierarchy for the admin plugin endpoints: only users (and roles) ranked below the caller
+    before: createAuthMiddleware(async (ctx) => {
+      if (!ADMIN_USER_ENDPOINTS.has(ctx.path)) return;
+
+      const session = await getSessionFromCtx(ctx);
+      if (!session) return; // The endpoint answers 401 itself
+
+      const body = (ctx.body ?? {}) as Record<string, any>;
+      const targetUserId: string | undefined =
+        body.userId ??
+        (body.sessionToken
+          ? (
+              await prisma.session.findUnique({
+                where: { token: body.sessionToken },
+                select: { userId: true },
+              })
+            )?.userId
+          : undefined);
+      const target = targetUserId
+        ? await prisma.user.findUnique({
+            where: { id: targetUserId },
+            select: { role: true },
+          })
+        : null;
+      if (!target) return;
+
+      const actorRole = (session.user as { role?: string }).role;
+      if (!(await outranks(actorRole, target.role))) {
+        throw new APIError("FORBIDDEN", {
+          message: "You can only manage users ranked below your own role",
+        });
+      }
+
+      const assignedRoles = toRoleList(body.role ?? body.data?.role);
+      for (const role of assignedRoles) {
+        if (!(await outranks(actorRole, role))) {
+          throw new APIError("FORBIDDEN", {
+            message: "You can only assign roles ranked below your own",
+          });
+        }
+      }
+    }),
+    // On sign-in/sign-up, move the anonymous session's search history (fa_sid) into the account
+    after: createAuthMiddleware(async (ctx) => {
+      const newSession = ctx.context.newSession;
+      const sessionId = ctx.headers ? getSessionCookie(ctx.headers) : undefined;
+      if (!newSession || !sessionId) return;
+
+      await savedSearchService
+        .mergeSessionSearches(sessionId, newSession.user.id)
+        .catch((error) => {
+          log.error("Failed to merge search history", { userId: newSession.user.id, error });
+        });
+    }),
+  },
   plugins: [
     admin({
       ac,
@@ -142,31 +220,89 @@ export const requireAdmin = requireRole("super", "admin");
 // Middleware to require moderator or higher
 export const requireModerator = requireRole("super", "admin", "moderator");
 
-// Middleware to require specific permission
-export const requirePermission = (resource: string, action: string) => {
+// Middleware to require that the caller outranks the user in a route param
+// (acting on peers, superiors or yourself is refused; API keys act with their role's rank)
+export const requireHigherRank = (param = "userId") => {
   return async (c: Context, next: () => Promise<void>) => {
     const session = await getSession(c);
-    if (!session?.user) {
+    const actorRole = session?.user ? session.user.role : getRequestRole(c);
+    if (!session?.user && !c.get("apiKey")) {
       return c.json(
         { error: "Unauthorized", message: "Authentication required" },
         401
       );
     }
 
-    const userRole = (session.user.role || "user") as keyof typeof roles;
+    const target = await prisma.user.findUnique({
+      where: { id: c.req.param(param) },
+      select: { role: true },
+    });
+    if (!target) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    if (!(await outranks(actorRole, target.role))) {
+      return c.json(
+        {
+          error: "Forbidden",
+          message: "You can only manage users ranked below your own role",
+        },
+        403
+      );
+    }
+
+    await next();
+  };
+};
+
+// Role the request acts with: the user's, else the API key's
+export const getRequestRole = (c: Context): string | null | undefined =>
+  c.get("user")?.role ?? c.get("apiKey")?.role;
+
+// Whether the request's user or API key (set by the session middleware) has a permission
+export const hasRequestPermission = async (c: Context, permission: string) => {
+  const user = c.get("user");
+  if (user) {
+    return user.role === "super" || (await hasPermission(user.id, [permission]));
+  }
+  const apiKey = c.get("apiKey");
+  return apiKey ? apiKeyHasPermission(apiKey, permission) : false;
+};
+
+// Middleware to require specific permission
+// Resolved against the database roles (permissions-service), so custom roles apply too
+// API keys are checked against their role or explicit permission list
+export const requirePermission = (resource: string, action: string) => {
+  return async (c: Context, next: () => Promise<void>) => {
+    const session = await getSession(c);
+    const apiKey = c.get("apiKey");
+    if (!session?.user && apiKey) {
+      if (!(await apiKeyHasPermission(apiKey, `${resource}:${action}`))) {
+        return c.json(
+          {
+            error: "Forbidden",
+            message: `Missing permission: ${resource}:${action}`,
+          },
+          403
+        );
+      }
+      await next();
+      return;
+    }
 
-    // Check if role exists
-    const role = roles[userRole];
-    if (!role) {
-      return c.json({ error: "Forbidden", message: "Invalid role" }, 403);
+    if (!session?.user) {
+      return c.json(
+        { error: "Unauthorized", message: "Authentication required" },
+        401
+      );
     }
 
-    // Check permission using better-auth's access control
-    // @ts-ignore - accessing role permissions
-    const resourcePerms = role.statements?.[resource];
-    const hasPermission = resourcePerms?.includes(action);
+    // Super admin always has access
+    const allowed =
+      session.user.role === "super" ||
+      (await hasPermission(session.user.id, [`${resource}:${action}`]));
 
-    if (!hasPermission) {
+    if (!allowed) {
       return c.json(
         {
           error: "Forbidden",
@@ -1,4 +1,7 @@
 import nodemailer from "nodemailer";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Email");
 
 // Create transporter - configure based on your email service
 const port = parseInt(process.env.SMTP_PORT || "587");
@@ -29,10 +32,9 @@ export async function sendPasswordResetEmail(
   url: string
 ) {
   try {
-    console.log(`[Email] Attempting to send password reset email to ${to}`);
-    console.log(
-      `[Email] Using SMTP: ${process.env.SMTP_HOST}:${process.env.SMTP_PORT}`
-    );
+    log.debug(`Sending password reset email to ${to}`, {
+      smtp: `${process.env.SMTP_HOST}:${process.env.SMTP_PORT}`,
+    });
 
     const info = await transporter.sendMail({
       from: defaultFrom,
@@ -104,19 +106,10 @@ export async function sendPasswordResetEmail(
         </html>
       `,
     });
-    console.log(
-      `[Email] ✓ Password reset email sent to ${to}:`,
-      info.messageId
-    );
+    log.info(`Password reset email sent to ${to}`, { messageId: info.messageId });
     return { success: true, messageId: info.messageId };
   } catch (error) {
-    console.error(
-      `[Email] ✗ Failed to send password reset email to ${to}:`,
-      error
-    );
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    console.error(`[Email] Error details: ${errorMessage}`);
+    log.error(`Failed to send password reset email to ${to}`, error);
     throw error;
   }
 }
@@ -197,10 +190,96 @@ export async function sendVerificationEmail(
         </html>
       `,
     });
-    console.log(`[Email] Verification email sent to ${to}`);
+    log.info(`Verification email sent to ${to}`);
+    return { success: true };
+  } catch (error) {
+    log.error(`Failed to send verification email to ${to}`, error);
+    throw error;
+  }
+}
+
+export async function sendPriceAlertEmail(
+  to: string,
+  alert: {
+    route: string; // e.g. "ALA → IST"
+    dates: string; // e.g. "2025-12-01 – 2025-12-08"
+    price: number;
+    targetPrice: number;
+    currency: string;
+  }
+) {
+  const url = `${APP_URL}/account/price-alerts`;
+  const price = `${alert.price.toFixed(2)} ${alert.currency}`;
+  const targetPrice = `${alert.targetPrice.toFixed(2)} ${alert.currency}`;
+
+  try {
+    await transporter.sendMail({
+      from: defaultFrom,
+      to,
+      subject: `Price drop: ${alert.route} now ${price} - Fly Arzan`,
+      text: `${alert.route} (${alert.dates}) is now ${price}, below your target of ${targetPrice}. View your alerts: ${url}`,
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+          <meta charset="UTF-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Price Drop Alert</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+          <table role="presentation" style="width: 100%; border-collapse: collapse;">
+            <tr>
+              <td align="center" style="padding: 40px 0;">
+                <table role="presentation" style="width: 600px; max-width: 100%; border-collapse: collapse; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+                  <!-- Header -->
+                  <tr>
+                    <td style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px 40px; text-align: center;">
+                      <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: bold;">${APP_NAME}</h1>
+                    </td>
+                  </tr>
+
+                  <!-- Main Content -->
+                  <tr>
+                    <td style="padding: 40px 40px 30px 40px; text-align: center;">
+                      <h2 style="margin: 0 0 20px 0; font-size: 24px; font-weight: 600; color: #333333; line-height: 1.3;">Price Drop on ${alert.route}</h2>
+                      <p style="margin: 0 auto 10px auto; font-size: 16px; line-height: 1.6; color: #666666; max-width: 80%;">
+                        Flights for ${alert.dates} are now <strong style="color: #333333;">${price}</strong>, below your target of ${targetPrice}.
+                      </p>
+
+                      <!-- CTA Button -->
+                      <table role="presentation" style="margin: 30px auto;">
+                        <tr>
+                          <td>
+                            <a href="${url}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px; letter-spacing: 0.3px;">View Price Alerts</a>
+                          </td>
+                        </tr>
+                      </table>
+                    </td>
+                  </tr>
+
+                  <!-- Footer -->
+                  <tr>
+                    <td style="padding: 30px 40px; background-color: #f9f9f9; border-top: 1px solid #e5e5e5; text-align: center;">
+                      <p style="margin: 0; font-size: 13px; line-height: 1.6; color: #999999;">
+                        You are receiving this because you set a price alert. You can turn off notifications in your account settings.
+                      </p>
+                      <p style="margin: 15px 0 0 0; font-size: 13px; line-height: 1.6; color: #999999;">
+                        &copy; ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.
+                      </p>
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </body>
+        </html>
+      `,
+    });
+    log.info(`Price alert email sent to ${to}`);
     return { success: true };
   } catch (error) {
-    console.error(`[Email] Failed to send verification email to ${to}:`, error);
+    log.error(`Failed to send price alert email to ${to}`, error);
     throw error;
   }
 }
@@ -1,5 +1,9 @@
 import type { ErrorHandler } from "hono";
 import { HTTPException } from "hono/http-exception";
+import { createLogger } from "./logger.js";
+import { FlightSupplierError } from "@/features/flight-offers/suppliers/errors.js";
+
+const log = createLogger("Server");
 
 // App Validation Error Class
 export class AppValidationError extends Error {
@@ -37,6 +41,14 @@ export const errorHandler: ErrorHandler = (err, c) => {
     return c.json(error, 400);
   }
 
+  // Supplier failure, a fresh response per request (the error may be shared by coalesced searches)
+  if (err instanceof FlightSupplierError) {
+    if (err.retryAfterSeconds !== undefined) {
+      c.header("Retry-After", String(err.retryAfterSeconds));
+    }
+    return c.json(err.toResponseBody(), err.status);
+  }
+
   // HTTP Exception
   if (err instanceof HTTPException) {
     return (
@@ -51,6 +63,7 @@ export const errorHandler: ErrorHandler = (err, c) => {
   }
 
   // Other Exception
+  log.error(`Unhandled error on ${c.req.method} ${c.req.path}`, err);
   return c.json(
     {
       message: isProduction ? "Internal Server Error" : err.message,
@@ -0,0 +1,106 @@
+/**
+ * Exchange Rates
+ *
+ * Cached Open Exchange Rates data (latest rates and the currency list),
+ * shared by /geo-currency and server-side price conversion.
+ */
+
+import { createLogger } from "./logger.js";
+
+const log = createLogger("ExchangeRates");
+
+const OPEN_EXCHANGE_API = "https://openexchangerates.org/api";
+
+const EXCHANGE_RATE_CACHE_DURATION = 60 * 60 * 1000; // 1 hour
+const CURRENCIES_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+  timestamp: string; // When Open Exchange Rates published the rates (ISO)
+}
+
+let exchangeRateCache: { data: ExchangeRates; timestamp: number } | null = null;
+let currenciesCache: { data: Record<string, string>; timestamp: number } | null = null;
+
+/**
+ * Latest exchange rates (cached for an hour). Null when the API is unavailable.
+ */
+export async function getExchangeRates(): Promise<ExchangeRates | null> {
+  if (exchangeRateCache && Date.now() - exchangeRateCache.timestamp < EXCHANGE_RATE_CACHE_DURATION) {
+    return exchangeRateCache.data;
+  }
+
+  try {
+    const response = await fetch(
+      `${OPEN_EXCHANGE_API}/latest.json?app_id=${process.env.OPEN_EXCHANGE_API_KEY || ""}`
+    );
+    if (!response.ok) return exchangeRateCache?.data ?? null;
+
+    const body = (await response.json()) as {
+      base: string;
+      rates: Record<string, number>;
+      timestamp: number; // Unix seconds
+    };
+    const data = {
+      base: body.base,
+      rates: body.rates,
+      timestamp: new Date(body.timestamp * 1000).toISOString(),
+    };
+    exchangeRateCache = { data, timestamp: Date.now() };
+    return data;
+  } catch (error) {
+    log.error("Failed to fetch rates", error);
+    // Stale rates are better than none
+    return exchangeRateCache?.data ?? null;
+  }
+}
+
+/**
+ * Currency codes and names (cached for a day). Null when the API is unavailable.
+ */
+export async function getCurrencies(): Promise<Record<string, string> | null> {
+  if (currenciesCache && Date.now() - currenciesCache.timestamp < CURRENCIES_CACHE_DURATION) {
+    return currenciesCache.data;
+  }
+
+  try {
+    const response = await fetch(
+      `${OPEN_EXCHANGE_API}/currencies.json?app_id=${process.env.OPEN_EXCHANGE_API_KEY || ""}`
+    );
+    if (!response.ok) return currenciesCache?.data ?? null;
+
+    const data = (await response.json()) as Record<string, string>;
+    currenciesCache = { data, timestamp: Date.now() };
+    return data;
+  } catch (error) {
+    log.error("Failed to fetch currencies", error);
+    return currenciesCache?.data ?? null;
+  }
+}
+
+/**
+ * Whether a currency code is in the currency list.
+ * When the list cannot be loaded, any code is accepted and conversion decides.
+ */
+export async function isSupportedCurrency(code: string) {
+  const currencies = await getCurrencies();
+  return currencies ? code.toUpperCase() in currencies : true;
+}
+
+/**
+ * Rate to convert an amount from one currency to another, via the rates' base currency.
+ * Null when rates are unavailable or either currency is unknown.
+ */
+export async function getConversionRate(from: string, to: string) {
+  const source = from.toUpperCase();
+  const target = to.toUpperCase();
+  const exchangeRates = await getExchangeRates();
+  if (!exchangeRates) return null;
+
+  const fromRate = source === exchangeRates.base ? 1 : exchangeRates.rates[source];
+  const toRate = target === exchangeRates.base ? 1 : exchangeRates.rates[target];
+  if (!fromRate || !toRate) return null;
+
+  return { rate: toRate / fromRate, ratesTimestamp: exchangeRates.timestamp };
+}
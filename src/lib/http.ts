@@ -0,0 +1,254 @@
+/**
+ * Outbound HTTP
+ *
+ * Shared fetch wrapper for supplier calls: per-request timeouts, retries with
+ * jittered backoff for 429/5xx and network errors, and per-upstream circuit breakers.
+ */
+
+import { createLogger } from "./logger.js";
+
+const log = createLogger("CircuitBreaker");
+
+// Defaults (overridable per request)
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 250;
+const MAX_BACKOFF_MS = 5_000;
+
+// Circuit breaker: open after this many consecutive failures, probe again after the cool-down
+const BREAKER_FAILURE_THRESHOLD = 5;
+const BREAKER_OPEN_MS = 30_000;
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type OutboundErrorKind = "timeout" | "network" | "circuit-open";
+
+// Raised when no HTTP response was obtained
+export class OutboundHttpError extends Error {
+  kind: OutboundErrorKind;
+  upstream: string | null;
+
+  constructor(kind: OutboundErrorKind, message: string, upstream: string | null = null) {
+    super(message);
+    this.name = "OutboundHttpError";
+    this.kind = kind;
+    this.upstream = upstream;
+  }
+}
+
+// ============================================
+// CIRCUIT BREAKERS
+// ============================================
+
+interface Breaker {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  probing: boolean; // A half-open trial request is in flight
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError: string | null;
+  lastFailureAt: Date | null;
+}
+
+type BreakerListener = (state: CircuitState, lastError: string | null) => void;
+
+const breakers = new Map<string, Breaker>();
+const listeners = new Map<string, BreakerListener[]>();
+
+const getBreaker = (name: string) => {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = {
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+      probing: false,
+      totalFailures: 0,
+      totalSuccesses: 0,
+      lastError: null,
+      lastFailureAt: null,
+    };
+    breakers.set(name, breaker);
+  }
+  return breaker;
+};
+
+const setState = (name: string, breaker: Breaker, state: CircuitState) => {
+  if (breaker.state === state) return;
+  breaker.state = state;
+  if (state === "open") {
+    log.error(`${name} opened: ${breaker.lastError}`, { upstream: name });
+  }
+  for (const listener of listeners.get(name) ?? []) {
+    try {
+      listener(state, breaker.lastError);
+    } catch (error) {
+      log.error(`${name} listener failed`, { upstream: name, error });
+    }
+  }
+};
+
+// Whether a request may go out now (moves open -> half-open after the cool-down)
+const allowRequest = (name: string) => {
+  const breaker = getBreaker(name);
+
+  if (breaker.state === "open") {
+    if (Date.now() - (breaker.openedAt ?? 0) < BREAKER_OPEN_MS) return false;
+    setState(name, breaker, "half-open");
+  }
+  if (breaker.state === "half-open") {
+    if (breaker.probing) return false;
+    breaker.probing = true;
+  }
+  return true;
+};
+
+const recordSuccess = (name: string) => {
+  const breaker = getBreaker(name);
+  breaker.consecutiveFailures = 0;
+  breaker.totalSuccesses += 1;
+  breaker.probing = false;
+  breaker.openedAt = null;
+  setState(name, breaker, "closed");
+};
+
+const recordFailure = (name: string, error: string) => {
+  const breaker = getBreaker(name);
+  breaker.consecutiveFailures += 1;
+  breaker.totalFailures += 1;
+  breaker.lastError = error;
+  breaker.lastFailureAt = new Date();
+  breaker.probing = false;
+
+  if (
+    breaker.state === "half-open" ||
+    breaker.consecutiveFailures >= BREAKER_FAILURE_THRESHOLD
+  ) {
+    breaker.openedAt = Date.now();
+    setState(name, breaker, "open");
+  }
+};
+
+/**
+ * Listen for state changes of a circuit breaker (e.g. to update health checks)
+ */
+export function onCircuitStateChange(name: string, listener: BreakerListener) {
+  listeners.set(name, [...(listeners.get(name) ?? []), listener]);
+}
+
+/**
+ * Circuit breaker state for monitoring
+ */
+export function getCircuitState(name: string) {
+  const breaker = getBreaker(name);
+  const retryAt =
+    breaker.state === "open" && breaker.openedAt
+      ? new Date(breaker.openedAt + BREAKER_OPEN_MS).toISOString()
+      : null;
+
+  return {
+    name,
+    state: breaker.state,
+    consecutiveFailures: breaker.consecutiveFailures,
+    totalFailures: breaker.totalFailures,
+    totalSuccesses: breaker.totalSuccesses,
+    lastError: breaker.lastError,
+    lastFailureAt: breaker.lastFailureAt?.toISOString() || null,
+    retryAt,
+  };
+}
+
+// ============================================
+// REQUESTS
+// ============================================
+
+export interface OutboundRequestInit extends RequestInit {
+  timeoutMs?: number;
+  retries?: number; // Extra attempts after the first
+  breaker?: string; // Circuit breaker name, e.g. "amadeus"
+  onAttempt?: (attempt: number) => void; // Called before every attempt (quota accounting)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Full jitter: random delay up to the exponential backoff
+const backoffDelay = (attempt: number, retryAfter: string | null) => {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (!isNaN(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+  }
+  return Math.random() * Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+};
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * fetch() with timeout, retries and an optional circuit breaker.
+ * Resolves with the last response (even non-OK); rejects only with OutboundHttpError.
+ */
+export async function httpRequest(
+  url: string,
+  init: OutboundRequestInit = {}
+): Promise<Response> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    breaker,
+    onAttempt,
+    ...fetchInit
+  } = init;
+
+  for (let attempt = 0; ; attempt++) {
+    if (breaker && !allowRequest(breaker)) {
+      throw new OutboundHttpError(
+        "circuit-open",
+        `${breaker} is temporarily unavailable (circuit open)`,
+        breaker
+      );
+    }
+
+    onAttempt?.(attempt);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let response: Response | null = null;
+    let failure: OutboundHttpError | null = null;
+
+    try {
+      response = await fetch(url, { ...fetchInit, signal: controller.signal });
+    } catch (error: any) {
+      failure =
+        error?.name === "AbortError"
+          ? new OutboundHttpError("timeout", `Request timed out after ${timeoutMs}ms`, breaker)
+          : new OutboundHttpError(
+              "network",
+              `Request failed: ${error?.message || String(error)}`,
+              breaker
+            );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const retryable = failure !== null || isRetryableStatus(response!.status);
+
+    if (breaker) {
+      if (retryable) {
+        recordFailure(breaker, failure?.message ?? `HTTP ${response!.status}`);
+      } else {
+        recordSuccess(breaker);
+      }
+    }
+
+    if (!retryable) return response!;
+    if (attempt >= retries) {
+      if (failure) throw failure;
+      return response!;
+    }
+
+    const retryAfter = response?.headers.get("retry-after") ?? null;
+    // Free the connection before retrying
+    await response?.body?.cancel().catch(() => undefined);
+    await sleep(backoffDelay(attempt, retryAfter));
+  }
+}
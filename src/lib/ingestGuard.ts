@@ -0,0 +1,50 @@
+import type { Context } from "hono";
+import { createHmac, timingSafeEqual } from "crypto";
+import { allowedOrigins } from "./origins.js";
+
+const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000; // Accepted clock skew for signed requests
+
+// Origin of a browser request (Origin header, else Referer)
+const requestOrigin = (c: Context) => {
+  const origin = c.req.header("origin");
+  if (origin) return origin;
+  try {
+    const referer = c.req.header("referer");
+    return referer ? new URL(referer).origin : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Server-to-server: x-fa-signature = hex HMAC-SHA256(ANALYTICS_INGEST_SECRET, `${x-fa-timestamp}.${body}`)
+const hasValidSignature = async (c: Context) => {
+  const secret = process.env.ANALYTICS_INGEST_SECRET;
+  const signature = c.req.header("x-fa-signature");
+  const timestamp = Number(c.req.header("x-fa-timestamp"));
+  if (!secret || !signature || !timestamp) return false;
+  if (Math.abs(Date.now() - timestamp) > SIGNATURE_MAX_AGE_MS) return false;
+
+  // Body is cached by Hono, handlers can still read it
+  const body = await c.req.text();
+  const expected = Buffer.from(
+    createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+  );
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+};
+
+// Middleware for public ingestion routes: our own front-end or a signed request
+export const requireTrustedIngest = async (c: Context, next: () => Promise<void>) => {
+  const origin = requestOrigin(c);
+  const trusted =
+    (origin !== undefined && allowedOrigins.includes(origin)) || (await hasValidSignature(c));
+
+  if (!trusted) {
+    return c.json(
+      { error: "Forbidden", message: "Untrusted origin or invalid signature" },
+      403
+    );
+  }
+
+  await next();
+};
@@ -0,0 +1,55 @@
+import type { Context } from "hono";
+import { getConnInfo } from "@hono/node-server/conninfo";
+
+// IPv4-mapped IPv6 (::ffff:1.2.3.4) → 1.2.3.4
+const normalizeIp = (ip?: string) => ip?.trim().replace(/^::ffff:/, "") || undefined;
+
+// Reverse proxies whose X-Forwarded-For is trusted (TRUSTED_PROXIES, comma-separated IPs)
+const trustedProxies = new Set(
+  (process.env.TRUSTED_PROXIES || "")
+    .split(",")
+    .map((ip) => normalizeIp(ip))
+    .filter((ip): ip is string => !!ip)
+);
+
+// Address of the connection (undefined outside the Node server, e.g. app.request in scripts)
+const peerAddress = (c: Context) => {
+  try {
+    return normalizeIp(getConnInfo(c).remote.address);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Client IP: the connection address, or behind a trusted proxy the last X-Forwarded-For hop
+ * the proxies did not add themselves (earlier hops are client-supplied and can be spoofed)
+ */
+export const getClientIp = (c: Context): string | undefined => {
+  const peer = peerAddress(c);
+  if (!peer || !trustedProxies.has(peer)) return peer;
+
+  const hops = (c.req.header("x-forwarded-for") || "").split(",").map((ip) => normalizeIp(ip));
+  for (let i = hops.length - 1; i >= 0; i--) {
+    const hop = hops[i];
+    if (hop && !trustedProxies.has(hop)) return hop;
+  }
+  return peer;
+};
+
+// Helper to mask IPv4/IPv6 rudimentarily
+export const maskIp = (ip?: string | null) => {
+  if (!ip) return undefined;
+  // Remove IPv6 prefix if present
+  const cleaned = ip.replace("::ffff:", "");
+  if (cleaned.includes(".")) {
+    const parts = cleaned.split(".");
+    if (parts.length === 4) return `${parts[0]}.${parts[1]}.0.0`;
+  }
+  // Basic IPv6 mask
+  if (cleaned.includes(":")) {
+    const segs = cleaned.split(":");
+    return `${segs.slice(0, 2).join(":")}::`;
+  }
+  return undefined;
+};
@@ -0,0 +1,171 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { subDays } from "date-fns";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma.js";
+
+export const LOG_LEVELS = ["debug", "info", "warning", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface Logger {
+  debug: (message: string, meta?: unknown) => void;
+  info: (message: string, meta?: unknown) => void;
+  warn: (message: string, meta?: unknown) => void;
+  error: (message: string, meta?: unknown) => void;
+}
+
+interface RequestContext {
+  requestId: string;
+  userId?: string;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warning: 2, error: 3 };
+
+const CONSOLE_METHOD = {
+  debug: console.debug,
+  info: console.log,
+  warning: console.warn,
+  error: console.error,
+} as const;
+
+const parseLevel = (value: string | undefined, fallback: LogLevel): LogLevel =>
+  LOG_LEVELS.includes(value as LogLevel) ? (value as LogLevel) : fallback;
+
+const isProduction = process.env.NODE_ENV === "production";
+
+// Lowest level printed / stored in systemLog
+const CONSOLE_LEVEL = parseLevel(process.env.LOG_LEVEL, isProduction ? "info" : "debug");
+const PERSIST_LEVEL = parseLevel(process.env.LOG_PERSIST_LEVEL, "info");
+export const LOG_RETENTION_DAYS = Number(process.env.LOG_RETENTION_DAYS) || 30;
+
+const FLUSH_INTERVAL_MS = 2000;
+const FLUSH_BATCH_SIZE = 100;
+const MAX_QUEUED = 5000; // Oldest entries are dropped while the database is unreachable
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+const queue: Prisma.systemLogCreateManyInput[] = [];
+let flushing = false;
+
+/**
+ * Run a request handler with its id, attached to every entry logged while handling it
+ */
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T) =>
+  requestContext.run(context, fn);
+
+// Attach the authenticated user once the session is known
+export const setRequestUser = (userId?: string | null) => {
+  const store = requestContext.getStore();
+  if (store) store.userId = userId ?? undefined;
+};
+
+// Error → details (stack); object → context, with an `error` field as details
+const splitMeta = (meta: unknown): { details?: string; context?: Record<string, unknown> } => {
+  if (meta === undefined || meta === null) return {};
+  if (meta instanceof Error) return { details: meta.stack ?? meta.message };
+  if (typeof meta !== "object") return { details: String(meta) };
+
+  const { error, ...context } = meta as Record<string, unknown>;
+  return {
+    details:
+      error instanceof Error
+        ? error.stack ?? error.message
+        : error !== undefined
+          ? String(error)
+          : undefined,
+    context: Object.keys(context).length ? context : undefined,
+  };
+};
+
+// JSON-safe copy (drops functions, fails soft on cycles/BigInt)
+const toJson = (value?: Record<string, unknown>): Prisma.InputJsonValue | undefined => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return { unserializable: true };
+  }
+};
+
+/**
+ * Write queued entries to systemLog
+ */
+export async function flushLogs() {
+  if (flushing) return;
+  flushing = true;
+  try {
+    while (queue.length) {
+      // Removed only once written: a failed batch stays queued for the next flush
+      const batch = queue.slice(0, FLUSH_BATCH_SIZE);
+      await prisma.systemLog.createMany({ data: batch });
+      // Overflow may have dropped part of the batch from the front meanwhile
+      queue.splice(0, queue.indexOf(batch[batch.length - 1]) + 1);
+    }
+  } catch (error) {
+    // Not through the logger: that would only queue more entries for the failing database
+    console.error("[Logger] Failed to persist logs:", error);
+  } finally {
+    flushing = false;
+  }
+}
+
+function write(level: LogLevel, service: string, message: string, meta?: unknown) {
+  const { details, context } = splitMeta(meta);
+  const request = requestContext.getStore();
+
+  if (LEVEL_RANK[level] >= LEVEL_RANK[CONSOLE_LEVEL]) {
+    if (isProduction) {
+      // One JSON line per entry for log collectors
+      CONSOLE_METHOD[level](
+        JSON.stringify({
+          time: new Date().toISOString(),
+          level,
+          service,
+          message,
+          requestId: request?.requestId,
+          userId: request?.userId,
+          details,
+          ...context,
+        })
+      );
+    } else {
+      CONSOLE_METHOD[level](`[${service}] ${message}`, ...(meta !== undefined ? [meta] : []));
+    }
+  }
+
+  if (LEVEL_RANK[level] >= LEVEL_RANK[PERSIST_LEVEL]) {
+    queue.push({
+      level,
+      service,
+      message,
+      details,
+      context: toJson(context),
+      requestId: request?.requestId,
+      userId: request?.userId,
+    });
+    if (queue.length > MAX_QUEUED) queue.splice(0, queue.length - MAX_QUEUED);
+    if (queue.length >= FLUSH_BATCH_SIZE) void flushLogs();
+  }
+}
+
+/**
+ * Logger for a service, e.g. createLogger("Mailer").info("Email sent", { to })
+ * @param service - name stored with each entry and used by the system-logs filters
+ */
+export const createLogger = (service: string): Logger => ({
+  debug: (message, meta) => write("debug", service, message, meta),
+  info: (message, meta) => write("info", service, message, meta),
+  warn: (message, meta) => write("warning", service, message, meta),
+  error: (message, meta) => write("error", service, message, meta),
+});
+
+// Timers must not keep one-off scripts alive
+setInterval(() => void flushLogs(), FLUSH_INTERVAL_MS).unref();
+
+// Retention: delete entries older than LOG_RETENTION_DAYS
+setInterval(() => {
+  prisma.systemLog
+    .deleteMany({ where: { createdAt: { lt: subDays(new Date(), LOG_RETENTION_DAYS) } } })
+    .catch((error) => {
+      console.error("[Logger] Retention cleanup failed:", error);
+    });
+}, CLEANUP_INTERVAL_MS).unref();
@@ -1,4 +1,7 @@
 import nodemailer from "nodemailer";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Mailer");
 
 // SMTP Configuration from environment variables
 const port = parseInt(process.env.SMTP_PORT || "587");
@@ -47,16 +50,14 @@ export async function sendEmail({
   try {
     // Check if SMTP is configured
     if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
-      console.warn("[Mailer] SMTP not configured, skipping email send");
+      log.warn("SMTP not configured, skipping email send", { to, subject });
       return { success: false, error: "SMTP not configured" };
     }
 
-    console.log(
-      `[Mailer] Attempting to send email to ${to} with subject: "${subject}"`
-    );
-    console.log(
-      `[Mailer] Using SMTP: ${process.env.SMTP_HOST}:${process.env.SMTP_PORT}`
-    );
+    log.debug(`Sending email to ${to}`, {
+      subject,
+      smtp: `${process.env.SMTP_HOST}:${process.env.SMTP_PORT}`,
+    });
 
     const info = await transporter.sendMail({
       from,
@@ -67,16 +68,16 @@ export async function sendEmail({
       html,
     });
 
-    console.log(
-      `[Mailer] ✓ Email sent successfully to ${to}: ${info.messageId}`
-    );
-    console.log(`[Mailer] Response:`, JSON.stringify(info, null, 2));
+    log.info(`Email sent to ${to}`, {
+      subject,
+      messageId: info.messageId,
+      response: info.response,
+    });
     return { success: true, messageId: info.messageId };
   } catch (error) {
-    console.error(`[Mailer] ✗ Failed to send email to ${to}:`, error);
+    log.error(`Failed to send email to ${to}`, { subject, error });
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
-    console.error(`[Mailer] Error details: ${errorMessage}`);
     return {
       success: false,
       error: errorMessage,
@@ -158,14 +159,14 @@ export async function sendBulkEmails({
 export async function verifySmtpConnection(): Promise<boolean> {
   try {
     if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
-      console.warn("[Mailer] SMTP not configured");
+      log.warn("SMTP not configured");
       return false;
     }
     await transporter.verify();
-    console.log("[Mailer] SMTP connection verified");
+    log.info("SMTP connection verified");
     return true;
   } catch (error) {
-    console.error("[Mailer] SMTP connection failed:", error);
+    log.error("SMTP connection failed", error);
     return false;
   }
 }
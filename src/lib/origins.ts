@@ -0,0 +1,7 @@
+// Front-end origins allowed to call the API from a browser (CORS, analytics ingestion)
+export const allowedOrigins = [
+  process.env.APP_CLIENT_URL!,
+  "http://localhost:5173",
+  "https://flyarzan.com",
+  "https://www.flyarzan.com",
+].filter(Boolean);
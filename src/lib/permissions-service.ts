@@ -1,4 +1,9 @@
+import type { Prisma } from "@prisma/client";
 import { prisma } from "./prisma.js";
+import { roleMetadata, roles } from "./permissions.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Permissions");
 
 /**
  * Dynamic Permission Service
@@ -7,6 +12,140 @@ import { prisma } from "./prisma.js";
  * It integrates with Better Auth's role system (stored in users.role field).
  */
 
+// Per-role permission sets and ranks; invalidated when a role changes, expire for other instances
+const ROLE_PERMISSIONS_TTL_MS = 60 * 1000;
+const MAX_ROLE_DEPTH = 10; // Longest parent chain followed (guards against cycles)
+const rolePermissionsCache = new Map<
+  string,
+  { permissions: Set<string>; rank: number; expiresAt: number }
+>();
+
+const rolePermissionsInclude = {
+  rolePermissions: { include: { permission: true } },
+} as const;
+
+/**
+ * Drop cached permissions of a role (or of all roles)
+ */
+export function invalidateRolePermissions(roleName?: string) {
+  if (roleName) {
+    rolePermissionsCache.delete(roleName);
+  } else {
+    rolePermissionsCache.clear();
+  }
+}
+
+/**
+ * A role followed by its ancestors (parent, grandparent, ...); empty when not in the database
+ */
+export async function getRoleChain(roleName: string) {
+  const chain: Prisma.roleGetPayload<{ include: typeof rolePermissionsInclude }>[] = [];
+  const seen = new Set<string>();
+
+  let role = await prisma.role.findUnique({
+    where: { name: roleName },
+    include: rolePermissionsInclude,
+  });
+  while (role && !seen.has(role.id) && chain.length < MAX_ROLE_DEPTH) {
+    chain.push(role);
+    seen.add(role.id);
+    role = role.parentId
+      ? await prisma.role.findUnique({
+          where: { id: role.parentId },
+          include: rolePermissionsInclude,
+        })
+      : null;
+  }
+
+  return chain;
+}
+
+const resolveRole = async (roleName: string) => {
+  const cached = rolePermissionsCache.get(roleName);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+
+  const chain = await getRoleChain(roleName);
+
+  let permissions: Set<string>;
+  let rank: number;
+  if (chain.length) {
+    // Own permissions plus every ancestor's
+    permissions = new Set(
+      chain.flatMap((role) =>
+        role.rolePermissions.map(
+          (rp) => `${rp.permission.resource}:${rp.permission.action}`
+        )
+      )
+    );
+    rank = chain[0].rank;
+  } else {
+    const staticRole = roles[roleName as keyof typeof roles];
+    // @ts-ignore - accessing role permissions
+    const statements: Record<string, string[]> = staticRole?.statements ?? {};
+    permissions = new Set(
+      Object.entries(statements).flatMap(([resource, actions]) =>
+        actions.map((action) => `${resource}:${action}`)
+      )
+    );
+    rank = roleMetadata[roleName as keyof typeof roleMetadata]?.rank ?? 0;
+  }
+
+  const resolved = {
+    permissions,
+    rank,
+    expiresAt: Date.now() + ROLE_PERMISSIONS_TTL_MS,
+  };
+  rolePermissionsCache.set(roleName, resolved);
+  return resolved;
+};
+
+/**
+ * Effective permissions of a role (own and inherited) as "resource:action" strings
+ * Roles missing from the database (not seeded yet) fall back to the static definitions
+ */
+export async function getRolePermissions(roleName: string): Promise<Set<string>> {
+  return (await resolveRole(roleName)).permissions;
+}
+
+/**
+ * Rank of a role (unknown roles rank lowest)
+ */
+export async function getRoleRank(roleName?: string | null): Promise<number> {
+  if (!roleName) return 0;
+  return (await resolveRole(roleName)).rank;
+}
+
+/**
+ * Whether a role is ranked strictly above another, i.e. may manage its users or assign it
+ */
+export async function outranks(
+  roleName: string | null | undefined,
+  otherRoleName: string | null | undefined
+): Promise<boolean> {
+  if (!roleName) return false;
+  return (await getRoleRank(roleName)) > (await getRoleRank(otherRoleName || "user"));
+}
+
+/**
+ * Whether a role exists (in the database or as a static definition)
+ */
+export async function isKnownRole(roleName: string): Promise<boolean> {
+  if (roleName in roles) return true;
+  return (await prisma.role.count({ where: { name: roleName } })) > 0;
+}
+
+const parsePermission = (perm: string) => {
+  const [resource, action] = perm.split(":");
+  if (!resource || !action) {
+    throw new Error(
+      `Invalid permission format: ${perm}. Use "resource:action" format.`
+    );
+  }
+  return `${resource}:${action}`;
+};
+
 /**
  * Check if a user has specific permissions
  * @param userId - The user ID to check
@@ -27,36 +166,10 @@ export async function hasPermission(
       return false;
     }
 
-    const permissionChecks = permissions.map((perm) => {
-      const [resource, action] = perm.split(":");
-      if (!resource || !action) {
-        throw new Error(
-          `Invalid permission format: ${perm}. Use "resource:action" format.`
-        );
-      }
-      return { resource, action };
-    });
-
-    const rolePermissions = await prisma.rolePermission.findMany({
-      where: {
-        role: {
-          name: user.role,
-        },
-        permission: {
-          OR: permissionChecks.map(({ resource, action }) => ({
-            resource,
-            action,
-          })),
-        },
-      },
-      include: {
-        permission: true,
-      },
-    });
-
-    return rolePermissions.length === permissions.length;
+    const granted = await getRolePermissions(user.role);
+    return permissions.map(parsePermission).every((perm) => granted.has(perm));
   } catch (error) {
-    console.error("Error checking permissions:", error);
+    log.error("Error checking permissions", { userId, error });
     return false;
   }
 }
@@ -78,34 +191,16 @@ export async function hasAnyPermission(
       return false;
     }
 
-    const permissionChecks = permissions.map((perm) => {
-      const [resource, action] = perm.split(":");
-      return { resource, action };
-    });
-
-    const rolePermission = await prisma.rolePermission.findFirst({
-      where: {
-        role: {
-          name: user.role,
-        },
-        permission: {
-          OR: permissionChecks.map(({ resource, action }) => ({
-            resource,
-            action,
-          })),
-        },
-      },
-    });
-
-    return !!rolePermission;
+    const granted = await getRolePermissions(user.role);
+    return permissions.map(parsePermission).some((perm) => granted.has(perm));
   } catch (error) {
-    console.error("Error checking permissions:", error);
+    log.error("Error checking permissions", { userId, error });
     return false;
   }
 }
 
 /**
- * Get all permissions for a user based on their role
+ * Get all permissions for a user based on their role, including those inherited from parent roles
  */
 export async function getUserPermissions(userId: string) {
   try {
@@ -118,27 +213,28 @@ export async function getUserPermissions(userId: string) {
       return [];
     }
 
-    const rolePermissions = await prisma.rolePermission.findMany({
-      where: {
-        role: {
-          name: user.role,
-        },
-      },
-      include: {
-        permission: {
-          select: {
-            resource: true,
-            action: true,
-            displayName: true,
-            group: true,
-          },
-        },
-      },
-    });
+    const chain = await getRoleChain(user.role);
+    const permissions = new Map<
+      string,
+      { resource: string; action: string; displayName: string; group: string }
+    >();
+    for (const role of chain) {
+      for (const { permission } of role.rolePermissions) {
+        const key = `${permission.resource}:${permission.action}`;
+        if (!permissions.has(key)) {
+          permissions.set(key, {
+            resource: permission.resource,
+            action: permission.action,
+            displayName: permission.displayName,
+            group: permission.group,
+          });
+        }
+      }
+    }
 
-    return rolePermissions.map((rp) => rp.permission);
+    return [...permissions.values()];
   } catch (error) {
-    console.error("Error getting permissions:", error);
+    log.error("Error getting permissions", { userId, error });
     return [];
   }
 }
@@ -223,11 +319,15 @@ export async function createRole(data: {
   name: string;
   description?: string;
   permissionIds: string[];
+  rank?: number;
+  parentId?: string | null;
 }) {
-  return await prisma.role.create({
+  const role = await prisma.role.create({
     data: {
       name: data.name,
       description: data.description,
+      rank: data.rank,
+      parentId: data.parentId,
       rolePermissions: {
         create: data.permissionIds.map((permissionId) => ({
           permissionId,
@@ -242,6 +342,10 @@ export async function createRole(data: {
       },
     },
   });
+
+  // The name may have been cached as a role without permissions
+  invalidateRolePermissions(data.name);
+  return role;
 }
 
 /**
@@ -275,6 +379,50 @@ export async function updateRolePermissions(
       })),
     }),
   ]);
+  // Child roles inherit these permissions
+  invalidateRolePermissions();
+
+  return getRoleWithPermissions(roleName);
+}
+
+/**
+ * Whether making parentId the parent of roleId would create a cycle
+ */
+export async function wouldCreateCycle(roleId: string, parentId: string) {
+  const parent = await prisma.role.findUnique({ where: { id: parentId } });
+  if (!parent) return false;
+  const chain = await getRoleChain(parent.name);
+  return chain.some((role) => role.id === roleId);
+}
+
+/**
+ * Update a role's rank and/or parent
+ */
+export async function updateRoleHierarchy(
+  roleName: string,
+  data: { rank?: number; parentId?: string | null }
+) {
+  const role = await prisma.role.findUnique({
+    where: { name: roleName },
+  });
+
+  if (!role) {
+    throw new Error(`Role ${roleName} not found`);
+  }
+
+  if (role.isSystem) {
+    throw new Error(`Cannot modify system role: ${roleName}`);
+  }
+
+  if (data.parentId && (await wouldCreateCycle(role.id, data.parentId))) {
+    throw new Error(`Role ${roleName} cannot inherit from its own descendant`);
+  }
+
+  await prisma.role.update({
+    where: { id: role.id },
+    data: { rank: data.rank, parentId: data.parentId },
+  });
+  invalidateRolePermissions();
 
   return getRoleWithPermissions(roleName);
 }
@@ -309,6 +457,8 @@ export async function deleteRole(roleName: string) {
   await prisma.role.delete({
     where: { name: roleName },
   });
+  // Child roles lose the inherited permissions
+  invalidateRolePermissions();
 }
 
 /**
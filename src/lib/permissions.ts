@@ -35,9 +35,14 @@ const statement = {
 
   // System
   system: ["dashboard", "settings", "logs"],
+  apiKey: ["list", "create", "update", "revoke"],
 
   // Feedback
   feedback: ["list", "view", "update", "delete"],
+
+  // Communication
+  email: ["send", "list", "view"],
+  notification: ["send", "list"],
 } as const;
 
 /**
@@ -69,7 +74,10 @@ export const superAdmin = ac.newRole({
   cms: ["create", "list", "view", "update", "delete", "publish"],
   analytics: ["view", "export"],
   system: ["dashboard", "settings", "logs"],
+  apiKey: ["list", "create", "update", "revoke"],
   feedback: ["list", "view", "update", "delete"],
+  email: ["send", "list", "view"],
+  notification: ["send", "list"],
 });
 
 /**
@@ -93,7 +101,10 @@ export const admin = ac.newRole({
   cms: ["create", "list", "view", "update", "delete", "publish"],
   analytics: ["view", "export"],
   system: ["dashboard", "logs"],
+  apiKey: ["list", "create", "update", "revoke"],
   feedback: ["list", "view", "update", "delete"],
+  email: ["send", "list", "view"],
+  notification: ["send", "list"],
 });
 
 /**
@@ -109,10 +120,11 @@ export const moderator = ac.newRole({
 });
 
 /**
- * User Role - Basic permissions
+ * User Role - Customers, no admin permissions
+ * (system:dashboard exposes internal monitoring data, so it is staff only)
  */
 export const user = ac.newRole({
-  system: ["dashboard"],
+  system: [],
 });
 
 /**
@@ -135,6 +147,7 @@ export const roleMetadata = {
     description: "Full access to all features including system settings",
     color: "#DC2626", // red
     isSystem: true,
+    rank: 100,
   },
   admin: {
     id: "admin",
@@ -142,6 +155,7 @@ export const roleMetadata = {
     description: "Full access to user and content management",
     color: "#F97316", // orange
     isSystem: true,
+    rank: 80,
   },
   moderator: {
     id: "moderator",
@@ -149,13 +163,15 @@ export const roleMetadata = {
     description: "Content moderation and user management",
     color: "#8B5CF6", // purple
     isSystem: true,
+    rank: 50,
   },
   user: {
     id: "user",
     name: "User",
-    description: "Basic access to dashboard",
+    description: "Customer account without admin access",
     color: "#3B82F6", // blue
     isSystem: true,
+    rank: 0,
   },
 };
 
@@ -254,6 +270,10 @@ export const permissionCategories = {
         displayName: "Manage Settings",
       },
       { resource: "system", action: "logs", displayName: "View System Logs" },
+      { resource: "apiKey", action: "list", displayName: "List API Keys" },
+      { resource: "apiKey", action: "create", displayName: "Create API Keys" },
+      { resource: "apiKey", action: "update", displayName: "Update API Keys" },
+      { resource: "apiKey", action: "revoke", displayName: "Revoke API Keys" },
     ],
   },
   feedback: {
@@ -274,6 +294,25 @@ export const permissionCategories = {
       },
     ],
   },
+  communication: {
+    name: "Communication",
+    description: "Send emails and notifications to users",
+    permissions: [
+      { resource: "email", action: "send", displayName: "Send Emails" },
+      { resource: "email", action: "list", displayName: "List Campaigns" },
+      { resource: "email", action: "view", displayName: "View Campaigns" },
+      {
+        resource: "notification",
+        action: "send",
+        displayName: "Send Notifications",
+      },
+      {
+        resource: "notification",
+        action: "list",
+        displayName: "List Notifications",
+      },
+    ],
+  },
 };
 
 /**
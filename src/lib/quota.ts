@@ -0,0 +1,134 @@
+import { prisma } from "./prisma.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Quota");
+
+/**
+ * Supplier API Quota Accounting
+ *
+ * Every outbound supplier call is counted per endpoint and UTC day in the
+ * apiQuotaUsage table. Limits live in apiQuotaLimit and are editable by admins.
+ */
+
+export type QuotaEndpoint =
+  | "flight-offers"
+  | "flight-dates"
+  | "flight-price"
+  | "flight-destinations"
+  | "token";
+
+const DEFAULT_DAILY_LIMIT = Number(process.env.AMADEUS_DAILY_QUOTA || 1000);
+const DEFAULT_MONTHLY_LIMIT = Number(process.env.AMADEUS_MONTHLY_QUOTA || 30000);
+
+// Alert thresholds (percent of limit)
+export const QUOTA_WARNING_PERCENT = 80;
+export const QUOTA_CRITICAL_PERCENT = 100;
+
+// Start of the current UTC day / month
+const startOfUtcDay = (date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const startOfUtcMonth = (date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+/**
+ * Count one outbound call. Never throws - accounting must not break searches.
+ */
+export async function recordApiCall(supplier: string, endpoint: QuotaEndpoint) {
+  const date = startOfUtcDay();
+
+  try {
+    await prisma.apiQuotaUsage.upsert({
+      where: { supplier_endpoint_date: { supplier, endpoint, date } },
+      create: { supplier, endpoint, date, count: 1 },
+      update: { count: { increment: 1 } },
+    });
+  } catch (error) {
+    log.error(`Failed to record ${supplier}/${endpoint} call`, error);
+  }
+}
+
+/**
+ * Get configured limits for a supplier (falls back to env defaults)
+ */
+export async function getQuotaLimits(supplier: string) {
+  const limits = await prisma.apiQuotaLimit.findUnique({ where: { supplier } });
+
+  return {
+    dailyLimit: limits?.dailyLimit ?? DEFAULT_DAILY_LIMIT,
+    monthlyLimit: limits?.monthlyLimit ?? DEFAULT_MONTHLY_LIMIT,
+    updatedBy: limits?.updatedBy ?? null,
+    updatedAt: limits?.updatedAt ?? null,
+  };
+}
+
+/**
+ * Update limits for a supplier
+ */
+export async function setQuotaLimits(
+  supplier: string,
+  data: { dailyLimit: number; monthlyLimit: number; updatedBy?: string }
+) {
+  return prisma.apiQuotaLimit.upsert({
+    where: { supplier },
+    create: { supplier, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Get today's and this month's usage for a supplier, with limits and percentages
+ */
+export async function getQuotaUsage(supplier: string) {
+  const today = startOfUtcDay();
+  const monthStart = startOfUtcMonth();
+
+  const [rows, limits] = await Promise.all([
+    prisma.apiQuotaUsage.findMany({
+      where: { supplier, date: { gte: monthStart } },
+      select: { endpoint: true, date: true, count: true },
+    }),
+    getQuotaLimits(supplier),
+  ]);
+
+  const endpoints: Record<string, { daily: number; monthly: number }> = {};
+  let daily = 0;
+  let monthly = 0;
+
+  for (const row of rows) {
+    const isToday = row.date.getTime() === today.getTime();
+    endpoints[row.endpoint] ??= { daily: 0, monthly: 0 };
+    endpoints[row.endpoint].monthly += row.count;
+    monthly += row.count;
+    if (isToday) {
+      endpoints[row.endpoint].daily += row.count;
+      daily += row.count;
+    }
+  }
+
+  const percentOf = (used: number, limit: number) =>
+    limit > 0 ? (used / limit) * 100 : 0;
+
+  return {
+    supplier,
+    daily,
+    monthly,
+    dailyLimit: limits.dailyLimit,
+    monthlyLimit: limits.monthlyLimit,
+    dailyPercent: percentOf(daily, limits.dailyLimit),
+    monthlyPercent: percentOf(monthly, limits.monthlyLimit),
+    endpoints,
+    day: today.toISOString().split("T")[0],
+    month: monthStart.toISOString().slice(0, 7),
+  };
+}
+
+/**
+ * True when the supplier has used up its daily or monthly quota
+ */
+export async function isQuotaExceeded(supplier: string) {
+  const usage = await getQuotaUsage(supplier);
+  return (
+    usage.dailyPercent >= QUOTA_CRITICAL_PERCENT ||
+    usage.monthlyPercent >= QUOTA_CRITICAL_PERCENT
+  );
+}
@@ -0,0 +1,59 @@
+import type { Context } from "hono";
+import { getClientIp } from "./ip.js";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number | ((c: Context) => number); // Requests per window and key
+  // Defaults to the client IP (connection address, or X-Forwarded-For from a trusted proxy)
+  keyGenerator?: (c: Context) => string | undefined;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+const limiters: Map<string, Window>[] = [];
+
+// Fixed-window limiter kept in memory (per instance)
+export const rateLimit = ({ windowMs, max, keyGenerator = getClientIp }: RateLimitOptions) => {
+  const windows = new Map<string, Window>();
+  limiters.push(windows);
+
+  return async (c: Context, next: () => Promise<void>) => {
+    const key = keyGenerator(c) ?? "unknown";
+    const limit = typeof max === "function" ? max(c) : max;
+    const now = Date.now();
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    c.header("X-RateLimit-Limit", String(limit));
+    c.header("X-RateLimit-Remaining", String(Math.max(limit - window.count, 0)));
+
+    if (window.count > limit) {
+      c.header("Retry-After", String(Math.ceil((window.resetAt - now) / 1000)));
+      return c.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded, try again later" },
+        429
+      );
+    }
+
+    await next();
+  };
+};
+
+// Drop finished windows
+setInterval(() => {
+  const now = Date.now();
+  for (const windows of limiters) {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }
+}, CLEANUP_INTERVAL_MS);
@@ -1,6 +1,9 @@
 import { WebSocketServer, WebSocket } from "ws";
 import { IncomingMessage } from "http";
 import { auth } from "./auth.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("WebSocket");
 
 // Store connected clients by userId
 // Each user can have multiple connections (multiple tabs/devices)
@@ -16,19 +19,19 @@ export function initWebSocket(server: any): WebSocketServer {
     wss = new WebSocketServer({ server, path: "/ws" });
 
     wss.on("connection", async (ws: WebSocket, req: IncomingMessage) => {
-        console.log("[WS] New connection attempt");
+        log.debug("New connection attempt");
 
         // Extract session from cookies
         const cookies = req.headers.cookie || "";
         const userId = await authenticateConnection(cookies);
 
         if (!userId) {
-            console.log("[WS] Authentication failed, closing connection");
+            log.debug("Authentication failed, closing connection");
             ws.close(4001, "Unauthorized");
             return;
         }
 
-        console.log(`[WS] User ${userId} connected`);
+        log.info(`User ${userId} connected`, { userId });
 
         // Add to clients map
         if (!clients.has(userId)) {
@@ -48,13 +51,13 @@ export function initWebSocket(server: any): WebSocketServer {
                 const message = JSON.parse(data.toString());
                 handleClientMessage(userId, message, ws);
             } catch (error) {
-                console.error("[WS] Invalid message format:", error);
+                log.warn("Invalid message format", { userId, error });
             }
         });
 
         // Handle disconnection
         ws.on("close", () => {
-            console.log(`[WS] User ${userId} disconnected`);
+            log.info(`User ${userId} disconnected`, { userId });
             const userConnections = clients.get(userId);
             if (userConnections) {
                 userConnections.delete(ws);
@@ -66,7 +69,7 @@ export function initWebSocket(server: any): WebSocketServer {
 
         // Handle errors
         ws.on("error", (error) => {
-            console.error(`[WS] Error for user ${userId}:`, error);
+            log.error(`Error for user ${userId}`, { userId, error });
         });
 
         // Heartbeat - ping every 30 seconds
@@ -81,7 +84,7 @@ export function initWebSocket(server: any): WebSocketServer {
         ws.on("close", () => clearInterval(pingInterval));
     });
 
-    console.log("[WS] WebSocket server initialized on /ws");
+    log.info("WebSocket server initialized on /ws");
     return wss;
 }
 
@@ -101,7 +104,7 @@ async function authenticateConnection(cookies: string): Promise<string | null> {
         }
         return null;
     } catch (error) {
-        console.error("[WS] Auth error:", error);
+        log.error("Auth error", error);
         return null;
     }
 }
@@ -115,7 +118,7 @@ function handleClientMessage(userId: string, message: any, ws: WebSocket) {
             ws.send(JSON.stringify({ type: "pong" }));
             break;
         default:
-            console.log(`[WS] Unknown message type from ${userId}:`, message.type);
+            log.warn(`Unknown message type from ${userId}`, { userId, type: message.type });
     }
 }
 
@@ -125,7 +128,7 @@ function handleClientMessage(userId: string, message: any, ws: WebSocket) {
 export function sendToUser(userId: string, data: any): boolean {
     const userConnections = clients.get(userId);
     if (!userConnections || userConnections.size === 0) {
-        console.log(`[WS] User ${userId} not connected`);
+        log.debug(`User ${userId} not connected`);
         return false;
     }
 
@@ -139,7 +142,7 @@ export function sendToUser(userId: string, data: any): boolean {
         }
     });
 
-    console.log(`[WS] Sent to ${sent} connections for user ${userId}`);
+    log.debug(`Sent to ${sent} connections for user ${userId}`);
     return sent > 0;
 }
 
@@ -158,7 +161,7 @@ export function sendToUsers(userIds: string[], data: any): { sent: number; offli
         }
     }
 
-    console.log(`[WS] Fanout: ${sent} online, ${offline} offline`);
+    log.info(`Fanout: ${sent} online, ${offline} offline`, { sent, offline });
     return { sent, offline };
 }
 
@@ -178,7 +181,7 @@ export function broadcast(data: any): number {
         });
     });
 
-    console.log(`[WS] Broadcast to ${count} connections`);
+    log.info(`Broadcast to ${count} connections`, { count });
     return count;
 }
 
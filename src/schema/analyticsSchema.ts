@@ -14,6 +14,11 @@ export const clickOutEventSchema = yup.object({
   destination: yup.string().trim().required(),
   tripType: yup.string().oneOf(["one-way", "round-trip", "multi-city"]).required(),
   partner: yup.string().optional(),
+  // Price shown in search results and price confirmed via /flight-offers/price
+  price: yup.number().min(0).optional(),
+  searchedPrice: yup.number().min(0).optional(),
+  confirmedPrice: yup.number().min(0).optional(),
+  currency: yup.string().trim().length(3).uppercase().optional(),
 });
 
 export const reportsQuerySchema = yup.object({
@@ -0,0 +1,46 @@
+import { array, date, number, object, string, type InferType } from "yup";
+import { isValidAllowlistEntry } from "@/lib/apiKeys.js";
+
+const fields = {
+  name: string().trim().max(100, "Name cannot exceed 100 characters"),
+  // Either a role or an explicit permission list scopes the key
+  role: string().trim().nullable(),
+  permissions: array(
+    string()
+      .trim()
+      .required()
+      .matches(/^[\w-]+:[\w-]+$/, "Permissions must use the resource:action format")
+  ),
+  ipAllowlist: array(
+    string()
+      .trim()
+      .required()
+      .test("ip", "IP allowlist entries must be IPs or IPv4 CIDR ranges", isValidAllowlistEntry)
+  ),
+  rateLimit: number()
+    .integer("Rate limit must be a whole number")
+    .min(1, "Rate limit must be at least 1 request per minute")
+    .max(10000, "Rate limit cannot exceed 10000 requests per minute"),
+  expiresAt: date()
+    .nullable()
+    .typeError("Expiry date must be a valid date")
+    .test("future", "Expiry date must be in the future", (value) => !value || value > new Date()),
+};
+
+export const apiKeyCreateSchema = object({
+  ...fields,
+  name: fields.name.required("Name is required"),
+  permissions: fields.permissions.default([]),
+  ipAllowlist: fields.ipAllowlist.default([]),
+}).test("scope", "Provide either a role or a permission list", (value) =>
+  value.role ? value.permissions.length === 0 : value.permissions.length > 0
+);
+
+export const apiKeyUpdateSchema = object(fields).test(
+  "scope",
+  "Provide either a role or a permission list",
+  (value) => !(value.role && value.permissions?.length)
+);
+
+export type ApiKeyCreateType = InferType<typeof apiKeyCreateSchema>;
+export type ApiKeyUpdateType = InferType<typeof apiKeyUpdateSchema>;
@@ -0,0 +1,12 @@
+import { string } from "yup";
+import { isSupportedCurrency } from "@/lib/exchangeRates.js";
+
+// Optional ISO 4217 code checked against the currency list (e.g. ?currency=EUR)
+export const currencyCode = () =>
+  string()
+    .trim()
+    .uppercase()
+    .matches(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code")
+    .test("supported-currency", "Unsupported currency", async (value) =>
+      !value ? true : isSupportedCurrency(value)
+    );
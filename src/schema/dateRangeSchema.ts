@@ -0,0 +1,14 @@
+import { date, object, type InferType } from "yup";
+
+// Empty query values mean "no bound"
+const queryDate = (name: string) =>
+  date()
+    .transform((value, original) => (original === "" ? undefined : value))
+    .typeError(`${name} must be a valid date`);
+
+export const dateRangeQuerySchema = object({
+  startDate: queryDate("startDate"),
+  endDate: queryDate("endDate"),
+});
+
+export type DateRangeQuery = InferType<typeof dateRangeQuerySchema>;
@@ -0,0 +1,16 @@
+import { object, string, type InferType } from "yup";
+
+// Signed click-out link for an offer from a previous search
+export const flightOfferDeepLinkSchema = object({
+  searchId: string().required("Search ID is required"),
+  offerId: string().required("Offer ID is required"),
+  partner: string().trim().lowercase().required("Partner is required"),
+  // Attribution of the visit, recorded with the click-out
+  utmSource: string().trim().max(100).optional(),
+  utmMedium: string().trim().max(100).optional(),
+  utmCampaign: string().trim().max(100).optional(),
+  utmContent: string().trim().max(100).optional(),
+  utmTerm: string().trim().max(100).optional(),
+});
+
+export type FlightOfferDeepLinkRequestType = InferType<typeof flightOfferDeepLinkSchema>;
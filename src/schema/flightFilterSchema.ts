@@ -0,0 +1,67 @@
+import { array, number, object, string, type InferType } from "yup";
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Comma-separated airline codes (e.g. "TK,KC") -> ["TK", "KC"]
+const airlineCodeList = (label: string) =>
+  array()
+    .transform((value, originalValue) => {
+      if (typeof originalValue === "string") {
+        return originalValue
+          .split(",")
+          .map((code) => code.trim().toUpperCase())
+          .filter(Boolean);
+      }
+      return value;
+    })
+    .of(
+      string()
+        .required()
+        .matches(/^[A-Z0-9]{2}$/, `${label} must be 2-character airline codes`)
+    )
+    .optional();
+
+// Query string numbers (empty string -> undefined)
+const optionalNumber = () =>
+  number().transform((value, originalValue) => {
+    if (typeof originalValue === "string") {
+      if (originalValue.trim() === "") return undefined;
+      const parsed = Number(originalValue);
+      return isNaN(parsed) ? value : parsed;
+    }
+    return value;
+  });
+
+const timeOfDay = (label: string) =>
+  string()
+    .matches(TIME_OF_DAY, `${label} must be in HH:mm format`)
+    .optional();
+
+export const flightOfferFilterSchema = object({
+  maxStops: optionalNumber()
+    .integer("Max stops must be a whole number")
+    .min(0, "Max stops cannot be negative")
+    .optional(),
+  maxPrice: optionalNumber().min(0, "Max price cannot be negative").optional(),
+  includeAirlines: airlineCodeList("Included airlines"),
+  excludeAirlines: airlineCodeList("Excluded airlines"),
+  departureTimeFrom: timeOfDay("Departure time from"),
+  departureTimeTo: timeOfDay("Departure time to"),
+  arrivalTimeFrom: timeOfDay("Arrival time from"),
+  arrivalTimeTo: timeOfDay("Arrival time to"),
+  maxDuration: optionalNumber()
+    .integer("Max duration must be a whole number of minutes")
+    .min(1, "Max duration must be positive")
+    .optional(),
+  sortBy: string()
+    .oneOf(["price", "duration", "best"], "Sort must be price, duration, or best")
+    .default("best"),
+  limit: optionalNumber()
+    .integer("Limit must be a whole number")
+    .min(1, "Limit must be at least 1")
+    .max(100, "Limit cannot exceed 100")
+    .default(20),
+  cursor: string().optional(),
+});
+
+export type FlightOfferFilterQueryType = InferType<typeof flightOfferFilterSchema>;
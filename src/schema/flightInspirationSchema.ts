@@ -0,0 +1,55 @@
+import { boolean, number, object, string, type InferType } from "yup";
+import { currencyCode } from "./currencySchema.js";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Query string numbers (empty string -> undefined)
+const optionalNumber = () =>
+  number().transform((value, originalValue) => {
+    if (typeof originalValue === "string") {
+      if (originalValue.trim() === "") return undefined;
+      const parsed = Number(originalValue);
+      return isNaN(parsed) ? value : parsed;
+    }
+    return value;
+  });
+
+// "Where can I fly from ALA under $300 next month"
+export const flightInspirationSchema = object({
+  origin: string()
+    .required("Origin airport code is required")
+    .matches(/^[A-Z]{3}$/, "Origin code must be 3 uppercase letters"),
+  departureDate: string()
+    .matches(DATE_ONLY, "Departure date must be in YYYY-MM-DD format")
+    .optional(),
+  endDate: string()
+    .matches(DATE_ONLY, "End date must be in YYYY-MM-DD format")
+    .test(
+      "is-after-departure",
+      "End date must be on or after departure date",
+      function (value) {
+        const { departureDate } = this.parent;
+        return !value || !departureDate || value >= departureDate;
+      }
+    )
+    .optional(),
+  maxPrice: optionalNumber().min(1, "Max price must be positive").optional(),
+  oneWay: boolean().default(false),
+  duration: optionalNumber()
+    .integer("Duration must be a whole number of days")
+    .min(1, "Duration must be at least 1 day")
+    .max(30, "Duration cannot exceed 30 days")
+    .default(7),
+  nonStop: boolean().optional(),
+  // Prices (and maxPrice) in this currency, converted from the supplier's
+  currency: currencyCode().optional(),
+  limit: optionalNumber()
+    .integer("Limit must be a whole number")
+    .min(1, "Limit must be at least 1")
+    .max(50, "Limit cannot exceed 50")
+    .default(20),
+});
+
+export type FlightInspirationQueryType = InferType<
+  typeof flightInspirationSchema
+>;
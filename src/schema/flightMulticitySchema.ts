@@ -1,5 +1,6 @@
 import { array, object, string, number, type InferType } from "yup";
 import { startOfDay, isAfter, isSameDay, isValid, parseISO } from "date-fns";
+import { currencyCode } from "./currencySchema.js";
 
 // Origin destination schema
 const originDestinationSchema = object({
@@ -29,15 +30,46 @@ const originDestinationSchema = object({
 
         return isSameDay(selectedDate, today) || isAfter(selectedDate, today);
       }),
+    // Preferred departure time, optionally ± timeWindow hours (e.g. "3H")
+    time: string()
+      .matches(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, "Time must be in HH:mm format")
+      .optional(),
+    timeWindow: string()
+      .matches(/^([1-9]|1[0-2])H$/, "Time window must be between 1H and 12H")
+      .test("requires-time", "Time window requires a departure time", function (value) {
+        return !value || !!this.parent.time;
+      })
+      .optional(),
   }).required("Departure date time range is required"),
+  // Per-leg constraints (mapped to the supplier request, enforced on results)
+  cabin: string()
+    .oneOf(
+      ["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"],
+      "Cabin must be ECONOMY, PREMIUM_ECONOMY, BUSINESS, or FIRST"
+    )
+    .optional(),
+  maxConnections: number()
+    .integer("Max connections must be a whole number")
+    .min(0, "Max connections cannot be negative")
+    .max(3, "Max connections cannot exceed 3")
+    .optional(),
 });
 
 // Traveler schema
 const travelerSchema = object({
   id: string().required("Traveler ID is required"),
   travelerType: string()
-    .required("Traveler type is required")
-    .oneOf(["ADULT", "CHILD"], "Traveler type must be ADULT or CHILD"),
+    .oneOf(
+      ["ADULT", "CHILD", "HELD_INFANT", "SEATED_INFANT"],
+      "Traveler type must be ADULT, CHILD, HELD_INFANT or SEATED_INFANT"
+    )
+    .test("type-or-profile", "Traveler type is required", function (value) {
+      return !!value || !!this.parent.profileId;
+    }),
+  // Saved traveller profile (signed-in users); travelerType is then derived from age
+  profileId: string().optional(),
+  // Adult a held infant travels with (defaults to the first adult without an infant)
+  associatedAdultId: string().optional(),
 });
 
 // Cabin schema
@@ -63,7 +95,19 @@ const cabinRestrictionSchema = object({
 
 // Flight multi-city schema
 export const flightMulticitySchema = object({
-  currencyCode: string().default("USD"),
+  currencyCode: currencyCode().default("USD"),
+  // Same as currencyCode, named like the other /flight-offers routes (takes precedence)
+  currency: currencyCode().optional(),
+  // open-jaw allows a leg to start away from where the previous one ended (surface segment)
+  mode: string()
+    .oneOf(["consecutive", "open-jaw"], "Mode must be consecutive or open-jaw")
+    .default("consecutive"),
+  // Max distance between one leg's destination and the next leg's origin (open-jaw)
+  maxSurfaceGapKm: number()
+    .integer("Max surface gap must be a whole number of km")
+    .min(0, "Max surface gap cannot be negative")
+    .max(2000, "Max surface gap cannot exceed 2000 km")
+    .default(500),
   originDestinations: array()
     .of(originDestinationSchema)
     .min(2, "At least 2 origin destinations are required for multi-city")
@@ -77,7 +121,8 @@ export const flightMulticitySchema = object({
     .test(
       "consecutive-destinations",
       "Each destination must match the next origin",
-      (value) => {
+      function (value) {
+        if (this.parent.mode === "open-jaw") return true;
         if (!value || value.length < 2) return true;
         for (let i = 0; i < value.length - 1; i++) {
           if (
@@ -88,12 +133,33 @@ export const flightMulticitySchema = object({
         }
         return true;
       }
+    )
+    .test(
+      "chronological-legs",
+      "Legs must be in date order",
+      (value) => {
+        if (!value) return true;
+        for (let i = 0; i < value.length - 1; i++) {
+          if (
+            value[i].departureDateTimeRange.date >
+            value[i + 1].departureDateTimeRange.date
+          ) {
+            return false;
+          }
+        }
+        return true;
+      }
     ),
   travelers: array()
     .of(travelerSchema)
     .min(1, "At least 1 traveler is required")
     .max(9, "Maximum 9 travelers allowed")
-    .required("Travelers are required"),
+    .required("Travelers are required")
+    .test("unique-ids", "Traveler IDs must be unique", (value) => {
+      if (!value) return false;
+      const ids = value.map((traveler) => traveler.id);
+      return ids.length === new Set(ids).size;
+    }),
   sources: array()
     .of(string().oneOf(["GDS"], "Invalid source"))
     .optional(),
@@ -0,0 +1,14 @@
+import { object, string, type InferType } from "yup";
+import { currencyCode } from "./currencySchema.js";
+
+// Offer price confirmation request (offer from a previous search)
+export const flightOfferPriceSchema = object({
+  searchId: string().required("Search ID is required"),
+  offerId: string().required("Offer ID is required"),
+  // Defaults to the currency the offer was searched in
+  currency: currencyCode().optional(),
+});
+
+export type FlightOfferPriceRequestType = InferType<
+  typeof flightOfferPriceSchema
+>;
@@ -1,5 +1,6 @@
-import { date, object, string, number, type InferType } from "yup";
+import { array, boolean, date, object, string, number, type InferType } from "yup";
 import { startOfDay, isAfter, isSameDay, isValid, parseISO } from "date-fns";
+import { currencyCode } from "./currencySchema.js";
 
 export const flightOfferSearchSchema = object({
   originLocationCode: string()
@@ -104,12 +105,75 @@ export const flightOfferSearchSchema = object({
     .max(9, "Maximum 9 children allowed")
     .integer("Children must be a whole number")
     .optional(), // Truly optional as per Amadeus docs
+  // Held infants (under 2, on an adult's lap)
+  infants: number()
+    .transform((value, originalValue) => {
+      if (typeof originalValue === "string") {
+        const parsed = parseInt(originalValue, 10);
+        return isNaN(parsed) ? undefined : parsed;
+      }
+      return value;
+    })
+    .min(0, "Infants cannot be negative")
+    .max(9, "Maximum 9 infants allowed")
+    .integer("Infants must be a whole number")
+    .test(
+      "not-more-than-adults",
+      "Each infant must travel with an adult",
+      function (value) {
+        return !value || value <= (this.parent.adults || 1);
+      }
+    )
+    .optional(),
+  // Saved traveller profiles (comma-separated ids, signed-in users only)
+  // Adults/children/infants are then derived from their ages on the travel date
+  travelerIds: array()
+    .transform((value, originalValue) =>
+      typeof originalValue === "string"
+        ? originalValue.split(",").map((id) => id.trim()).filter(Boolean)
+        : value
+    )
+    .of(string().required())
+    .min(1, "At least one traveler is required")
+    .max(9, "Maximum 9 travelers allowed")
+    .optional(),
   travelClass: string()
     .oneOf(
       ["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"],
       "Travel class must be ECONOMY, PREMIUM_ECONOMY, BUSINESS, or FIRST"
     )
     .default("ECONOMY"),
+  // Prices are requested from the supplier in this currency (converted when it answers in another)
+  currency: currencyCode().optional(),
+  // Opt-in: also search airports within this many km of origin/destination
+  includeNearby: number()
+    .transform((value, originalValue) => {
+      if (typeof originalValue === "string") {
+        if (originalValue.trim() === "") return undefined;
+        const parsed = Number(originalValue);
+        return isNaN(parsed) ? value : parsed;
+      }
+      return value;
+    })
+    .integer("includeNearby must be a whole number of km")
+    .min(1, "includeNearby must be at least 1 km")
+    .max(300, "includeNearby cannot exceed 300 km")
+    .optional(),
+  // Opt-in: add self-transfer itineraries built from two one-way tickets via a hub (one-way only)
+  includeSelfTransfer: boolean().optional(),
+  minConnectionMinutes: number()
+    .transform((value, originalValue) => {
+      if (typeof originalValue === "string") {
+        if (originalValue.trim() === "") return undefined;
+        const parsed = Number(originalValue);
+        return isNaN(parsed) ? value : parsed;
+      }
+      return value;
+    })
+    .integer("minConnectionMinutes must be a whole number")
+    .min(60, "minConnectionMinutes must be at least 60")
+    .max(720, "minConnectionMinutes cannot exceed 720")
+    .optional(),
 }).test(
   "total-passengers",
   "Total passengers (adults + children) cannot exceed 9",
@@ -0,0 +1,27 @@
+import { mixed, number, object, string, type InferType } from "yup";
+
+// Share an offer from a previous search
+export const flightOfferShareSchema = object({
+  searchId: string().required("Search ID is required"),
+  offerId: string().required("Offer ID is required"),
+  // Query (GET /flight-offers) or body (POST /flight-offers) of the search, to repeat it
+  searchParams: mixed<Record<string, unknown>>()
+    .test("is-object", "Search params must be an object", (value) =>
+      value === undefined || (typeof value === "object" && value !== null && !Array.isArray(value))
+    )
+    .optional(),
+  // Defaults to 30 days, never past the first departure
+  expiresInDays: number()
+    .integer("Expiry must be a whole number of days")
+    .min(1, "Expiry must be at least 1 day")
+    .max(90, "Expiry cannot exceed 90 days")
+    .optional(),
+});
+
+// Book a shared itinerary with a partner
+export const flightShareDeepLinkSchema = object({
+  partner: string().trim().lowercase().required("Partner is required"),
+});
+
+export type FlightOfferShareRequestType = InferType<typeof flightOfferShareSchema>;
+export type FlightShareDeepLinkRequestType = InferType<typeof flightShareDeepLinkSchema>;
@@ -0,0 +1,72 @@
+import { boolean, mixed, number, object, string, type InferType } from "yup";
+
+// URL template must be an absolute http(s) URL once placeholders are filled.
+// Placeholders may only appear after the host, where any value keeps the URL valid
+const isUrlTemplate = (value?: string) => {
+  if (!value) return true;
+  if (!/^https?:\/\/[^/?#{}]+(?:[/?#]|$)/i.test(value)) return false;
+  try {
+    const url = new URL(value.replace(/\{\w+\}/g, "x"));
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+const fields = {
+  name: string().trim().max(100, "Name cannot exceed 100 characters"),
+  urlTemplate: string()
+    .trim()
+    .test(
+      "url-template",
+      "URL template must be an http(s) URL with placeholders only after the host",
+      isUrlTemplate
+    ),
+  // Flat { param: value } map, values may use the same placeholders
+  affiliateParams: mixed<Record<string, string>>()
+    .test(
+      "string-map",
+      "Affiliate params must be an object of string values",
+      (value) =>
+        value === undefined ||
+        value === null ||
+        (typeof value === "object" &&
+          !Array.isArray(value) &&
+          Object.values(value).every((v) => typeof v === "string"))
+    )
+    .nullable(),
+  commissionModel: string().oneOf(
+    ["cpc", "cpa", "revenue-share"],
+    "Commission model must be cpc, cpa or revenue-share"
+  ),
+  commissionValue: number().min(0, "Commission cannot be negative"),
+  commissionCurrency: string()
+    .trim()
+    .uppercase()
+    .matches(/^[A-Z]{3}$/, "Commission currency must be a 3-letter code"),
+  active: boolean(),
+};
+
+export const partnerCreateSchema = object({
+  ...fields,
+  code: string()
+    .trim()
+    .lowercase()
+    .required("Partner code is required")
+    .matches(/^[a-z0-9-]{2,40}$/, "Partner code may only contain letters, digits and dashes"),
+  name: fields.name.required("Name is required"),
+  urlTemplate: fields.urlTemplate.required("URL template is required"),
+  commissionModel: fields.commissionModel.required("Commission model is required"),
+  commissionValue: fields.commissionValue
+    .required("Commission value is required")
+    .test("percent", "Revenue share cannot exceed 100%", function (value) {
+      return this.parent.commissionModel !== "revenue-share" || value <= 100;
+    }),
+  commissionCurrency: fields.commissionCurrency.default("USD"),
+  active: fields.active.default(true),
+});
+
+export const partnerUpdateSchema = object(fields);
+
+export type PartnerCreateType = InferType<typeof partnerCreateSchema>;
+export type PartnerUpdateType = InferType<typeof partnerUpdateSchema>;
@@ -0,0 +1,64 @@
+import { boolean, number, object, string, type InferType } from "yup";
+import { format } from "date-fns";
+import { currencyCode } from "./currencySchema.js";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Watch a route and get notified when its cheapest price drops below targetPrice
+export const priceAlertCreateSchema = object({
+  origin: string()
+    .required("Origin airport code is required")
+    .matches(/^[A-Z]{3}$/, "Origin code must be 3 uppercase letters"),
+  destination: string()
+    .required("Destination airport code is required")
+    .matches(/^[A-Z]{3}$/, "Destination code must be 3 uppercase letters")
+    .test(
+      "different-from-origin",
+      "Destination must be different from origin",
+      function (value) {
+        return value !== this.parent.origin;
+      }
+    ),
+  departureDate: string()
+    .required("Departure date is required")
+    .matches(DATE_ONLY, "Departure date must be in YYYY-MM-DD format")
+    .test(
+      "not-in-past",
+      "Departure date cannot be in the past",
+      (value) => !value || value >= format(new Date(), "yyyy-MM-dd")
+    ),
+  returnDate: string()
+    .matches(DATE_ONLY, "Return date must be in YYYY-MM-DD format")
+    .test(
+      "is-after-departure",
+      "Return date must be on or after departure date",
+      function (value) {
+        const { departureDate } = this.parent;
+        return !value || !departureDate || value >= departureDate;
+      }
+    )
+    .optional(),
+  adults: number()
+    .integer("Adults must be a whole number")
+    .min(1, "At least 1 adult is required")
+    .max(9, "Maximum 9 adults allowed")
+    .default(1),
+  travelClass: string()
+    .oneOf(
+      ["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"],
+      "Travel class must be ECONOMY, PREMIUM_ECONOMY, BUSINESS, or FIRST"
+    )
+    .default("ECONOMY"),
+  currency: currencyCode().default("USD"),
+  targetPrice: number()
+    .required("Target price is required")
+    .positive("Target price must be positive"),
+});
+
+export const priceAlertUpdateSchema = object({
+  targetPrice: number().positive("Target price must be positive").optional(),
+  active: boolean().optional(),
+});
+
+export type PriceAlertCreateType = InferType<typeof priceAlertCreateSchema>;
+export type PriceAlertUpdateType = InferType<typeof priceAlertUpdateSchema>;
@@ -0,0 +1,23 @@
+import { boolean, mixed, object, string, type InferType } from "yup";
+
+// Save a search under a name: a GET /flight-offers query or a POST /flight-offers body
+export const savedSearchCreateSchema = object({
+  name: string()
+    .trim()
+    .required("Name is required")
+    .max(100, "Name cannot exceed 100 characters"),
+  query: mixed<Record<string, string | number | boolean>>().optional(),
+  multiCity: mixed<Record<string, any>>().optional(),
+}).test(
+  "query-or-multi-city",
+  "Either query or multiCity is required",
+  (value) => !!value.query !== !!value.multiCity
+);
+
+export const savedSearchUpdateSchema = object({
+  name: string().trim().max(100, "Name cannot exceed 100 characters").optional(),
+  pinned: boolean().optional(),
+});
+
+export type SavedSearchCreateType = InferType<typeof savedSearchCreateSchema>;
+export type SavedSearchUpdateType = InferType<typeof savedSearchUpdateSchema>;
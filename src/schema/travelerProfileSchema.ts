@@ -0,0 +1,66 @@
+import { array, object, string, type InferType } from "yup";
+import { format } from "date-fns";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const name = (label: string) =>
+  string().trim().max(50, `${label} cannot exceed 50 characters`);
+
+const fields = {
+  firstName: name("First name"),
+  lastName: name("Last name"),
+  dateOfBirth: string()
+    .matches(DATE_ONLY, "Date of birth must be in YYYY-MM-DD format")
+    .test(
+      "not-in-future",
+      "Date of birth cannot be in the future",
+      (value) => !value || value <= format(new Date(), "yyyy-MM-dd")
+    ),
+  // Only used where age allows a choice (SEATED_INFANT: infant with its own seat)
+  travelerType: string()
+    .oneOf(
+      ["ADULT", "CHILD", "HELD_INFANT", "SEATED_INFANT"],
+      "Traveler type must be ADULT, CHILD, HELD_INFANT or SEATED_INFANT"
+    )
+    .nullable(),
+  nationality: string()
+    .trim()
+    .uppercase()
+    .matches(/^[A-Z]{2}$/, "Nationality must be a 2-letter country code")
+    .nullable(),
+  preferredCabin: string()
+    .oneOf(
+      ["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"],
+      "Cabin must be ECONOMY, PREMIUM_ECONOMY, BUSINESS, or FIRST"
+    )
+    .nullable(),
+  loyaltyPrograms: array()
+    .of(
+      object({
+        programOwner: string()
+          .trim()
+          .uppercase()
+          .required("Loyalty program airline is required")
+          .matches(/^[A-Z0-9]{2}$/, "Loyalty program airline must be a 2-character code"),
+        id: string()
+          .trim()
+          .required("Loyalty number is required")
+          .max(25, "Loyalty number cannot exceed 25 characters"),
+      })
+    )
+    .max(10, "Maximum 10 loyalty programs allowed")
+    .nullable(),
+};
+
+// Traveller profile saved by a user (passenger type is derived from age on the travel date)
+export const travelerProfileSchema = object({
+  ...fields,
+  firstName: fields.firstName.required("First name is required"),
+  lastName: fields.lastName.required("Last name is required"),
+  dateOfBirth: fields.dateOfBirth.required("Date of birth is required"),
+});
+
+export const travelerProfileUpdateSchema = object(fields);
+
+export type TravelerProfileType = InferType<typeof travelerProfileSchema>;
+export type TravelerProfileUpdateType = InferType<typeof travelerProfileUpdateSchema>;